@@ -2,16 +2,18 @@
  * Cloudflare Worker example for ZEFIX API Client
  *
  * This example shows how to use the ZEFIX client in a Cloudflare Worker
- * with KV caching and proper error handling.
+ * with KV-backed response caching and proper error handling.
  */
 
 import {
+	CACHE_STATUS_HEADER,
 	configureClient,
 	ensureOk,
 	formatUid,
 	getCompanyByUid,
 	isActiveCompany,
 	isValidUid,
+	KvCacheStore,
 	searchCompanies,
 	ZefixError,
 } from '../src';
@@ -24,6 +26,7 @@ type KVNamespace = {
 		value: string,
 		options?: {expirationTtl?: number},
 	): Promise<void>;
+	delete(key: string): Promise<void>;
 };
 
 type Env = {
@@ -41,6 +44,10 @@ const workerHandler = {
 				password: env.ZEFIX_PASSWORD,
 			},
 			throttle: {minIntervalMs: 1000}, // Respect rate limits
+			cache: {
+				// Company lookups are cached for 6 hours, reference data for 7 days
+				store: new KvCacheStore(env.COMPANY_CACHE),
+			},
 		});
 
 		const url = new URL(request.url);
@@ -62,7 +69,7 @@ const workerHandler = {
 			// Route: GET /api/company/:uid
 			if (path.startsWith('/api/company/') && request.method === 'GET') {
 				const uid = path.replace('/api/company/', '').toUpperCase();
-				return await handleCompanyLookup(uid, env, corsHeaders);
+				return await handleCompanyLookup(uid, corsHeaders);
 			}
 
 			// Route: POST /api/search
@@ -121,11 +128,10 @@ const workerHandler = {
 export default workerHandler;
 
 /**
- * Handle company lookup by UID with caching
+ * Handle company lookup by UID, served from the KV cache when possible
  */
 async function handleCompanyLookup(
 	uid: string,
-	env: Env,
 	corsHeaders: Record<string, string>,
 ): Promise<Response> {
 	// Validate UID format
@@ -145,21 +151,6 @@ async function handleCompanyLookup(
 		);
 	}
 
-	const cacheKey = `company:${uid}`;
-
-	// Check cache first
-	const cached = await env.COMPANY_CACHE.get(cacheKey);
-	if (cached) {
-		console.log(`Cache hit for ${uid}`);
-		return new Response(cached, {
-			headers: {
-				'Content-Type': 'application/json',
-				'X-Cache': 'HIT',
-				...corsHeaders,
-			},
-		});
-	}
-
 	// Fetch from ZEFIX API
 	try {
 		const result = await getCompanyByUid({path: {id: uid}});
@@ -181,17 +172,10 @@ async function handleCompanyLookup(
 			},
 		};
 
-		const responseJson = JSON.stringify(response);
-
-		// Cache for 24 hours
-		await env.COMPANY_CACHE.put(cacheKey, responseJson, {
-			expirationTtl: 86_400,
-		});
-
-		return new Response(responseJson, {
+		return new Response(JSON.stringify(response), {
 			headers: {
 				'Content-Type': 'application/json',
-				'X-Cache': 'MISS',
+				'X-Cache': result.response.headers.get(CACHE_STATUS_HEADER) ?? 'MISS',
 				...corsHeaders,
 			},
 		});
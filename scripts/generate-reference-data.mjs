@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+/**
+ * Generate src/snapshot/reference-data.gen.ts from the live Zefix API
+ *
+ * Usage: node scripts/generate-reference-data.mjs
+ * Reads ZEFIX_USERNAME, ZEFIX_PASSWORD and optionally ZEFIX_BASE_URL from the
+ * environment or a .env file.
+ */
+
+import {Buffer} from 'node:buffer';
+import {writeFile} from 'node:fs/promises';
+import {fileURLToPath} from 'node:url';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const outputPath = `${root}src/snapshot/reference-data.gen.ts`;
+const baseUrl = (
+	process.env.ZEFIX_BASE_URL ?? 'https://www.zefix.admin.ch/ZefixPublicREST'
+).replace(/\/$/, '');
+
+const {ZEFIX_USERNAME: username, ZEFIX_PASSWORD: password} = process.env;
+if (!username || !password) {
+	console.error('Set ZEFIX_USERNAME and ZEFIX_PASSWORD to fetch the snapshot');
+	process.exit(1);
+}
+
+const authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+async function fetchList(path) {
+	const response = await fetch(`${baseUrl}/api/v1/${path}`, {
+		headers: {authorization, accept: 'application/json'},
+	});
+	if (!response.ok) {
+		throw new Error(
+			`GET ${path} failed: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	return response.json();
+}
+
+/**
+ * Sort by ID, so regenerating only shows actual changes in the diff
+ */
+function sortBy(records, key) {
+	return records.toSorted((a, b) => (a[key] ?? 0) - (b[key] ?? 0));
+}
+
+const [legalForms, communities, registries] = await Promise.all([
+	fetchList('legalForm'),
+	fetchList('community'),
+	fetchList('registryOfCommerce'),
+]);
+
+const json = (value) => JSON.stringify(value, undefined, 2);
+
+const output = `// This file is auto-generated by scripts/generate-reference-data.mjs
+
+import type { BfsCommunity, LegalForm, RegistryOfCommerce } from '../generated/types.gen';
+
+/**
+ * When the snapshot was fetched from Zefix, as ISO timestamp
+ */
+export const generatedAt: string | undefined = ${json(new Date().toISOString())};
+
+export const legalForms: LegalForm[] = ${json(sortBy(legalForms, 'id'))};
+
+export const communities: BfsCommunity[] = ${json(sortBy(communities, 'bfsId'))};
+
+export const registries: RegistryOfCommerce[] = ${json(sortBy(registries, 'registryOfCommerceId'))};
+`;
+
+await writeFile(outputPath, output);
+console.log(
+	`Wrote ${outputPath}: ${legalForms.length} legal forms, ${communities.length} communities, ${registries.length} registries`,
+);
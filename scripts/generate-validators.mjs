@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+/**
+ * Generate src/generated/validators.gen.ts from the OpenAPI spec
+ *
+ * Usage: node scripts/generate-validators.mjs [spec.json]
+ * Defaults to $OAS_PATH when it points at a local file, else spec/zefix.json.
+ */
+
+import {readFile, writeFile} from 'node:fs/promises';
+import {fileURLToPath} from 'node:url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const specPath =
+	process.argv[2] ??
+	(process.env.OAS_PATH && !/^https?:/.test(process.env.OAS_PATH)
+		? process.env.OAS_PATH
+		: `${root}spec/zefix.json`);
+const outputPath = `${root}src/generated/validators.gen.ts`;
+
+const spec = JSON.parse(await readFile(specPath, 'utf8'));
+const typesSource = await readFile(`${root}src/generated/types.gen.ts`, 'utf8');
+
+/**
+ * Schema name as emitted by @hey-api/openapi-ts, e.g. DFIEString -> DfieString
+ */
+function toTypeName(name) {
+	return name.replaceAll(
+		/([A-Z]+)(?=[A-Z][a-z])/g,
+		(run) => run[0] + run.slice(1).toLowerCase(),
+	);
+}
+
+function toNode(schema) {
+	if (schema.$ref) {
+		return {ref: toTypeName(schema.$ref.replace('#/components/schemas/', ''))};
+	}
+
+	switch (schema.type) {
+		case 'string': {
+			return pick(schema, {type: 'string'}, [
+				'enum',
+				'format',
+				'minLength',
+				'maxLength',
+			]);
+		}
+
+		case 'integer':
+		case 'number': {
+			return pick(schema, {type: schema.type}, ['minimum', 'maximum']);
+		}
+
+		case 'boolean': {
+			return {type: 'boolean'};
+		}
+
+		case 'array': {
+			return {type: 'array', items: toNode(schema.items)};
+		}
+
+		case 'object': {
+			return pick(
+				schema,
+				{
+					type: 'object',
+					properties: Object.fromEntries(
+						Object.entries(schema.properties ?? {}).map(([key, property]) => [
+							key,
+							toNode(property),
+						]),
+					),
+				},
+				['required'],
+			);
+		}
+
+		default: {
+			throw new Error(`Unsupported schema: ${JSON.stringify(schema)}`);
+		}
+	}
+}
+
+function pick(schema, node, keys) {
+	for (const key of keys) {
+		if (schema[key] !== undefined) node[key] = schema[key];
+	}
+
+	return node;
+}
+
+/**
+ * Endpoint of a path as used by the client, e.g. /api/v1/company/uid/{id} -> company/uid
+ */
+function toEndpoint(path) {
+	return path.replace(/^\/api\/v1\//, '').replaceAll(/\/{[^}]+}/g, '');
+}
+
+const schemaNames = Object.keys(spec.components.schemas).map((name) =>
+	toTypeName(name),
+);
+for (const name of schemaNames) {
+	if (!typesSource.includes(`export type ${name} = `)) {
+		throw new Error(`types.gen.ts has no type named ${name}`);
+	}
+}
+
+const schemas = Object.fromEntries(
+	Object.entries(spec.components.schemas).map(([name, schema]) => [
+		toTypeName(name),
+		toNode(schema),
+	]),
+);
+
+const responses = {};
+for (const [path, operations] of Object.entries(spec.paths)) {
+	for (const operation of Object.values(operations)) {
+		const content = operation.responses?.['200']?.content ?? {};
+		const schema = Object.values(content)[0]?.schema;
+		if (schema) responses[toEndpoint(path)] = toNode(schema);
+	}
+}
+
+const json = (value) => JSON.stringify(value, undefined, 2);
+const sortedNames = schemaNames.toSorted();
+
+const output = `// This file is auto-generated by scripts/generate-validators.mjs
+
+import type { SchemaNode, Validator } from '../utils/validation';
+import { createValidator } from '../utils/validation';
+import type { ZefixEndpoint } from '../utils/request-key';
+import type { ${sortedNames.join(', ')} } from './types.gen';
+
+export type SchemaName = ${sortedNames.map((name) => `'${name}'`).join(' | ')};
+
+/**
+ * Schemas of the OpenAPI spec, reduced to what validation needs
+ */
+export const schemas: Record<SchemaName, SchemaNode> = ${json(schemas)};
+
+/**
+ * Schema of the successful (200) response of every endpoint
+ */
+export const responseSchemas: Record<ZefixEndpoint, SchemaNode> = ${json(responses)};
+${sortedNames
+	.map(
+		(name) => `
+/**
+ * Validate a value against the \`${name}\` schema
+ */
+export const validate${name}: Validator<${name}> = createValidator({ ref: '${name}' }, schemas);
+`,
+	)
+	.join('')}`;
+
+await writeFile(outputPath, output);
+console.log(`Wrote ${outputPath}`);
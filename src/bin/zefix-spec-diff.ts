@@ -0,0 +1,16 @@
+import process from 'node:process';
+import {fileURLToPath} from 'node:url';
+import {specDiffCommand} from '../cli/spec-diff';
+
+process.exitCode = await specDiffCommand(process.argv.slice(2), {
+	// The bundle lives in dist/, the spec ships next to it in spec/
+	bundledSpecPath: fileURLToPath(
+		new URL('../spec/zefix.json', import.meta.url),
+	),
+	stdout(text) {
+		process.stdout.write(`${text}\n`);
+	},
+	stderr(text) {
+		process.stderr.write(`${text}\n`);
+	},
+});
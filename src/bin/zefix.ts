@@ -0,0 +1,17 @@
+import process from 'node:process';
+import {fileURLToPath} from 'node:url';
+import {zefixCommand} from '../cli/zefix';
+
+process.exitCode = await zefixCommand(process.argv.slice(2), {
+	env: process.env,
+	// The bundle lives in dist/, the spec ships next to it in spec/
+	bundledSpecPath: fileURLToPath(
+		new URL('../spec/zefix.json', import.meta.url),
+	),
+	stdout(text) {
+		process.stdout.write(`${text}\n`);
+	},
+	stderr(text) {
+		process.stderr.write(`${text}\n`);
+	},
+});
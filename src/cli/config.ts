@@ -0,0 +1,71 @@
+/**
+ * Credentials and settings of the `zefix` command
+ */
+
+import {readFile} from 'node:fs/promises';
+import {homedir} from 'node:os';
+import {join} from 'node:path';
+
+/**
+ * Contents of the config file, e.g. `~/.config/zefix/config.json`
+ */
+export type CliConfig = {
+	username?: string;
+	password?: string;
+	baseUrl?: string;
+};
+
+/**
+ * Thrown for invalid command lines and unusable configuration
+ */
+export class CliUsageError extends Error {
+	override name = 'CliUsageError';
+}
+
+/**
+ * Resolve the config file: `--config`, then `$ZEFIX_CONFIG`, then
+ * `$XDG_CONFIG_HOME/zefix/config.json` or `~/.config/zefix/config.json`
+ */
+export function getConfigPath(
+	env: Record<string, string | undefined>,
+	explicitPath?: string,
+): string {
+	return (
+		explicitPath ??
+		env.ZEFIX_CONFIG ??
+		join(
+			env.XDG_CONFIG_HOME ?? join(homedir(), '.config'),
+			'zefix',
+			'config.json',
+		)
+	);
+}
+
+/**
+ * Load the config, with `ZEFIX_USERNAME`, `ZEFIX_PASSWORD` and
+ * `ZEFIX_BASE_URL` taking precedence over the file. A missing file is only
+ * an error when it was given explicitly.
+ */
+export async function loadCliConfig(
+	env: Record<string, string | undefined>,
+	explicitPath?: string,
+): Promise<CliConfig> {
+	const path = getConfigPath(env, explicitPath);
+	let file: CliConfig = {};
+	try {
+		file = JSON.parse(await readFile(path, 'utf8')) as CliConfig;
+	} catch (error) {
+		const missing = (error as {code?: string}).code === 'ENOENT';
+		if (!missing || explicitPath !== undefined || env.ZEFIX_CONFIG) {
+			throw new CliUsageError(
+				`Could not read config file ${path}: ${(error as Error).message}`,
+			);
+		}
+	}
+
+	return {
+		username: env.ZEFIX_USERNAME ?? file.username,
+		password: env.ZEFIX_PASSWORD ?? file.password,
+		baseUrl: env.ZEFIX_BASE_URL ?? file.baseUrl,
+	};
+}
@@ -0,0 +1,76 @@
+/**
+ * Output formats of the `zefix` command
+ */
+
+export const OUTPUT_FORMATS = ['table', 'json', 'ndjson'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * A table column: its header and how to get the cell from a row
+ */
+export type Column<T> = {
+	header: string;
+	value: (row: T) => string | number | boolean | undefined;
+};
+
+export function isOutputFormat(value: string): value is OutputFormat {
+	return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Render rows as an aligned text table, a JSON array or one JSON object per line.
+ * Columns only apply to tables; JSON output contains the full records.
+ */
+export function formatRows<T>(
+	rows: T[],
+	columns: Array<Column<T>>,
+	format: OutputFormat,
+): string {
+	switch (format) {
+		case 'json': {
+			return JSON.stringify(rows, undefined, 2);
+		}
+
+		case 'ndjson': {
+			return rows.map((row) => JSON.stringify(row)).join('\n');
+		}
+
+		case 'table': {
+			return formatTable(
+				columns.map((column) => column.header),
+				rows.map((row) => columns.map((column) => toCell(column.value(row)))),
+			);
+		}
+	}
+}
+
+/**
+ * Render rows of cells as columns padded to their widest cell
+ */
+export function formatTable(headers: string[], cells: string[][]): string {
+	if (cells.length === 0) return 'No results';
+
+	const widths = headers.map((header, index) =>
+		Math.max(header.length, ...cells.map((row) => row[index].length)),
+	);
+	const line = (row: string[]) =>
+		row
+			.map((cell, index) => cell.padEnd(widths[index]))
+			.join('  ')
+			.trimEnd();
+
+	return [
+		line(headers),
+		line(widths.map((width) => '-'.repeat(width))),
+		...cells.map((row) => line(row)),
+	].join('\n');
+}
+
+/**
+ * Single-line cell text; long texts such as company purposes are shortened
+ */
+function toCell(value: string | number | boolean | undefined): string {
+	if (value === undefined) return '';
+	const text = String(value).replaceAll(/\s+/g, ' ').trim();
+	return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
@@ -0,0 +1,113 @@
+/**
+ * `zefix-spec-diff`: compare a local or live ZEFIX OpenAPI spec with another
+ */
+
+import {readFile} from 'node:fs/promises';
+import {parseArgs} from 'node:util';
+import {diffSpecs, formatSpecDiff, type OpenApiSpec} from '../spec-diff';
+
+export const LIVE_SPEC_URL =
+	'https://www.zefix.admin.ch/ZefixPublicREST/v3/api-docs';
+
+export const SPEC_DIFF_USAGE = `Usage: zefix-spec-diff [options] [old-spec] [new-spec]
+
+Compare two ZEFIX OpenAPI specs (file paths or URLs) and report the changes.
+old-spec defaults to the spec bundled with the package, new-spec to
+${LIVE_SPEC_URL}
+
+Options:
+  --json   Print the diff as JSON
+  --help   Show this help
+
+Exit codes: 0 no breaking changes, 1 breaking changes, 2 error`;
+
+export type SpecDiffCommandOptions = {
+	/** Spec compared against when no old spec is given */
+	bundledSpecPath: string;
+	stdout: (text: string) => void;
+	stderr: (text: string) => void;
+	/**
+	 * Fetch implementation for spec URLs
+	 * @default globalThis.fetch
+	 */
+	fetch?: typeof fetch;
+};
+
+/**
+ * Run the command and return its exit code
+ */
+export async function specDiffCommand(
+	args: string[],
+	options: SpecDiffCommandOptions,
+): Promise<number> {
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args,
+			allowPositionals: true,
+			options: {json: {type: 'boolean'}, help: {type: 'boolean'}},
+		});
+	} catch (error) {
+		options.stderr(`${(error as Error).message}\n\n${SPEC_DIFF_USAGE}`);
+		return 2;
+	}
+
+	const {values, positionals} = parsed;
+	if (values.help) {
+		options.stdout(SPEC_DIFF_USAGE);
+		return 0;
+	}
+
+	if (positionals.length > 2) {
+		options.stderr(SPEC_DIFF_USAGE);
+		return 2;
+	}
+
+	const [oldSource = options.bundledSpecPath, newSource = LIVE_SPEC_URL] =
+		positionals;
+	let oldSpec: OpenApiSpec;
+	let newSpec: OpenApiSpec;
+	try {
+		oldSpec = await loadSpec(oldSource, options.fetch);
+		newSpec = await loadSpec(newSource, options.fetch);
+	} catch (error) {
+		options.stderr((error as Error).message);
+		return 2;
+	}
+
+	const diff = diffSpecs(oldSpec, newSpec);
+	options.stdout(
+		values.json ? JSON.stringify(diff, undefined, 2) : formatSpecDiff(diff),
+	);
+	return diff.breaking.length > 0 ? 1 : 0;
+}
+
+/**
+ * Read a spec from a file path or an http(s) URL
+ */
+async function loadSpec(
+	source: string,
+	fetchImpl: typeof fetch = globalThis.fetch,
+): Promise<OpenApiSpec> {
+	if (/^https?:\/\//.test(source)) {
+		const response = await fetchImpl(source, {
+			headers: {Accept: 'application/json'},
+		});
+		if (!response.ok) {
+			throw new Error(
+				`Could not fetch ${source}: ${response.status} ${response.statusText}`,
+			);
+		}
+
+		return response.json();
+	}
+
+	let text: string;
+	try {
+		text = await readFile(source, 'utf8');
+	} catch (error) {
+		throw new Error(`Could not read ${source}: ${(error as Error).message}`);
+	}
+
+	return JSON.parse(text) as OpenApiSpec;
+}
@@ -0,0 +1,457 @@
+/**
+ * `zefix`: command-line lookups in the ZEFIX API
+ */
+
+import {parseArgs} from 'node:util';
+import {ZefixApiClient} from '../client';
+import type {
+	BfsCommunity,
+	CompanyFull,
+	CompanyShort,
+	LegalForm,
+	RegistryOfCommerce,
+	SogcPublicationAndCompanyShort,
+} from '../generated/types.gen';
+import {formatUid, normalizeUid} from '../uid';
+import {
+	ensureOk,
+	ZefixAuthenticationError,
+	ZefixError,
+	ZefixInvalidQueryWordsError,
+	ZefixInvalidRequestDataError,
+	ZefixNetworkError,
+	ZefixNotFoundError,
+	ZefixRateLimitError,
+	ZefixResultListTooLargeError,
+	ZefixTimeoutError,
+} from '../utils/errors';
+import {localize} from '../utils/localize';
+import {isValidLanguage, type ZefixLanguage} from '../utils/type-guards';
+import {CliUsageError, loadCliConfig} from './config';
+import {
+	type Column,
+	formatRows,
+	formatTable,
+	isOutputFormat,
+	type OutputFormat,
+} from './output';
+import {type SpecDiffCommandOptions, specDiffCommand} from './spec-diff';
+
+/**
+ * Exit codes of the `zefix` command
+ */
+export const EXIT_CODES = {
+	ok: 0,
+	error: 1,
+	usage: 2,
+	authentication: 3,
+	notFound: 4,
+	invalidRequest: 5,
+	rateLimited: 6,
+	network: 7,
+} as const;
+
+export const ZEFIX_USAGE = `Usage: zefix <command> [options]
+
+Commands:
+  search <name>           Search companies by name (* as wildcard)
+  show <uid|ehraid|chid>  Show a company, e.g. CHE-105.815.381, 1100001 or CH-020.3.020.656-9
+  sogc <id>               Show the SOGC publication with this ID
+  sogc-day <date>         List the SOGC publications of a day (YYYY-MM-DD)
+  legal-forms             List the legal forms
+  communities             List the BFS communities
+  registries              List the cantonal registries of commerce
+  spec-diff [old] [new]   Compare OpenAPI specs, see zefix spec-diff --help
+
+Options:
+  -f, --format <format>   table (default), json or ndjson
+  -l, --lang <lang>       Language of names in tables: de (default), fr, it or en
+      --config <path>     Config file with username, password and baseUrl
+      --canton <canton>   search: only companies seated in this canton
+      --legal-form <id>   search: only companies with this legal form ID
+      --active            search: only active companies
+      --all               search: split queries with too many results
+  -h, --help              Show this help
+
+Credentials are read from ZEFIX_USERNAME and ZEFIX_PASSWORD, or from the
+config file ($ZEFIX_CONFIG, default ~/.config/zefix/config.json).
+Requests are limited to a burst of 5, then 1 per second.
+
+Exit codes:
+  0 success, 1 other error, 2 usage error, 3 authentication failed,
+  4 not found, 5 invalid query or too many results, 6 rate limited,
+  7 network error`;
+
+export type ZefixCommandOptions = SpecDiffCommandOptions & {
+	env: Record<string, string | undefined>;
+};
+
+type CommandContext = {
+	argument: string;
+	format: OutputFormat;
+	lang: ZefixLanguage;
+	values: ParsedValues;
+};
+
+type Command = {
+	/** Name of the required argument, if any */
+	argument?: string;
+	run: (zefix: ZefixApiClient, context: CommandContext) => Promise<string>;
+};
+
+const PARSE_OPTIONS = {
+	format: {type: 'string', short: 'f', default: 'table'},
+	lang: {type: 'string', short: 'l', default: 'de'},
+	config: {type: 'string'},
+	canton: {type: 'string'},
+	'legal-form': {type: 'string'},
+	active: {type: 'boolean'},
+	all: {type: 'boolean'},
+	help: {type: 'boolean', short: 'h'},
+} as const;
+
+type ParsedValues = ReturnType<
+	typeof parseArgs<{options: typeof PARSE_OPTIONS}>
+>['values'];
+
+const COMMANDS: Record<string, Command> = {
+	search: {
+		argument: 'name',
+		async run(zefix, {argument, format, lang, values}) {
+			const legalFormId =
+				values['legal-form'] === undefined
+					? undefined
+					: parseInteger(values['legal-form'], '--legal-form');
+			const query = {
+				name: argument,
+				canton: values.canton?.toUpperCase(),
+				legalFormId,
+				activeOnly: values.active,
+			};
+			if (values.all) {
+				const {companies} = await zefix.searchAll(query);
+				return formatRows(companies, companyColumns(lang), format);
+			}
+
+			const companies = await ensureOk(zefix.searchCompanies({body: query}));
+			return formatRows(companies, companyColumns(lang), format);
+		},
+	},
+	show: {
+		argument: 'uid|ehraid|chid',
+		async run(zefix, {argument, format, lang}) {
+			const companies = await getCompany(zefix, argument);
+			if (format !== 'table') return formatRows(companies, [], format);
+			return companies
+				.map((company) =>
+					formatTable(
+						['Field', 'Value'],
+						describeCompany(company, lang).filter(([, value]) => value),
+					),
+				)
+				.join('\n\n');
+		},
+	},
+	sogc: {
+		argument: 'id',
+		async run(zefix, {argument, format}) {
+			const publication = await ensureOk(
+				zefix.getSogcPublications({
+					path: {id: parseInteger(argument, 'SOGC ID')},
+				}),
+			);
+			return formatRows([publication], SOGC_COLUMNS, format);
+		},
+	},
+	'sogc-day': {
+		argument: 'date',
+		async run(zefix, {argument, format}) {
+			if (!/^\d{4}-\d{2}-\d{2}$/.test(argument)) {
+				throw new CliUsageError(`Not a date (YYYY-MM-DD): ${argument}`);
+			}
+
+			const publications = await ensureOk(
+				zefix.getSogcByDate({path: {date: argument}}),
+			);
+			return formatRows(publications, SOGC_COLUMNS, format);
+		},
+	},
+	'legal-forms': {
+		async run(zefix, {format, lang}) {
+			const legalForms = await ensureOk(zefix.getLegalForms());
+			const columns: Array<Column<LegalForm>> = [
+				{header: 'ID', value: (legalForm) => legalForm.id},
+				{header: 'Code', value: (legalForm) => legalForm.uid},
+				{
+					header: 'Short name',
+					value: (legalForm) => localize(legalForm.shortName, lang),
+				},
+				{header: 'Name', value: (legalForm) => localize(legalForm.name, lang)},
+			];
+			return formatRows(legalForms, columns, format);
+		},
+	},
+	communities: {
+		async run(zefix, {format}) {
+			const communities = await ensureOk(zefix.getCommunities());
+			const columns: Array<Column<BfsCommunity>> = [
+				{header: 'BFS ID', value: (community) => community.bfsId},
+				{header: 'Name', value: (community) => community.name},
+				{header: 'Canton', value: (community) => community.canton},
+				{
+					header: 'Registry',
+					value: (community) => community.registryOfCommerceId,
+				},
+			];
+			return formatRows(communities, columns, format);
+		},
+	},
+	registries: {
+		async run(zefix, {format}) {
+			const registries = await ensureOk(zefix.getRegistriesOfCommerce());
+			const columns: Array<Column<RegistryOfCommerce>> = [
+				{header: 'ID', value: (registry) => registry.registryOfCommerceId},
+				{header: 'Canton', value: (registry) => registry.canton},
+				{
+					header: 'Address',
+					value: (registry) =>
+						[
+							registry.address1,
+							registry.address2,
+							registry.address3,
+							registry.address4,
+						]
+							.filter(Boolean)
+							.join(', '),
+				},
+				{header: 'Homepage', value: (registry) => registry.homepage},
+			];
+			return formatRows(registries, columns, format);
+		},
+	},
+};
+
+const SOGC_COLUMNS: Array<Column<SogcPublicationAndCompanyShort>> = [
+	{header: 'SOGC ID', value: (item) => item.sogcPublication?.sogcId},
+	{header: 'Date', value: (item) => item.sogcPublication?.sogcDate},
+	{
+		header: 'UID',
+		value: (item) => item.companyShort?.uid && formatUid(item.companyShort.uid),
+	},
+	{header: 'Company', value: (item) => item.companyShort?.name},
+	{
+		header: 'Mutations',
+		value: (item) =>
+			item.sogcPublication?.mutationTypes
+				?.map((mutation) => mutation.key)
+				.join(', '),
+	},
+];
+
+/**
+ * Run the command and return its exit code
+ */
+export async function zefixCommand(
+	args: string[],
+	options: ZefixCommandOptions,
+): Promise<number> {
+	const [command, ...rest] = args;
+	if (command === 'spec-diff') return specDiffCommand(rest, options);
+
+	try {
+		const {values, positionals} = parseArgs({
+			args: rest,
+			allowPositionals: true,
+			options: PARSE_OPTIONS,
+		});
+		if (!command || ['help', '--help', '-h'].includes(command) || values.help) {
+			options.stdout(ZEFIX_USAGE);
+			return EXIT_CODES.ok;
+		}
+
+		const handler = COMMANDS[command];
+		if (!handler) throw new CliUsageError(`Unknown command: ${command}`);
+		const expected = handler.argument ? 1 : 0;
+		if (positionals.length !== expected) {
+			throw new CliUsageError(
+				handler.argument
+					? `Usage: zefix ${command} <${handler.argument}>`
+					: `zefix ${command} takes no arguments`,
+			);
+		}
+
+		const {format, lang} = values;
+		if (!isOutputFormat(format)) {
+			throw new CliUsageError(`Unknown format: ${format}`);
+		}
+
+		if (!isValidLanguage(lang)) {
+			throw new CliUsageError(`Unknown language: ${lang}`);
+		}
+
+		const zefix = await createCliClient(options, values.config);
+		const output = await handler.run(zefix, {
+			argument: positionals[0],
+			format,
+			lang,
+			values,
+		});
+		options.stdout(output);
+		return EXIT_CODES.ok;
+	} catch (error) {
+		const exitCode = getExitCode(error);
+		const message = error instanceof Error ? error.message : String(error);
+		options.stderr(
+			exitCode === EXIT_CODES.usage
+				? `${message}\nRun zefix --help for usage.`
+				: `Error: ${message}`,
+		);
+		return exitCode;
+	}
+}
+
+/**
+ * Map an error to the documented exit code
+ */
+export function getExitCode(error: unknown): number {
+	if (error instanceof ZefixError) {
+		if (error instanceof ZefixAuthenticationError) {
+			return EXIT_CODES.authentication;
+		}
+
+		if (error instanceof ZefixNotFoundError) return EXIT_CODES.notFound;
+		if (
+			error instanceof ZefixInvalidQueryWordsError ||
+			error instanceof ZefixInvalidRequestDataError ||
+			error instanceof ZefixResultListTooLargeError
+		) {
+			return EXIT_CODES.invalidRequest;
+		}
+
+		if (error instanceof ZefixRateLimitError) return EXIT_CODES.rateLimited;
+		if (
+			error instanceof ZefixNetworkError ||
+			error instanceof ZefixTimeoutError
+		) {
+			return EXIT_CODES.network;
+		}
+
+		return EXIT_CODES.error;
+	}
+
+	if (
+		error instanceof CliUsageError ||
+		(typeof error === 'object' &&
+			error !== null &&
+			'code' in error &&
+			typeof error.code === 'string' &&
+			error.code.startsWith('ERR_PARSE_ARGS'))
+	) {
+		return EXIT_CODES.usage;
+	}
+
+	return EXIT_CODES.error;
+}
+
+async function createCliClient(
+	options: ZefixCommandOptions,
+	configPath: string | undefined,
+): Promise<ZefixApiClient> {
+	const config = await loadCliConfig(options.env, configPath);
+	if (!config.username || !config.password) {
+		throw new ZefixAuthenticationError(
+			'Missing credentials: set ZEFIX_USERNAME and ZEFIX_PASSWORD or add them to the config file',
+		);
+	}
+
+	return new ZefixApiClient({
+		auth: {username: config.username, password: config.password},
+		baseUrl: config.baseUrl,
+		customFetch: options.fetch,
+		rateLimit: {capacity: 5, refillPerSecond: 1},
+		retry: {},
+	});
+}
+
+/**
+ * Look up a company by UID (`CHE` prefix), CH-ID (`CH` prefix) or EHRA-ID
+ */
+async function getCompany(
+	zefix: ZefixApiClient,
+	id: string,
+): Promise<CompanyFull[]> {
+	if (/^che/i.test(id)) {
+		const uid = normalizeUid(id);
+		if (!uid) throw new CliUsageError(`Not a valid UID: ${id}`);
+		return ensureOk(zefix.getCompanyByUid({path: {id: `CHE${uid}`}}));
+	}
+
+	if (/^ch/i.test(id)) {
+		const chid = id.replaceAll(/[\s.-]/g, '').toUpperCase();
+		if (!/^CH\d{11}$/.test(chid)) {
+			throw new CliUsageError(`Not a valid CH-ID: ${id}`);
+		}
+
+		return ensureOk(zefix.getCompanyByChid({path: {id: chid}}));
+	}
+
+	const company = await ensureOk(
+		zefix.getCompanyByEhraid({path: {id: parseInteger(id, 'EHRA-ID')}}),
+	);
+	return [company];
+}
+
+function companyColumns(lang: ZefixLanguage): Array<Column<CompanyShort>> {
+	return [
+		{header: 'UID', value: (company) => company.uid && formatUid(company.uid)},
+		{header: 'Name', value: (company) => company.name},
+		{
+			header: 'Legal form',
+			value: (company) => localize(company.legalForm?.shortName, lang),
+		},
+		{header: 'Seat', value: (company) => company.legalSeat},
+		{header: 'Status', value: (company) => company.status},
+	];
+}
+
+function describeCompany(
+	company: CompanyFull,
+	lang: ZefixLanguage,
+): string[][] {
+	const {address} = company;
+	const street = [address?.street, address?.houseNumber]
+		.filter(Boolean)
+		.join(' ');
+	const city = [address?.swissZipCode, address?.city].filter(Boolean).join(' ');
+	return [
+		['UID', company.uid ? formatUid(company.uid) : ''],
+		['Name', company.name ?? ''],
+		['Legal form', localize(company.legalForm?.name, lang) ?? ''],
+		['Seat', [company.legalSeat, company.canton].filter(Boolean).join(', ')],
+		['Status', company.status ?? ''],
+		[
+			'Address',
+			[address?.organisation, street, city].filter(Boolean).join(', '),
+		],
+		[
+			'Capital',
+			company.capitalNominal
+				? `${company.capitalNominal} ${company.capitalCurrency ?? ''}`.trim()
+				: '',
+		],
+		['Purpose', company.purpose?.replaceAll(/\s+/g, ' ').trim() ?? ''],
+		['EHRA-ID', company.ehraid === undefined ? '' : String(company.ehraid)],
+		['CH-ID', company.chid ?? ''],
+		['Last SOGC', company.sogcDate ?? ''],
+		['Deleted', company.deletionDate ?? ''],
+		['Excerpt', company.cantonalExcerptWeb ?? ''],
+	];
+}
+
+function parseInteger(value: string, name: string): number {
+	if (!/^\d+$/.test(value)) {
+		throw new CliUsageError(`${name} must be a number: ${value}`);
+	}
+
+	return Number(value);
+}
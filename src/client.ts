@@ -1,8 +1,50 @@
-import {client} from './generated/client.gen';
-import type {Config as GeneratedClientConfig} from './generated/client/types.gen';
+import {
+	type Client,
+	createClient,
+	createConfig,
+	type Config as GeneratedClientConfig,
+} from './generated/client';
+import type {
+	CompanySearchQuery,
+	DfieString,
+	SogcPublicationAndCompanyShort,
+} from './generated/types.gen';
+import {
+	searchAll,
+	type SearchAllOptions,
+	type SearchAllResult,
+} from './search-all';
+import {
+	type LookupManyOptions,
+	type LookupResult,
+	lookupMany,
+} from './lookup-many';
+import {iterateSogc, type IterateSogcOptions} from './sogc';
+import {type CacheOptions, ResponseCache} from './utils/cache';
+import {type CoalesceOptions, RequestCoalescer} from './utils/coalesce';
+import {
+	rememberRequest,
+	withNetworkErrors,
+	type ZefixResponseValidationError,
+} from './utils/errors';
+import {
+	type LocalizedView,
+	type LocalizeOptions,
+	localize,
+	toLocalizedView,
+} from './utils/localize';
 import {toBase64} from './utils/node-or-worker';
+import {type RateLimitOptions, RateLimiter} from './utils/rate-limiter';
+import {
+	type ValidateResponsesMode,
+	withResponseValidation,
+} from './utils/response-validation';
+import {getRequestScope} from './utils/request-key';
+import {type RetryOptions, withRetry} from './utils/retry';
+import type {ZefixLanguage} from './utils/type-guards';
 import {
 	byBfsCommunityId as getRegistryByBfsCommunityIdSdk,
+	list as getRegistriesOfCommerceSdk,
 	showChid as getCompanyByChidSdk,
 	showEhraid as getCompanyByEhraidSdk,
 	showUid as getCompanyByUidSdk,
@@ -21,12 +63,87 @@ export type Auth = {
 export type ClientConfig = {
 	baseUrl?: string;
 	auth?: Auth;
+	/**
+	 * Shorthand for a token bucket with a capacity of 1, refilled once per
+	 * `minIntervalMs`. Ignored when `rateLimit` is set.
+	 */
 	throttle?: {minIntervalMs?: number};
+	/**
+	 * Token-bucket rate limit applied to every request, including retries.
+	 * Pass a `RateLimiter` to share one quota between several clients.
+	 */
+	rateLimit?: RateLimitOptions | RateLimiter;
 	customFetch?: typeof fetch;
+	/**
+	 * Retry transient failures (429, 5xx, network errors) with exponential
+	 * backoff. Disabled when omitted.
+	 */
+	retry?: RetryOptions;
+	/**
+	 * Cache successful responses with per-endpoint TTLs. Disabled when omitted.
+	 */
+	cache?: CacheOptions;
+	/**
+	 * Share one in-flight request between concurrent identical GETs and
+	 * company searches. Disabled when omitted.
+	 */
+	coalesce?: CoalesceOptions;
+	/**
+	 * Check successful responses against the OpenAPI spec. `warn` reports
+	 * mismatches through `onInvalidResponse`, `strict` rejects with
+	 * `ZefixResponseValidationError`. Invalid responses are never cached.
+	 * @default 'off'
+	 */
+	validateResponses?: ValidateResponsesMode;
+	/**
+	 * Called for every mismatch with `validateResponses: 'warn'`
+	 * @default console.warn of the error message
+	 */
+	onInvalidResponse?: (error: ZefixResponseValidationError) => void;
+	/**
+	 * Language of `localize()` and `toLocalizedView()`. Zefix itself always
+	 * answers in all languages.
+	 * @default 'de'
+	 */
+	language?: ZefixLanguage;
 };
 
+const DEFAULT_BASE_URL = 'https://www.zefix.admin.ch/ZefixPublicREST';
+
+/**
+ * Bind a generated SDK function to a specific HTTP client instance.
+ * An explicit `client` passed in the call options still takes precedence.
+ */
+function bindSdk<T extends (options: never) => unknown>(
+	sdk: T,
+	getHttpClient: () => Client,
+): T {
+	const bound = (options?: {client?: Client}) =>
+		sdk({...options, client: options?.client ?? getHttpClient()} as never);
+	return bound as unknown as T;
+}
+
 export class ZefixApiClient {
-	private lastRequestTime = 0;
+	/**
+	 * The HTTP client owned by this instance. It is never shared with other
+	 * instances or with the generated singleton.
+	 */
+	public readonly client: Client;
+
+	/**
+	 * The limiter applied to this instance's requests, if any.
+	 */
+	public readonly rateLimiter?: RateLimiter;
+
+	/**
+	 * The response cache of this instance, if any. Use it to invalidate entries.
+	 */
+	public readonly cache?: ResponseCache;
+
+	/**
+	 * The default language of this instance's localization helpers
+	 */
+	public readonly language: ZefixLanguage;
 
 	constructor(private readonly config: ClientConfig = {}) {
 		// Browser environment guard
@@ -38,56 +155,188 @@ export class ZefixApiClient {
 			);
 		}
 
-		const clientConfig: Partial<GeneratedClientConfig> = {
-			baseUrl: config.baseUrl ?? 'https://www.zefix.admin.ch/ZefixPublicREST',
+		this.rateLimiter = createRateLimiter(config);
+		this.cache = config.cache
+			? new ResponseCache(config.cache, async () => {
+					const baseUrl = this.client.getConfig().baseUrl ?? DEFAULT_BASE_URL;
+					const request = new Request(`${baseUrl.replace(/\/$/, '')}/api/v1/`);
+					return getRequestScope(this.prepareRequest(request));
+				})
+			: undefined;
+		this.language = config.language ?? 'de';
+
+		const clientConfig: GeneratedClientConfig = {
+			baseUrl: config.baseUrl ?? DEFAULT_BASE_URL,
+			// Always set, so copying this config onto another client resets a
+			// previously configured custom fetch.
+			fetch: this.createFetch(),
 		};
-		if (config.customFetch) {
-			clientConfig.fetch = config.customFetch;
-		}
 
-		client.setConfig(clientConfig);
-
-		client.interceptors.request.use(async (req: Request) => {
-			const headers = new Headers(req.headers);
-
-			if (this.config.auth?.username && this.config.auth?.password) {
-				const credentials = toBase64(
-					`${this.config.auth.username}:${this.config.auth.password}`,
-				);
-				headers.set('Authorization', `Basic ${credentials}`);
-			}
-
-			if (
-				this.config.throttle?.minIntervalMs &&
-				this.config.throttle.minIntervalMs > 0
-			) {
-				const now = Date.now();
-				const timeSinceLastRequest = now - this.lastRequestTime;
-				const minInterval = this.config.throttle.minIntervalMs;
-				if (timeSinceLastRequest < minInterval) {
-					await new Promise<void>((resolve) => {
-						setTimeout(resolve, minInterval - timeSinceLastRequest);
-					});
-				}
-
-				this.lastRequestTime = Date.now();
-			}
-
-			return new Request(req, {headers});
-		});
+		this.client = createClient(createConfig(clientConfig));
+		this.client.interceptors.request.use(this.prepareRequest);
+	}
+
+	public getRegistryByBfsCommunityId = bindSdk(
+		getRegistryByBfsCommunityIdSdk,
+		() => this.client,
+	);
+
+	public getRegistriesOfCommerce = bindSdk(
+		getRegistriesOfCommerceSdk,
+		() => this.client,
+	);
+
+	public getCommunities = bindSdk(getCommunitiesSdk, () => this.client);
+	public getCompanyByChid = bindSdk(getCompanyByChidSdk, () => this.client);
+	public getCompanyByEhraid = bindSdk(getCompanyByEhraidSdk, () => this.client);
+
+	public getCompanyByUid = bindSdk(getCompanyByUidSdk, () => this.client);
+	public getLegalForms = bindSdk(getLegalFormsSdk, () => this.client);
+	public getSogcByDate = bindSdk(getSogcByDateSdk, () => this.client);
+	public getSogcPublications = bindSdk(
+		getSogcPublicationsSdk,
+		() => this.client,
+	);
+
+	public searchCompanies = bindSdk(searchCompaniesSdk, () => this.client);
+
+	/**
+	 * Search companies, transparently splitting the query into smaller slices
+	 * while Zefix answers RESULTLIST_TO_LARGE. See {@link searchAll}.
+	 */
+	public async searchAll(
+		query: CompanySearchQuery,
+		options?: SearchAllOptions,
+	): Promise<SearchAllResult> {
+		return searchAll(this, query, options);
+	}
+
+	/**
+	 * Look up the companies of many UIDs with bounded concurrency, one result
+	 * per input in input order. See {@link lookupMany}.
+	 */
+	public async lookupMany(
+		uids: readonly string[],
+		options?: LookupManyOptions,
+	): Promise<LookupResult[]> {
+		return lookupMany(this, uids, options);
 	}
 
-	public getRegistryByBfsCommunityId = getRegistryByBfsCommunityIdSdk;
-	public getCommunities = getCommunitiesSdk;
-	public getCompanyByChid = getCompanyByChidSdk;
-	public getCompanyByEhraid = getCompanyByEhraidSdk;
-	public getCompanyByUid = getCompanyByUidSdk;
-	public getLegalForms = getLegalFormsSdk;
-	public getSogcByDate = getSogcByDateSdk;
-	public getSogcPublications = getSogcPublicationsSdk;
-	public searchCompanies = searchCompaniesSdk;
+	/**
+	 * Iterate over the SOGC publications of a date range, day by day.
+	 * See {@link iterateSogc}.
+	 */
+	public iterateSogc(
+		options: IterateSogcOptions,
+	): AsyncGenerator<SogcPublicationAndCompanyShort, void, undefined> {
+		return iterateSogc(this, options);
+	}
+
+	/**
+	 * Pick the text of a multilingual value in the client's language, with
+	 * fallback. See {@link localize}.
+	 */
+	public localize(
+		value: DfieString | undefined,
+		options?: LocalizeOptions,
+	): string | undefined {
+		return localize(value, this.language, options);
+	}
+
+	/**
+	 * Replace every multilingual value in a response with its text in the
+	 * client's language. See {@link toLocalizedView}.
+	 */
+	public toLocalizedView<T>(
+		value: T,
+		options?: LocalizeOptions,
+	): LocalizedView<T> {
+		return toLocalizedView(value, this.language, options);
+	}
 
 	public setAuth(auth: Auth | undefined) {
 		this.config.auth = auth;
 	}
+
+	/**
+	 * Compose the fetch pipeline: custom fetch, wrapped by the rate limiter
+	 * (so every attempt takes a token), wrapped by the retry policy, wrapped
+	 * by the cache (so hits cost neither tokens nor attempts), wrapped by the
+	 * coalescer (so concurrent misses share one fetch). Transport failures
+	 * surface as `ZefixNetworkError` or `ZefixTimeoutError`.
+	 */
+	private createFetch(): typeof fetch {
+		let fetchImpl: typeof fetch =
+			this.config.customFetch ??
+			(async (input, init) => globalThis.fetch(input, init));
+		if (this.rateLimiter) {
+			fetchImpl = this.rateLimiter.wrap(fetchImpl);
+		}
+
+		if (this.config.retry) {
+			fetchImpl = withRetry(fetchImpl, this.config.retry);
+		}
+
+		const validateResponses = this.config.validateResponses ?? 'off';
+		if (validateResponses !== 'off') {
+			fetchImpl = withResponseValidation(fetchImpl, {
+				mode: validateResponses,
+				onInvalidResponse: this.config.onInvalidResponse,
+			});
+		}
+
+		if (this.cache) {
+			fetchImpl = this.cache.wrap(fetchImpl);
+		}
+
+		if (this.config.coalesce) {
+			fetchImpl = new RequestCoalescer(this.config.coalesce).wrap(fetchImpl);
+		}
+
+		return withNetworkErrors(fetchImpl);
+	}
+
+	/**
+	 * Request interceptor applying this instance's auth and recording the
+	 * request for error reporting.
+	 * Exposed so the generated singleton can delegate to the configured
+	 * instance without registering a new interceptor per configuration.
+	 */
+	public readonly prepareRequest = (
+		req: Request,
+		options?: {body?: unknown},
+	): Request => {
+		const headers = new Headers(req.headers);
+
+		if (this.config.auth?.username && this.config.auth?.password) {
+			const credentials = toBase64(
+				`${this.config.auth.username}:${this.config.auth.password}`,
+			);
+			headers.set('Authorization', `Basic ${credentials}`);
+		}
+
+		const request = new Request(req, {headers});
+		rememberRequest(request, options?.body);
+		return request;
+	};
+}
+
+function createRateLimiter(config: ClientConfig): RateLimiter | undefined {
+	if (config.rateLimit instanceof RateLimiter) {
+		return config.rateLimit;
+	}
+
+	if (config.rateLimit) {
+		return new RateLimiter(config.rateLimit);
+	}
+
+	const minIntervalMs = config.throttle?.minIntervalMs;
+	if (minIntervalMs && minIntervalMs > 0) {
+		return new RateLimiter({
+			capacity: 1,
+			refillPerSecond: 1000 / minIntervalMs,
+		});
+	}
+
+	return undefined;
 }
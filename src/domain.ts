@@ -0,0 +1,210 @@
+/**
+ * Normalized domain model of companies, with parsed dates, capital and status
+ */
+
+import type {CompanyFull, SogcPublication} from './generated/types.gen';
+import {normalizeUid, type UidCore} from './uid';
+
+/**
+ * ISO 4217 currency code. Zefix reports share capital mostly in CHF, a few
+ * companies in EUR, USD or GBP.
+ */
+export type CurrencyCode = 'CHF' | 'EUR' | 'USD' | 'GBP' | (string & {});
+
+export type Capital = {
+	/** Nominal share capital in units of `currency` */
+	amount: number;
+	currency: CurrencyCode;
+};
+
+/**
+ * Registration status, with the deletion date of deleted companies
+ */
+export type CompanyStatus =
+	| {code: 'ACTIVE'}
+	/** In liquidation or otherwise being deleted */
+	| {code: 'BEING_CANCELLED'}
+	| {code: 'CANCELLED'; deletionDate: Date | undefined}
+	/** Zefix sent no status */
+	| {code: 'UNKNOWN'};
+
+/**
+ * A SOGC publication with its dates parsed
+ */
+export type CompanySogcPublication = Omit<
+	SogcPublication,
+	'sogcDate' | 'registryOfCommerceJournalDate'
+> & {
+	sogcDate?: Date;
+	registryOfCommerceJournalDate?: Date;
+};
+
+/**
+ * A `CompanyFull` as produced by {@link toCompany}. Dates are `Date` values at
+ * midnight UTC; `capitalNominal` and `capitalCurrency` become `capital`, and
+ * `deletionDate` moves into `status`.
+ */
+export type Company = Omit<
+	CompanyFull,
+	| 'uid'
+	| 'status'
+	| 'sogcDate'
+	| 'deletionDate'
+	| 'sogcPub'
+	| 'capitalNominal'
+	| 'capitalCurrency'
+> & {
+	/** Missing if Zefix sent no UID or one that does not normalize */
+	uid?: UidCore;
+	status: CompanyStatus;
+	/** Date of the last SOGC publication */
+	sogcDate?: Date;
+	sogcPub?: CompanySogcPublication[];
+	capital?: Capital;
+};
+
+/**
+ * Parse a `YYYY-MM-DD` date as midnight UTC
+ *
+ * @returns The date, or undefined if the input is missing or not a valid
+ * calendar date
+ */
+export function parseIsoDate(value: string | undefined): Date | undefined {
+	const match = value && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+	if (!match) return undefined;
+
+	const date = new Date(`${match[0]}T00:00:00.000Z`);
+	return Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(match[3])
+		? undefined
+		: date;
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in UTC, the inverse of {@link parseIsoDate}
+ */
+export function formatIsoDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse Zefix's nominal capital, e.g. `100000`, `100000.00` or `1'000'000`
+ *
+ * @returns The capital, or undefined if the amount or currency is missing or
+ * invalid
+ */
+export function parseCapital(
+	nominal: string | undefined,
+	currency: string | undefined,
+): Capital | undefined {
+	const amount = Number(nominal?.replaceAll(/['’\s]/g, '') || Number.NaN);
+	const code = currency?.trim().toUpperCase();
+	return Number.isFinite(amount) && code && /^[A-Z]{3}$/.test(code)
+		? {amount, currency: code}
+		: undefined;
+}
+
+/**
+ * Convert a `CompanyFull` response into the domain model. Like the response,
+ * the result may lack any field except `status`, so whole response arrays can
+ * be mapped.
+ *
+ * @example
+ * ```typescript
+ * const [raw] = await ensureOk(zefix.getCompanyByUid({path: {id}}));
+ * const company = toCompany(raw);
+ * if (company.status.code === 'CANCELLED') {
+ *   console.log('Deleted on', company.status.deletionDate);
+ * }
+ * company.capital?.amount; // 100000
+ * ```
+ */
+export function toCompany(company: CompanyFull): Company {
+	const {
+		uid,
+		status,
+		sogcDate,
+		deletionDate,
+		sogcPub,
+		capitalNominal,
+		capitalCurrency,
+		...rest
+	} = company;
+	return omitUndefined({
+		...rest,
+		uid: uid === undefined ? undefined : normalizeUid(uid),
+		status: toCompanyStatus(status, parseIsoDate(deletionDate)),
+		sogcDate: parseIsoDate(sogcDate),
+		sogcPub: sogcPub?.map((publication) =>
+			toCompanySogcPublication(publication),
+		),
+		capital: parseCapital(capitalNominal, capitalCurrency),
+	});
+}
+
+/**
+ * Convert a domain company back into the Zefix wire format, e.g. to store it
+ * as JSON. Capital amounts lose formatting such as trailing zeros.
+ */
+export function fromCompany(company: Company): CompanyFull {
+	const {uid, status, sogcDate, sogcPub, capital, ...rest} = company;
+	return omitUndefined({
+		...rest,
+		uid: uid && `CHE${uid}`,
+		status: status.code === 'UNKNOWN' ? undefined : status.code,
+		sogcDate: sogcDate && formatIsoDate(sogcDate),
+		deletionDate:
+			status.code === 'CANCELLED' && status.deletionDate
+				? formatIsoDate(status.deletionDate)
+				: undefined,
+		sogcPub: sogcPub?.map((publication) =>
+			fromCompanySogcPublication(publication),
+		),
+		capitalNominal: capital && String(capital.amount),
+		capitalCurrency: capital?.currency,
+	});
+}
+
+function toCompanyStatus(
+	status: CompanyFull['status'],
+	deletionDate: Date | undefined,
+): CompanyStatus {
+	if (status === 'CANCELLED' || (status === undefined && deletionDate)) {
+		return {code: 'CANCELLED', deletionDate};
+	}
+
+	return {code: status ?? 'UNKNOWN'};
+}
+
+function toCompanySogcPublication(
+	publication: SogcPublication,
+): CompanySogcPublication {
+	return omitUndefined({
+		...publication,
+		sogcDate: parseIsoDate(publication.sogcDate),
+		registryOfCommerceJournalDate: parseIsoDate(
+			publication.registryOfCommerceJournalDate,
+		),
+	});
+}
+
+function fromCompanySogcPublication(
+	publication: CompanySogcPublication,
+): SogcPublication {
+	const {sogcDate, registryOfCommerceJournalDate} = publication;
+	return omitUndefined({
+		...publication,
+		sogcDate: sogcDate && formatIsoDate(sogcDate),
+		registryOfCommerceJournalDate:
+			registryOfCommerceJournalDate &&
+			formatIsoDate(registryOfCommerceJournalDate),
+	});
+}
+
+/**
+ * Drop keys set to undefined, so mapped objects compare equal to the input
+ */
+function omitUndefined<T extends Record<string, unknown>>(value: T): T {
+	return Object.fromEntries(
+		Object.entries(value).filter(([, nested]) => nested !== undefined),
+	) as T;
+}
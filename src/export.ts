@@ -0,0 +1,319 @@
+/**
+ * Streaming CSV, NDJSON and JSON export of companies and SOGC publications
+ */
+
+import type {
+	CompanyFull,
+	CompanyShort,
+	SogcPublicationAndCompanyShort,
+} from './generated/types.gen';
+import {localize} from './utils/localize';
+import type {ZefixLanguage} from './utils/type-guards';
+
+export type ColumnContext = {
+	/** Language substituted for `{lang}` in column paths */
+	lang: ZefixLanguage;
+};
+
+/**
+ * Flattened output columns: the key is the column header, the value either
+ * a dot path into the record (`address.city`, `legalForm.shortName.{lang}`)
+ * or a function computing the cell
+ */
+export type ColumnMap<T> = Record<
+	string,
+	string | ((row: T, context: ColumnContext) => unknown)
+>;
+
+export type CsvOptions<T> = {
+	columns: ColumnMap<T>;
+	/**
+	 * Field separator, e.g. `;` for spreadsheets in Swiss locales
+	 * @default ','
+	 */
+	delimiter?: string;
+	/**
+	 * Start with a row of column headers
+	 * @default true
+	 */
+	header?: boolean;
+	/**
+	 * Line terminator; RFC 4180 prescribes CRLF
+	 * @default '\r\n'
+	 */
+	newline?: '\r\n' | '\n';
+	/**
+	 * Prepend a UTF-8 byte order mark, so spreadsheet applications detect the encoding
+	 * @default false
+	 */
+	bom?: boolean;
+	/** @default 'de' */
+	lang?: ZefixLanguage;
+};
+
+export type NdjsonOptions<T> = {
+	/**
+	 * Flatten every record through these columns; full records when omitted
+	 */
+	columns?: ColumnMap<T>;
+	/** @default 'de' */
+	lang?: ZefixLanguage;
+};
+
+/**
+ * Rows to export: an array, or an async source such as
+ * `zefix.iterateSogc(...)` that is consumed as the output is read
+ */
+export type ExportSource<T> = Iterable<T> | AsyncIterable<T>;
+
+const companyShortColumns = {
+	uid: 'uid',
+	name: 'name',
+	ehraid: 'ehraid',
+	chid: 'chid',
+	legalFormId: 'legalForm.id',
+	legalFormUid: 'legalForm.uid',
+	legalForm: (company, {lang}) => localize(company.legalForm?.shortName, lang),
+	legalSeat: 'legalSeat',
+	legalSeatId: 'legalSeatId',
+	registryOfCommerceId: 'registryOfCommerceId',
+	status: 'status',
+	sogcDate: 'sogcDate',
+	deletionDate: 'deletionDate',
+} satisfies ColumnMap<CompanyShort>;
+
+/**
+ * Default columns for `CompanyShort` records, e.g. search results
+ */
+export const COMPANY_SHORT_COLUMNS: ColumnMap<CompanyShort> =
+	companyShortColumns;
+
+/**
+ * Default columns for `CompanyFull` records, with the address flattened and
+ * related companies counted
+ */
+export const COMPANY_FULL_COLUMNS: ColumnMap<CompanyFull> = {
+	...companyShortColumns,
+	canton: 'canton',
+	purpose: 'purpose',
+	capitalNominal: 'capitalNominal',
+	capitalCurrency: 'capitalCurrency',
+	addressOrganisation: 'address.organisation',
+	addressCareOf: 'address.careOf',
+	addressStreet: 'address.street',
+	addressHouseNumber: 'address.houseNumber',
+	addressAddon: 'address.addon',
+	addressPoBox: 'address.poBox',
+	addressZipCode: 'address.swissZipCode',
+	addressCity: 'address.city',
+	headOffices: (company) => company.headOffices?.length ?? 0,
+	branchOffices: (company) => company.branchOffices?.length ?? 0,
+	auditCompanies: (company) =>
+		company.auditCompanies?.map((auditor) => auditor.name).join('; '),
+	oldNames: (company) =>
+		company.oldNames?.map((oldName) => oldName.name).join('; '),
+	cantonalExcerptWeb: 'cantonalExcerptWeb',
+	zefixDetailWeb: 'zefixDetailWeb.{lang}',
+};
+
+/**
+ * Default columns for SOGC publications with their company
+ */
+export const SOGC_PUBLICATION_COLUMNS: ColumnMap<SogcPublicationAndCompanyShort> =
+	{
+		sogcId: 'sogcPublication.sogcId',
+		sogcDate: 'sogcPublication.sogcDate',
+		registryOfCommerceId: 'sogcPublication.registryOfCommerceId',
+		registryOfCommerceCanton: 'sogcPublication.registryOfCommerceCanton',
+		journalId: 'sogcPublication.registryOfCommerceJournalId',
+		journalDate: 'sogcPublication.registryOfCommerceJournalDate',
+		mutationTypes: (item) =>
+			item.sogcPublication?.mutationTypes
+				?.map((mutation) => mutation.key)
+				.join('; '),
+		message: 'sogcPublication.message',
+		uid: 'companyShort.uid',
+		name: 'companyShort.name',
+		ehraid: 'companyShort.ehraid',
+		legalForm: (item, {lang}) =>
+			localize(item.companyShort?.legalForm?.shortName, lang),
+		legalSeat: 'companyShort.legalSeat',
+		status: 'companyShort.status',
+	};
+
+/**
+ * Keep the given columns of a map, in the given order
+ *
+ * @example
+ * ```typescript
+ * const columns = pickColumns(COMPANY_FULL_COLUMNS, ['uid', 'name', 'addressCity']);
+ * ```
+ */
+export function pickColumns<T>(
+	columns: ColumnMap<T>,
+	keys: string[],
+): ColumnMap<T> {
+	return Object.fromEntries(
+		keys.map((key) => {
+			if (!(key in columns)) throw new RangeError(`Unknown column: ${key}`);
+			return [key, columns[key]];
+		}),
+	);
+}
+
+/**
+ * Flatten a record into an object with one property per column
+ */
+export function flattenRow<T>(
+	row: T,
+	columns: ColumnMap<T>,
+	lang: ZefixLanguage = 'de',
+): Record<string, unknown> {
+	return toRecord(row, compileColumns(columns, {lang}));
+}
+
+/**
+ * Serialize rows as RFC 4180 CSV, one chunk per line
+ *
+ * @example
+ * ```typescript
+ * const csv = toCsv(companies, {columns: COMPANY_FULL_COLUMNS, delimiter: ';'});
+ * return new Response(toReadableStream(csv), {
+ *   headers: {'Content-Type': 'text/csv; charset=utf-8'},
+ * });
+ * ```
+ */
+export async function* toCsv<T>(
+	rows: ExportSource<T>,
+	options: CsvOptions<T>,
+): AsyncGenerator<string, void, undefined> {
+	const delimiter = options.delimiter ?? ',';
+	if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+		throw new RangeError(
+			`CSV delimiter must be a single character other than a quote or line break, got ${JSON.stringify(delimiter)}`,
+		);
+	}
+
+	const newline = options.newline ?? '\r\n';
+	const columns = compileColumns(options.columns, {lang: options.lang ?? 'de'});
+	const line = (cells: unknown[]) =>
+		cells.map((cell) => toCsvField(cell, delimiter)).join(delimiter) + newline;
+
+	if (options.bom) yield '\uFEFF';
+	if (options.header ?? true) {
+		yield line(columns.map(([header]) => header));
+	}
+
+	for await (const row of rows) {
+		yield line(columns.map(([, getValue]) => getValue(row)));
+	}
+}
+
+/**
+ * Serialize rows as newline-delimited JSON, one chunk per record
+ */
+export async function* toNdjson<T>(
+	rows: ExportSource<T>,
+	options: NdjsonOptions<T> = {},
+): AsyncGenerator<string, void, undefined> {
+	const columns =
+		options.columns &&
+		compileColumns(options.columns, {lang: options.lang ?? 'de'});
+	for await (const row of rows) {
+		const record = columns ? toRecord(row, columns) : row;
+		yield `${JSON.stringify(record)}\n`;
+	}
+}
+
+/**
+ * Serialize rows as a JSON array without holding the whole document in memory
+ */
+export async function* toJsonArray<T>(
+	rows: ExportSource<T>,
+	options: NdjsonOptions<T> = {},
+): AsyncGenerator<string, void, undefined> {
+	let separator = '[\n';
+	for await (const line of toNdjson(rows, options)) {
+		yield separator + line.slice(0, -1);
+		separator = ',\n';
+	}
+
+	yield separator === '[\n' ? '[]\n' : '\n]\n';
+}
+
+/**
+ * Encode text chunks as a UTF-8 byte stream, e.g. for a `Response` body
+ */
+export function toReadableStream(
+	chunks: AsyncIterable<string>,
+): ReadableStream<Uint8Array> {
+	const iterator = chunks[Symbol.asyncIterator]();
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const {done, value} = await iterator.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(encoder.encode(value));
+			}
+		},
+		async cancel() {
+			await iterator.return?.();
+		},
+	});
+}
+
+type CompiledColumn<T> = [header: string, getValue: (row: T) => unknown];
+
+function compileColumns<T>(
+	columns: ColumnMap<T>,
+	context: ColumnContext,
+): Array<CompiledColumn<T>> {
+	return Object.entries(columns).map(([header, column]) => {
+		if (typeof column === 'function') {
+			return [header, (row: T) => column(row, context)];
+		}
+
+		const keys = column.replaceAll('{lang}', context.lang).split('.');
+		return [header, (row: T) => getPath(row, keys)];
+	});
+}
+
+function toRecord<T>(
+	row: T,
+	columns: Array<CompiledColumn<T>>,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		columns.map(([header, getValue]) => [header, getValue(row)]),
+	);
+}
+
+function getPath(value: unknown, keys: string[]): unknown {
+	let current = value;
+	for (const key of keys) {
+		if (typeof current !== 'object' || current === null) return undefined;
+		current = (current as Record<string, unknown>)[key];
+	}
+
+	return current;
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break,
+ * doubling embedded quotes (RFC 4180)
+ */
+function toCsvField(value: unknown, delimiter: string): string {
+	let text: string;
+	if (value === undefined || value === null) {
+		text = '';
+	} else if (typeof value === 'object') {
+		text = JSON.stringify(value);
+	} else {
+		text = String(value as string | number | boolean);
+	}
+
+	return text.includes(delimiter) || /["\r\n]/.test(text)
+		? `"${text.replaceAll('"', '""')}"`
+		: text;
+}
@@ -0,0 +1,557 @@
+// This file is auto-generated by scripts/generate-validators.mjs
+
+import type { SchemaNode, Validator } from '../utils/validation';
+import { createValidator } from '../utils/validation';
+import type { ZefixEndpoint } from '../utils/request-key';
+import type { Address, BfsCommunity, CompanyFull, CompanyOldName, CompanySearchQuery, CompanyShort, DfieString, ErrorDetails, LegalForm, MutationType, RegistryOfCommerce, RestApiErrorResponse, SogcPublication, SogcPublicationAndCompanyShort } from './types.gen';
+
+export type SchemaName = 'Address' | 'BfsCommunity' | 'CompanyFull' | 'CompanyOldName' | 'CompanySearchQuery' | 'CompanyShort' | 'DfieString' | 'ErrorDetails' | 'LegalForm' | 'MutationType' | 'RegistryOfCommerce' | 'RestApiErrorResponse' | 'SogcPublication' | 'SogcPublicationAndCompanyShort';
+
+/**
+ * Schemas of the OpenAPI spec, reduced to what validation needs
+ */
+export const schemas: Record<SchemaName, SchemaNode> = {
+  "ErrorDetails": {
+    "type": "object",
+    "properties": {
+      "type": {
+        "type": "string",
+        "enum": [
+          "INTERNAL_SERVER_ERROR",
+          "INVALID_QUERY_WORDS",
+          "INVALID_REQUEST_DATA",
+          "RESULTLIST_TO_LARGE",
+          "NOT_FOUND"
+        ]
+      },
+      "message": {
+        "type": "string"
+      }
+    }
+  },
+  "RestApiErrorResponse": {
+    "type": "object",
+    "properties": {
+      "error": {
+        "ref": "ErrorDetails"
+      }
+    }
+  },
+  "CompanySearchQuery": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string",
+        "minLength": 3
+      },
+      "legalFormId": {
+        "type": "integer",
+        "minimum": 1,
+        "maximum": 999
+      },
+      "legalFormUid": {
+        "type": "string",
+        "minLength": 4,
+        "maxLength": 4
+      },
+      "registryOfCommerceId": {
+        "type": "integer"
+      },
+      "legalSeatId": {
+        "type": "integer"
+      },
+      "canton": {
+        "type": "string"
+      },
+      "activeOnly": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "name"
+    ]
+  },
+  "CompanyShort": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "ehraid": {
+        "type": "integer"
+      },
+      "uid": {
+        "type": "string"
+      },
+      "chid": {
+        "type": "string"
+      },
+      "legalSeatId": {
+        "type": "integer"
+      },
+      "legalSeat": {
+        "type": "string"
+      },
+      "registryOfCommerceId": {
+        "type": "integer"
+      },
+      "legalForm": {
+        "ref": "LegalForm"
+      },
+      "status": {
+        "type": "string",
+        "enum": [
+          "ACTIVE",
+          "CANCELLED",
+          "BEING_CANCELLED"
+        ]
+      },
+      "sogcDate": {
+        "type": "string",
+        "format": "date"
+      },
+      "deletionDate": {
+        "type": "string",
+        "format": "date"
+      }
+    }
+  },
+  "DfieString": {
+    "type": "object",
+    "properties": {
+      "de": {
+        "type": "string"
+      },
+      "fr": {
+        "type": "string"
+      },
+      "it": {
+        "type": "string"
+      },
+      "en": {
+        "type": "string"
+      }
+    }
+  },
+  "LegalForm": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "uid": {
+        "type": "string"
+      },
+      "name": {
+        "ref": "DfieString"
+      },
+      "shortName": {
+        "ref": "DfieString"
+      }
+    }
+  },
+  "MutationType": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "key": {
+        "type": "string"
+      }
+    }
+  },
+  "SogcPublication": {
+    "type": "object",
+    "properties": {
+      "sogcDate": {
+        "type": "string",
+        "format": "date"
+      },
+      "sogcId": {
+        "type": "integer"
+      },
+      "registryOfCommerceId": {
+        "type": "integer"
+      },
+      "registryOfCommerceCanton": {
+        "type": "string"
+      },
+      "registryOfCommerceJournalId": {
+        "type": "integer"
+      },
+      "registryOfCommerceJournalDate": {
+        "type": "string",
+        "format": "date"
+      },
+      "message": {
+        "type": "string"
+      },
+      "mutationTypes": {
+        "type": "array",
+        "items": {
+          "ref": "MutationType"
+        }
+      }
+    }
+  },
+  "SogcPublicationAndCompanyShort": {
+    "type": "object",
+    "properties": {
+      "sogcPublication": {
+        "ref": "SogcPublication"
+      },
+      "companyShort": {
+        "ref": "CompanyShort"
+      }
+    }
+  },
+  "RegistryOfCommerce": {
+    "type": "object",
+    "properties": {
+      "registryOfCommerceId": {
+        "type": "integer"
+      },
+      "canton": {
+        "type": "string"
+      },
+      "address1": {
+        "type": "string"
+      },
+      "address2": {
+        "type": "string"
+      },
+      "address3": {
+        "type": "string"
+      },
+      "address4": {
+        "type": "string"
+      },
+      "homepage": {
+        "type": "string"
+      },
+      "url2": {
+        "type": "string"
+      },
+      "url3": {
+        "type": "string"
+      },
+      "url4": {
+        "type": "string"
+      },
+      "url5": {
+        "type": "string"
+      }
+    }
+  },
+  "Address": {
+    "type": "object",
+    "properties": {
+      "organisation": {
+        "type": "string"
+      },
+      "careOf": {
+        "type": "string"
+      },
+      "street": {
+        "type": "string"
+      },
+      "houseNumber": {
+        "type": "string"
+      },
+      "addon": {
+        "type": "string"
+      },
+      "poBox": {
+        "type": "string"
+      },
+      "city": {
+        "type": "string"
+      },
+      "swissZipCode": {
+        "type": "string"
+      }
+    }
+  },
+  "CompanyFull": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "ehraid": {
+        "type": "integer"
+      },
+      "uid": {
+        "type": "string"
+      },
+      "chid": {
+        "type": "string"
+      },
+      "legalSeatId": {
+        "type": "integer"
+      },
+      "legalSeat": {
+        "type": "string"
+      },
+      "registryOfCommerceId": {
+        "type": "integer"
+      },
+      "legalForm": {
+        "ref": "LegalForm"
+      },
+      "status": {
+        "type": "string",
+        "enum": [
+          "ACTIVE",
+          "CANCELLED",
+          "BEING_CANCELLED"
+        ]
+      },
+      "sogcDate": {
+        "type": "string",
+        "format": "date"
+      },
+      "deletionDate": {
+        "type": "string",
+        "format": "date"
+      },
+      "translation": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "purpose": {
+        "type": "string"
+      },
+      "sogcPub": {
+        "type": "array",
+        "items": {
+          "ref": "SogcPublication"
+        }
+      },
+      "address": {
+        "ref": "Address"
+      },
+      "canton": {
+        "type": "string"
+      },
+      "capitalNominal": {
+        "type": "string"
+      },
+      "capitalCurrency": {
+        "type": "string"
+      },
+      "headOffices": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "furtherHeadOffices": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "branchOffices": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "hasTakenOver": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "wasTakenOverBy": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "auditCompanies": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyShort"
+        }
+      },
+      "oldNames": {
+        "type": "array",
+        "items": {
+          "ref": "CompanyOldName"
+        }
+      },
+      "cantonalExcerptWeb": {
+        "type": "string"
+      },
+      "zefixDetailWeb": {
+        "ref": "DfieString"
+      }
+    }
+  },
+  "CompanyOldName": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "sequenceNr": {
+        "type": "integer"
+      },
+      "translation": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    }
+  },
+  "BfsCommunity": {
+    "type": "object",
+    "properties": {
+      "bfsId": {
+        "type": "integer"
+      },
+      "canton": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      },
+      "registryOfCommerceId": {
+        "type": "integer"
+      }
+    }
+  }
+};
+
+/**
+ * Schema of the successful (200) response of every endpoint
+ */
+export const responseSchemas: Record<ZefixEndpoint, SchemaNode> = {
+  "company/search": {
+    "type": "array",
+    "items": {
+      "ref": "CompanyShort"
+    }
+  },
+  "sogc": {
+    "ref": "SogcPublicationAndCompanyShort"
+  },
+  "sogc/bydate": {
+    "type": "array",
+    "items": {
+      "ref": "SogcPublicationAndCompanyShort"
+    }
+  },
+  "registryOfCommerce": {
+    "type": "array",
+    "items": {
+      "ref": "RegistryOfCommerce"
+    }
+  },
+  "registryOfCommerce/byBfsCommunityId": {
+    "ref": "RegistryOfCommerce"
+  },
+  "legalForm": {
+    "type": "array",
+    "items": {
+      "ref": "LegalForm"
+    }
+  },
+  "company/uid": {
+    "type": "array",
+    "items": {
+      "ref": "CompanyFull"
+    }
+  },
+  "company/ehraid": {
+    "ref": "CompanyFull"
+  },
+  "company/chid": {
+    "type": "array",
+    "items": {
+      "ref": "CompanyFull"
+    }
+  },
+  "community": {
+    "type": "array",
+    "items": {
+      "ref": "BfsCommunity"
+    }
+  }
+};
+
+/**
+ * Validate a value against the `Address` schema
+ */
+export const validateAddress: Validator<Address> = createValidator({ ref: 'Address' }, schemas);
+
+/**
+ * Validate a value against the `BfsCommunity` schema
+ */
+export const validateBfsCommunity: Validator<BfsCommunity> = createValidator({ ref: 'BfsCommunity' }, schemas);
+
+/**
+ * Validate a value against the `CompanyFull` schema
+ */
+export const validateCompanyFull: Validator<CompanyFull> = createValidator({ ref: 'CompanyFull' }, schemas);
+
+/**
+ * Validate a value against the `CompanyOldName` schema
+ */
+export const validateCompanyOldName: Validator<CompanyOldName> = createValidator({ ref: 'CompanyOldName' }, schemas);
+
+/**
+ * Validate a value against the `CompanySearchQuery` schema
+ */
+export const validateCompanySearchQuery: Validator<CompanySearchQuery> = createValidator({ ref: 'CompanySearchQuery' }, schemas);
+
+/**
+ * Validate a value against the `CompanyShort` schema
+ */
+export const validateCompanyShort: Validator<CompanyShort> = createValidator({ ref: 'CompanyShort' }, schemas);
+
+/**
+ * Validate a value against the `DfieString` schema
+ */
+export const validateDfieString: Validator<DfieString> = createValidator({ ref: 'DfieString' }, schemas);
+
+/**
+ * Validate a value against the `ErrorDetails` schema
+ */
+export const validateErrorDetails: Validator<ErrorDetails> = createValidator({ ref: 'ErrorDetails' }, schemas);
+
+/**
+ * Validate a value against the `LegalForm` schema
+ */
+export const validateLegalForm: Validator<LegalForm> = createValidator({ ref: 'LegalForm' }, schemas);
+
+/**
+ * Validate a value against the `MutationType` schema
+ */
+export const validateMutationType: Validator<MutationType> = createValidator({ ref: 'MutationType' }, schemas);
+
+/**
+ * Validate a value against the `RegistryOfCommerce` schema
+ */
+export const validateRegistryOfCommerce: Validator<RegistryOfCommerce> = createValidator({ ref: 'RegistryOfCommerce' }, schemas);
+
+/**
+ * Validate a value against the `RestApiErrorResponse` schema
+ */
+export const validateRestApiErrorResponse: Validator<RestApiErrorResponse> = createValidator({ ref: 'RestApiErrorResponse' }, schemas);
+
+/**
+ * Validate a value against the `SogcPublication` schema
+ */
+export const validateSogcPublication: Validator<SogcPublication> = createValidator({ ref: 'SogcPublication' }, schemas);
+
+/**
+ * Validate a value against the `SogcPublicationAndCompanyShort` schema
+ */
+export const validateSogcPublicationAndCompanyShort: Validator<SogcPublicationAndCompanyShort> = createValidator({ ref: 'SogcPublicationAndCompanyShort' }, schemas);
@@ -1,6 +1,45 @@
 import {ZefixApiClient, type ClientConfig} from './client';
+import {client} from './generated/client.gen';
 
 export {ZefixApiClient} from './client';
+export {
+	buildCantonalExcerptUrl,
+	fillExcerptUrlTemplate,
+	RegistryOfCommerceCatalog,
+} from './registry';
+export {diffReferenceData, ReferenceData} from './reference-data';
+export {
+	COMPANY_FULL_COLUMNS,
+	COMPANY_SHORT_COLUMNS,
+	flattenRow,
+	pickColumns,
+	SOGC_PUBLICATION_COLUMNS,
+	toCsv,
+	toJsonArray,
+	toNdjson,
+	toReadableStream,
+} from './export';
+export {diffSpecs, formatSpecDiff} from './spec-diff';
+export {parseSogcMessage} from './sogc-message';
+export type {SafeHtmlOptions} from './sogc-render';
+export {
+	SAFE_HTML_TAGS,
+	toMarkdown,
+	toPlainText,
+	toSafeHtml,
+} from './sogc-render';
+export {
+	buildCompanyTimeline,
+	classifyMutationType,
+	MUTATION_EVENT_PATTERNS,
+} from './timeline';
+export {
+	formatIsoDate,
+	fromCompany,
+	parseCapital,
+	parseIsoDate,
+	toCompany,
+} from './domain';
 
 // Generated client and SDK exports
 export {client} from './generated/client.gen';
@@ -11,27 +50,180 @@ export {
 	showUid as getCompanyByUid,
 	list1 as getLegalForms,
 	byBfsCommunityId as getRegistryByBfsCommunityId,
+	list as getRegistriesOfCommerce,
 	byDate as getSogcByDate,
 	get as getSogcPublications,
 	search as searchCompanies,
 } from './generated/sdk.gen';
 
 // Utility exports
-export {ensureOk, ZefixError} from './utils/errors';
+export {
+	ensureOk,
+	ZefixAuthenticationError,
+	ZefixError,
+	ZefixInvalidQueryWordsError,
+	ZefixInvalidRequestDataError,
+	ZefixNetworkError,
+	ZefixNotFoundError,
+	ZefixRateLimitError,
+	ZefixResponseValidationError,
+	ZefixResultListTooLargeError,
+	ZefixServerError,
+	ZefixTimeoutError,
+} from './utils/errors';
+export {
+	CACHE_STATUS_HEADER,
+	CacheApiStore,
+	DEFAULT_CACHE_TTL_MS,
+	KvCacheStore,
+	LruCacheStore,
+	ResponseCache,
+} from './utils/cache';
+export {RequestCoalescer} from './utils/coalesce';
+export {
+	computeUidCheckDigit,
+	formatUid,
+	isValidUid,
+	isValidUidFormat,
+	normalizeUid,
+	parseUid,
+	uidEquals,
+} from './uid';
+export {
+	getLanguageFallbackChain,
+	isDfieString,
+	localize,
+	toLocalizedView,
+} from './utils/localize';
 export {toBase64} from './utils/node-or-worker';
+export {
+	validateAddress,
+	validateBfsCommunity,
+	validateCompanyFull,
+	validateCompanyOldName,
+	validateCompanySearchQuery,
+	validateCompanyShort,
+	validateDfieString,
+	validateErrorDetails,
+	validateLegalForm,
+	validateMutationType,
+	validateRegistryOfCommerce,
+	validateRestApiErrorResponse,
+	validateSogcPublication,
+	validateSogcPublicationAndCompanyShort,
+} from './generated/validators.gen';
+export {formatValidationIssues} from './utils/validation';
+export {
+	InMemoryRateLimitStore,
+	RateLimiter,
+	takeToken,
+} from './utils/rate-limiter';
 export * from './utils/type-guards';
 
 export type {Auth, ClientConfig} from './client';
+export type {
+	ColumnContext,
+	ColumnMap,
+	CsvOptions,
+	ExportSource,
+	NdjsonOptions,
+} from './export';
+export type {
+	Capital,
+	Company,
+	CompanySogcPublication,
+	CompanyStatus,
+	CurrencyCode,
+} from './domain';
+export type {ExcerptUrlCompany, RegistryOfCommerceEntry} from './registry';
+export type {CompanyEvent, CompanyEventKind} from './timeline';
+export type {
+	ReferenceDataDiff,
+	ReferenceDataKind,
+	ReferenceDataListDiff,
+	ReferenceDataOptions,
+	ReferenceDataSnapshot,
+	ReferenceDataStatus,
+	RefreshReferenceDataOptions,
+} from './reference-data';
+export type {
+	OpenApiSchema,
+	OpenApiSpec,
+	SpecChange,
+	SpecChangeKind,
+	SpecDiff,
+} from './spec-diff';
+export type {
+	SearchAllOptions,
+	SearchAllResult,
+	SearchPartition,
+	SearchPartitionDimension,
+} from './search-all';
+export type {
+	LookupManyOptions,
+	LookupProgress,
+	LookupResult,
+} from './lookup-many';
+export type {IterateSogcOptions, SogcDate, SogcDayProgress} from './sogc';
+export type {
+	ParsedSogcMessage,
+	SigningAuthority,
+	SogcFieldKind,
+	SogcMessageField,
+	SogcPerson,
+} from './sogc-message';
+export type {
+	CacheApiLike,
+	CacheEntry,
+	CacheOptions,
+	CacheStore,
+	KvNamespaceLike,
+} from './utils/cache';
+export type {CoalesceHit, CoalesceOptions} from './utils/coalesce';
+export type {UidCore, UidParseError, UidParseResult} from './uid';
+export type {LocalizedView, LocalizeOptions} from './utils/localize';
+export type {ZefixEndpoint} from './utils/request-key';
+export type {
+	RateLimitOptions,
+	RateLimitStore,
+	TokenBucketOptions,
+	TokenBucketState,
+} from './utils/rate-limiter';
+export type {RetryAttempt, RetryOptions} from './utils/retry';
+export type {ValidateResponsesMode} from './utils/response-validation';
+export type {
+	ValidationIssue,
+	ValidationResult,
+	Validator,
+} from './utils/validation';
+export type {ZefixErrorOptions, ZefixRequestInfo} from './utils/errors';
 export type * from './generated/types.gen';
 
 let globalClient: ZefixApiClient | undefined;
+let globalInterceptorInstalled = false;
 
+/**
+ * Configure the shared client used by the standalone SDK functions
+ * (`searchCompanies`, `getCompanyByUid`, ...).
+ *
+ * The generated singleton gets a single interceptor that delegates to the
+ * most recently configured instance, so calling this on every request does
+ * not accumulate interceptors.
+ */
 export function configureClient(config: ClientConfig = {}): ZefixApiClient {
 	globalClient = new ZefixApiClient(config);
+	client.setConfig(globalClient.client.getConfig());
+
+	if (!globalInterceptorInstalled) {
+		client.interceptors.request.use(async (req, options) =>
+			globalClient ? globalClient.prepareRequest(req, options) : req,
+		);
+		globalInterceptorInstalled = true;
+	}
+
 	return globalClient;
 }
 
 export function getClient(): ZefixApiClient {
-	globalClient ||= new ZefixApiClient();
-	return globalClient;
+	return globalClient ?? configureClient();
 }
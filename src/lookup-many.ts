@@ -0,0 +1,149 @@
+/**
+ * Bulk company lookup by UID
+ */
+
+import type {ZefixApiClient} from './client';
+import type {CompanyFull} from './generated/types.gen';
+import {normalizeUid, parseUid, type UidCore, type UidParseError} from './uid';
+import {ensureOk, ZefixNotFoundError} from './utils/errors';
+
+/**
+ * Outcome of the lookup of one input, which is always echoed back as `input`
+ */
+export type LookupResult =
+	| {status: 'found'; input: string; uid: UidCore; companies: CompanyFull[]}
+	| {status: 'not-found'; input: string; uid: UidCore}
+	| {status: 'invalid'; input: string; reason: UidParseError}
+	| {status: 'error'; input: string; uid: UidCore; error: unknown};
+
+export type LookupProgress = {
+	/** Distinct UIDs looked up so far */
+	completed: number;
+	/** Distinct valid UIDs to look up */
+	total: number;
+	/** Result of the UID that just completed, for its first input */
+	result: LookupResult;
+};
+
+export type LookupManyOptions = {
+	/**
+	 * Maximum number of lookups in flight. The client's rate limiter still
+	 * applies on top.
+	 * @default 4
+	 */
+	concurrency?: number;
+	/**
+	 * Stops starting new lookups and cancels the pending ones; the call then
+	 * rejects with the abort reason
+	 */
+	signal?: AbortSignal;
+	onProgress?: (progress: LookupProgress) => void;
+};
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Look up companies for many UIDs. Inputs are normalized with
+ * `normalizeUid` and deduplicated, so each company is requested once.
+ * Failures of single lookups are reported per input instead of rejecting,
+ * and results are in input order.
+ *
+ * @example
+ * ```typescript
+ * const results = await lookupMany(zefix, supplierUids, {
+ *   concurrency: 8,
+ *   onProgress: ({completed, total}) => console.log(`${completed}/${total}`),
+ * });
+ * for (const result of results) {
+ *   if (result.status === 'found') console.log(result.companies[0].name);
+ * }
+ * ```
+ *
+ * @throws {RangeError} if `concurrency` is not a positive integer
+ */
+export async function lookupMany(
+	zefix: ZefixApiClient,
+	uids: readonly string[],
+	options: LookupManyOptions = {},
+): Promise<LookupResult[]> {
+	const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new RangeError(
+			`lookupMany: 'concurrency' must be a positive integer, got ${concurrency}`,
+		);
+	}
+
+	options.signal?.throwIfAborted();
+
+	const parsed = uids.map((input) => parseInput(input));
+	const firstInputs = new Map<UidCore, string>();
+	for (const [index, result] of parsed.entries()) {
+		if (result.status === 'invalid' || firstInputs.has(result.uid)) continue;
+		firstInputs.set(result.uid, uids[index]);
+	}
+
+	const pending = [...firstInputs];
+	const results = new Map<UidCore, LookupResult>();
+	let next = 0;
+	const worker = async () => {
+		while (next < pending.length && !options.signal?.aborted) {
+			const [uid, input] = pending[next++];
+			const result = await lookupUid(zefix, uid, input, options.signal);
+			results.set(uid, result);
+			options.onProgress?.({
+				completed: results.size,
+				total: pending.length,
+				result,
+			});
+		}
+	};
+
+	await Promise.all(
+		Array.from({length: Math.min(concurrency, pending.length)}, worker),
+	);
+	options.signal?.throwIfAborted();
+
+	return parsed.map((result, index) =>
+		result.status === 'invalid'
+			? result
+			: {...results.get(result.uid)!, input: uids[index]},
+	);
+}
+
+function parseInput(
+	input: string,
+):
+	| Extract<LookupResult, {status: 'invalid'}>
+	| {status: 'valid'; uid: UidCore} {
+	const uid = normalizeUid(input);
+	const check = parseUid(uid ? `CHE${uid}` : input);
+	if (!uid || !check.ok) {
+		return {
+			status: 'invalid',
+			input,
+			reason: check.ok ? 'INVALID_LENGTH' : check.error,
+		};
+	}
+
+	return {status: 'valid', uid};
+}
+
+async function lookupUid(
+	zefix: ZefixApiClient,
+	uid: UidCore,
+	input: string,
+	signal: AbortSignal | undefined,
+): Promise<LookupResult> {
+	try {
+		const companies = await ensureOk(
+			zefix.getCompanyByUid({path: {id: `CHE${uid}`}, signal}),
+		);
+		return companies.length > 0
+			? {status: 'found', input, uid, companies}
+			: {status: 'not-found', input, uid};
+	} catch (error) {
+		return error instanceof ZefixNotFoundError
+			? {status: 'not-found', input, uid}
+			: {status: 'error', input, uid, error};
+	}
+}
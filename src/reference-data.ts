@@ -0,0 +1,270 @@
+/**
+ * Legal forms, communities and registries served from a bundled snapshot,
+ * with optional refresh from the live endpoints
+ */
+
+import type {ZefixApiClient} from './client';
+import type {
+	BfsCommunity,
+	LegalForm,
+	RegistryOfCommerce,
+} from './generated/types.gen';
+import {RegistryOfCommerceCatalog} from './registry';
+import {ensureOk} from './utils/errors';
+import {stableStringify} from './utils/request-key';
+
+/**
+ * Reference data lists, e.g. fetched once from the live endpoints and stored
+ */
+export type ReferenceDataSnapshot = {
+	/** When the data was fetched from Zefix, as ISO timestamp */
+	generatedAt?: string;
+	legalForms: LegalForm[];
+	communities: BfsCommunity[];
+	registries: RegistryOfCommerce[];
+};
+
+export type ReferenceDataKind = 'legalForms' | 'communities' | 'registries';
+
+export type ReferenceDataStatus = {
+	/** Whether the list still comes from the snapshot or was refreshed */
+	source: 'snapshot' | 'live';
+	/** When the list was fetched from Zefix, as ISO timestamp */
+	updatedAt: string | undefined;
+};
+
+/**
+ * Changes of one list, matched by `id`, `bfsId` or `registryOfCommerceId`
+ */
+export type ReferenceDataListDiff<T> = {
+	added: T[];
+	removed: T[];
+	changed: Array<{before: T; after: T}>;
+};
+
+export type ReferenceDataDiff = {
+	hasChanges: boolean;
+	legalForms: ReferenceDataListDiff<LegalForm>;
+	communities: ReferenceDataListDiff<BfsCommunity>;
+	registries: ReferenceDataListDiff<RegistryOfCommerce>;
+};
+
+export type ReferenceDataOptions = {
+	snapshot: ReferenceDataSnapshot;
+	/** Client used by `refresh()` */
+	client?: ZefixApiClient;
+};
+
+export type RefreshReferenceDataOptions = {
+	/**
+	 * Lists to fetch
+	 * @default all three
+	 */
+	kinds?: ReferenceDataKind[];
+	signal?: AbortSignal;
+};
+
+const REFERENCE_DATA_KINDS: readonly ReferenceDataKind[] = [
+	'legalForms',
+	'communities',
+	'registries',
+];
+
+/**
+ * Compare two sets of reference data list by list
+ */
+export function diffReferenceData(
+	before: ReferenceDataSnapshot,
+	after: ReferenceDataSnapshot,
+): ReferenceDataDiff {
+	const legalForms = diffList(
+		before.legalForms,
+		after.legalForms,
+		(form) => form.id,
+	);
+	const communities = diffList(
+		before.communities,
+		after.communities,
+		(community) => community.bfsId,
+	);
+	const registries = diffList(
+		before.registries,
+		after.registries,
+		(registry) => registry.registryOfCommerceId,
+	);
+	const hasChanges = [legalForms, communities, registries].some(
+		(diff) => diff.added.length + diff.removed.length + diff.changed.length > 0,
+	);
+	return {hasChanges, legalForms, communities, registries};
+}
+
+function diffList<T>(
+	before: T[],
+	after: T[],
+	getId: (record: T) => number | undefined,
+): ReferenceDataListDiff<T> {
+	// Records without an ID can only be matched by their content
+	const key = (record: T) => String(getId(record) ?? stableStringify(record));
+	const previous = new Map(before.map((record) => [key(record), record]));
+	const diff: ReferenceDataListDiff<T> = {added: [], removed: [], changed: []};
+
+	for (const record of after) {
+		const id = key(record);
+		const old = previous.get(id);
+		if (old === undefined) {
+			diff.added.push(record);
+		} else if (stableStringify(old) !== stableStringify(record)) {
+			diff.changed.push({before: old, after: record});
+		}
+
+		previous.delete(id);
+	}
+
+	diff.removed.push(...previous.values());
+	return diff;
+}
+
+/**
+ * Reference data served from a snapshot, so lookups need no request. With a
+ * client, `refresh()` replaces lists with live data and reports what changed
+ * since the snapshot.
+ *
+ * @example
+ * ```typescript
+ * const snapshot = JSON.parse(await env.ZEFIX_KV.get('reference-data')) as ReferenceDataSnapshot;
+ * const referenceData = new ReferenceData({snapshot, client: zefix});
+ * referenceData.legalForm(company.legalForm.id)?.name?.de;
+ *
+ * const diff = await referenceData.refresh({kinds: ['registries']});
+ * if (diff.hasChanges) console.warn('Bundled reference data is outdated', diff);
+ * ```
+ */
+export class ReferenceData {
+	private readonly snapshot: ReferenceDataSnapshot;
+	private readonly client: ZefixApiClient | undefined;
+	private readonly current: ReferenceDataSnapshot;
+	private readonly statuses: Record<ReferenceDataKind, ReferenceDataStatus>;
+	private catalog: RegistryOfCommerceCatalog | undefined;
+
+	/**
+	 * @throws {RangeError} if a list of the snapshot is empty, e.g. a snapshot
+	 * that was never generated
+	 */
+	constructor(options: ReferenceDataOptions) {
+		const empty = REFERENCE_DATA_KINDS.filter(
+			(kind) => options.snapshot[kind].length === 0,
+		);
+		if (empty.length > 0) {
+			throw new RangeError(
+				`ReferenceData: the snapshot has no ${empty.join(', ')}; lookups would find nothing`,
+			);
+		}
+
+		this.snapshot = options.snapshot;
+		this.client = options.client;
+		this.current = {...options.snapshot};
+		const status: ReferenceDataStatus = {
+			source: 'snapshot',
+			updatedAt: options.snapshot.generatedAt,
+		};
+		this.statuses = {
+			legalForms: status,
+			communities: status,
+			registries: status,
+		};
+	}
+
+	get legalForms(): readonly LegalForm[] {
+		return this.current.legalForms;
+	}
+
+	get communities(): readonly BfsCommunity[] {
+		return this.current.communities;
+	}
+
+	get registries(): readonly RegistryOfCommerce[] {
+		return this.current.registries;
+	}
+
+	/**
+	 * Where a list currently comes from and when it was fetched
+	 */
+	status(kind: ReferenceDataKind): ReferenceDataStatus {
+		return this.statuses[kind];
+	}
+
+	/**
+	 * Find a legal form by its internal ID
+	 */
+	legalForm(id: number): LegalForm | undefined {
+		return this.current.legalForms.find((form) => form.id === id);
+	}
+
+	/**
+	 * Find a political community by its BFS number
+	 */
+	community(bfsId: number): BfsCommunity | undefined {
+		return this.current.communities.find(
+			(community) => community.bfsId === bfsId,
+		);
+	}
+
+	/**
+	 * Indexed view of the current registries
+	 */
+	registryCatalog(): RegistryOfCommerceCatalog {
+		this.catalog ??= new RegistryOfCommerceCatalog(this.current.registries);
+		return this.catalog;
+	}
+
+	/**
+	 * Compare the current lists against the snapshot
+	 */
+	diff(): ReferenceDataDiff {
+		return diffReferenceData(this.snapshot, this.current);
+	}
+
+	/**
+	 * Fetch lists from the live endpoints and serve them from now on.
+	 * Nothing is replaced unless all requested lists could be fetched.
+	 *
+	 * @returns The difference between the snapshot and the refreshed data
+	 * @throws {Error} if no client was given
+	 */
+	async refresh(
+		options: RefreshReferenceDataOptions = {},
+	): Promise<ReferenceDataDiff> {
+		const {client} = this;
+		if (!client) {
+			throw new Error('ReferenceData.refresh() needs a client');
+		}
+
+		const {signal} = options;
+		const fetchers: {
+			[K in ReferenceDataKind]: () => Promise<ReferenceDataSnapshot[K]>;
+		} = {
+			legalForms: async () => ensureOk(client.getLegalForms({signal})),
+			communities: async () => ensureOk(client.getCommunities({signal})),
+			registries: async () =>
+				ensureOk(client.getRegistriesOfCommerce({signal})),
+		};
+		// Fetch every list before replacing any of them
+		const fetch = async <K extends ReferenceDataKind>(kind: K) => {
+			const list = await fetchers[kind]();
+			return (updatedAt: string) => {
+				this.current[kind] = list;
+				this.statuses[kind] = {source: 'live', updatedAt};
+			};
+		};
+
+		const kinds = options.kinds ?? REFERENCE_DATA_KINDS;
+		const replacements = await Promise.all(
+			kinds.map(async (kind) => fetch(kind)),
+		);
+		const updatedAt = new Date().toISOString();
+		for (const replace of replacements) replace(updatedAt);
+
+		if (kinds.includes('registries')) this.catalog = undefined;
+		return this.diff();
+	}
+}
@@ -0,0 +1,248 @@
+/**
+ * Lookup helpers for the cantonal registries of commerce
+ */
+
+import type {ZefixApiClient} from './client';
+import type {
+	CompanyFull,
+	RegistryOfCommerce,
+	SogcPublication,
+} from './generated/types.gen';
+import {classifyMutationType} from './timeline';
+import {formatUid, normalizeUid} from './uid';
+import {ensureOk} from './utils/errors';
+
+/**
+ * A registry of commerce as listed by Zefix, with its ID guaranteed
+ */
+export type RegistryOfCommerceEntry = RegistryOfCommerce & {
+	registryOfCommerceId: number;
+};
+
+/**
+ * Fill a cantonal excerpt URL template (`url2` or `url4`).
+ *
+ * The first `#` is replaced by the UID formatted as `CHE-NNN.NNN.NNN`. The
+ * deletion date (`url4` only) goes into a second `#`, or else into an empty
+ * `shabdatum` parameter, or else is appended as `shabdatum` parameter.
+ *
+ * @param template - The URL template of the registry
+ * @param uid - The company UID in any spelling
+ * @param deletionDate - SOGC publication date of the deletion, as
+ * `YYYY-MM-DD`, `YYYYMMDD` or `Date`
+ * @returns The URL, or undefined if the UID or date is invalid
+ *
+ * @example
+ * fillExcerptUrlTemplate('https://example.ch/auszug?uid=#', 'che105815381')
+ * // 'https://example.ch/auszug?uid=CHE-105.815.381'
+ */
+export function fillExcerptUrlTemplate(
+	template: string,
+	uid: string,
+	deletionDate?: string | Date,
+): string | undefined {
+	const core = normalizeUid(uid);
+	if (!core) return undefined;
+
+	let url = template.replace('#', formatUid(core));
+	if (deletionDate === undefined) return url;
+
+	const date = toSogcDateParameter(deletionDate);
+	if (!date) return undefined;
+
+	if (url.includes('#')) {
+		url = url.replace('#', date);
+	} else if (/[?&]shabdatum=(?=&|$)/i.test(url)) {
+		url = url.replace(/([?&]shabdatum=)(?=&|$)/i, `$1${date}`);
+	} else {
+		url += `${url.includes('?') ? '&' : '?'}shabdatum=${date}`;
+	}
+
+	return url;
+}
+
+/**
+ * Format a date as `YYYYMMDD`, the format of the `shabdatum` parameter
+ */
+function toSogcDateParameter(date: string | Date): string | undefined {
+	if (date instanceof Date) {
+		return Number.isNaN(date.getTime())
+			? undefined
+			: date.toISOString().slice(0, 10).replaceAll('-', '');
+	}
+
+	const compact = date.trim().replaceAll('-', '');
+	return /^\d{8}$/.test(compact) ? compact : undefined;
+}
+
+/**
+ * Company fields used to build its cantonal excerpt URL
+ */
+export type ExcerptUrlCompany = Pick<
+	CompanyFull,
+	'uid' | 'status' | 'deletionDate' | 'sogcDate' | 'sogcPub'
+>;
+
+/**
+ * Check whether a company has been deleted from the commercial register
+ */
+function isDeleted(company: ExcerptUrlCompany): boolean {
+	return company.status === 'CANCELLED' || Boolean(company.deletionDate);
+}
+
+/**
+ * Find the SOGC date of a deleted company's deletion publication: the
+ * publication tagged with a deletion mutation type, else the latest one
+ * in `sogcPub`, else the company's last publication date
+ */
+function findDeletionSogcDate(company: ExcerptUrlCompany): string | undefined {
+	const publications = company.sogcPub ?? [];
+	const tagged = publications.find((publication) =>
+		publication.mutationTypes?.some(
+			(type) => classifyMutationType(type.key) === 'deletion',
+		),
+	);
+	if (tagged?.sogcDate) return tagged.sogcDate;
+
+	const latest = publications
+		.filter(
+			(publication): publication is SogcPublication & {sogcDate: string} =>
+				Boolean(publication.sogcDate),
+		)
+		.sort((a, b) => b.sogcDate.localeCompare(a.sogcDate))[0];
+	return latest?.sogcDate ?? company.sogcDate;
+}
+
+/**
+ * Build the URL of a company's excerpt on its cantonal registry website,
+ * e.g. when Zefix leaves `cantonalExcerptWeb` empty.
+ *
+ * Active companies (including those being cancelled) use the registry's
+ * `url2` template. Deleted companies use `url4` with the SOGC date of the
+ * deletion publication.
+ *
+ * @param company - The company, typically a `CompanyFull`
+ * @param registry - The registry the company is registered in
+ * @returns The URL, or undefined if the template, UID or deletion date is
+ * missing or invalid
+ *
+ * @example
+ * const registry = catalog.byId(company.registryOfCommerceId);
+ * const url = company.cantonalExcerptWeb ?? buildCantonalExcerptUrl(company, registry);
+ */
+export function buildCantonalExcerptUrl(
+	company: ExcerptUrlCompany,
+	registry: RegistryOfCommerce | undefined,
+): string | undefined {
+	if (!company.uid || !registry) return undefined;
+
+	if (!isDeleted(company)) {
+		return registry.url2
+			? fillExcerptUrlTemplate(registry.url2, company.uid)
+			: undefined;
+	}
+
+	const deletionDate = findDeletionSogcDate(company);
+	return registry.url4 && deletionDate
+		? fillExcerptUrlTemplate(registry.url4, company.uid, deletionDate)
+		: undefined;
+}
+
+/**
+ * Typed, indexed view of the registry of commerce list
+ *
+ * @example
+ * ```typescript
+ * const registries = await RegistryOfCommerceCatalog.load(zefix);
+ * registries.byCanton('BE').map((registry) => registry.address1);
+ * registries.buildExcerptUrl(company.registryOfCommerceId, company.uid);
+ * ```
+ */
+export class RegistryOfCommerceCatalog {
+	/**
+	 * Fetch the registry list through the given client
+	 */
+	static async load(
+		zefix: ZefixApiClient,
+		options: {signal?: AbortSignal} = {},
+	): Promise<RegistryOfCommerceCatalog> {
+		const registries = await ensureOk(
+			zefix.getRegistriesOfCommerce({signal: options.signal}),
+		);
+		return new RegistryOfCommerceCatalog(registries);
+	}
+
+	private readonly entries = new Map<number, RegistryOfCommerceEntry>();
+
+	constructor(registries: RegistryOfCommerce[]) {
+		for (const registry of registries) {
+			if (registry.registryOfCommerceId !== undefined) {
+				this.entries.set(
+					registry.registryOfCommerceId,
+					registry as RegistryOfCommerceEntry,
+				);
+			}
+		}
+	}
+
+	/**
+	 * All registries with an ID, in the order Zefix listed them
+	 */
+	get all(): RegistryOfCommerceEntry[] {
+		return [...this.entries.values()];
+	}
+
+	/**
+	 * Find a registry by its internal office number
+	 */
+	byId(registryOfCommerceId: number): RegistryOfCommerceEntry | undefined {
+		return this.entries.get(registryOfCommerceId);
+	}
+
+	/**
+	 * All registries of a canton; several cantons have more than one
+	 */
+	byCanton(canton: string): RegistryOfCommerceEntry[] {
+		const code = canton.toUpperCase();
+		return this.all.filter(
+			(registry) => registry.canton?.toUpperCase() === code,
+		);
+	}
+
+	/**
+	 * Build the URL of a company's excerpt on its cantonal registry website.
+	 * Uses `url4` when a deletion date is given, `url2` otherwise.
+	 *
+	 * @returns The URL, or undefined if the registry, its template, the UID or
+	 * the date is unknown or invalid
+	 */
+	buildExcerptUrl(
+		registryOfCommerceId: number | undefined,
+		uid: string | undefined,
+		deletionDate?: string | Date,
+	): string | undefined {
+		if (registryOfCommerceId === undefined || !uid) return undefined;
+
+		const registry = this.byId(registryOfCommerceId);
+		const template =
+			deletionDate === undefined ? registry?.url2 : registry?.url4;
+		return template
+			? fillExcerptUrlTemplate(template, uid, deletionDate)
+			: undefined;
+	}
+
+	/**
+	 * Build a company's excerpt URL using the registry it is registered in.
+	 * See {@link buildCantonalExcerptUrl}.
+	 */
+	excerptUrlFor(
+		company: ExcerptUrlCompany & Pick<CompanyFull, 'registryOfCommerceId'>,
+	): string | undefined {
+		return company.registryOfCommerceId === undefined
+			? undefined
+			: buildCantonalExcerptUrl(
+					company,
+					this.byId(company.registryOfCommerceId),
+				);
+	}
+}
@@ -0,0 +1,238 @@
+/**
+ * Exhaustive company search, splitting queries Zefix rejects as too broad
+ */
+
+import type {ZefixApiClient} from './client';
+import type {
+	CompanySearchQuery,
+	CompanyShort,
+	LegalForm,
+	RegistryOfCommerce,
+} from './generated/types.gen';
+import {
+	ensureOk,
+	ZefixError,
+	ZefixNotFoundError,
+	ZefixResultListTooLargeError,
+} from './utils/errors';
+import {SWISS_CANTONS} from './utils/type-guards';
+
+/**
+ * Query fields `searchAll` splits along, in the order they are tried
+ */
+export type SearchPartitionDimension =
+	| 'canton'
+	| 'registryOfCommerceId'
+	| 'legalFormId'
+	| 'namePrefix';
+
+/**
+ * A query slice that Zefix answered without RESULTLIST_TO_LARGE
+ */
+export type SearchPartition = {
+	query: CompanySearchQuery;
+	/** Number of companies returned for this slice, before deduplication */
+	count: number;
+};
+
+export type SearchAllOptions = {
+	/**
+	 * Characters appended to a trailing-wildcard name once all other
+	 * dimensions are exhausted, e.g. `AG*` becomes `AGA*`, `AGB*`, ...
+	 * Names continuing with a character not listed here are missed.
+	 * @default ' abcdefghijklmnopqrstuvwxyz0123456789äöüéèàç'
+	 */
+	prefixAlphabet?: string;
+	/**
+	 * Upper bound on search requests; exceeding it rejects with a
+	 * `ZefixError` with code `SEARCH_LIMIT_EXCEEDED`
+	 * @default 1000
+	 */
+	maxRequests?: number;
+	signal?: AbortSignal;
+	/**
+	 * Called for every slice that succeeded, in the order they complete
+	 */
+	onPartition?: (partition: SearchPartition) => void;
+};
+
+export type SearchAllResult = {
+	/** Companies of all slices, deduplicated by `ehraid` */
+	companies: CompanyShort[];
+	/** The slices that together cover the original query */
+	partitions: SearchPartition[];
+	/** Dimensions the query was split along, in order of first use */
+	splitBy: SearchPartitionDimension[];
+	/** Number of search requests sent */
+	requests: number;
+};
+
+const DEFAULT_PREFIX_ALPHABET = ' abcdefghijklmnopqrstuvwxyz0123456789äöüéèàç';
+const DEFAULT_MAX_REQUESTS = 1000;
+
+type Split = {
+	dimension: SearchPartitionDimension;
+	queries: CompanySearchQuery[];
+};
+
+/**
+ * Run a company search and, whenever Zefix answers RESULTLIST_TO_LARGE,
+ * split the query by canton, then registry of commerce, then legal form and
+ * finally a longer name prefix until every slice succeeds.
+ *
+ * Slices are searched one after another, so the client's rate limiter and
+ * retry policy apply to each of them.
+ *
+ * @throws {ZefixResultListTooLargeError} if a slice cannot be split further
+ */
+export async function searchAll(
+	zefix: ZefixApiClient,
+	query: CompanySearchQuery,
+	options: SearchAllOptions = {},
+): Promise<SearchAllResult> {
+	const maxRequests = options.maxRequests ?? DEFAULT_MAX_REQUESTS;
+	const alphabet = [
+		...new Set(options.prefixAlphabet ?? DEFAULT_PREFIX_ALPHABET),
+	];
+	const companies = new Map<unknown, CompanyShort>();
+	const result: SearchAllResult = {
+		companies: [],
+		partitions: [],
+		splitBy: [],
+		requests: 0,
+	};
+
+	let registriesRequest: Promise<RegistryOfCommerce[]> | undefined;
+	let legalFormsRequest: Promise<LegalForm[]> | undefined;
+	const loadRegistries = async () => {
+		registriesRequest ??= ensureOk(
+			zefix.getRegistriesOfCommerce({signal: options.signal}),
+		);
+		return registriesRequest;
+	};
+
+	const loadLegalForms = async () => {
+		legalFormsRequest ??= ensureOk(
+			zefix.getLegalForms({signal: options.signal}),
+		);
+		return legalFormsRequest;
+	};
+
+	const nextSplit = async (
+		slice: CompanySearchQuery,
+	): Promise<Split | undefined> => {
+		const hasLocation =
+			slice.canton !== undefined ||
+			slice.registryOfCommerceId !== undefined ||
+			slice.legalSeatId !== undefined;
+		if (!hasLocation) {
+			return {
+				dimension: 'canton',
+				queries: SWISS_CANTONS.map((canton) => ({...slice, canton})),
+			};
+		}
+
+		if (slice.canton !== undefined) {
+			const canton = slice.canton.toUpperCase();
+			const registries = await loadRegistries();
+			const ids = registries
+				.filter((registry) => registry.canton?.toUpperCase() === canton)
+				.map((registry) => registry.registryOfCommerceId)
+				.filter((id) => id !== undefined);
+			// A canton with a single registry gains nothing from this split
+			if (ids.length > 1) {
+				const {canton: _canton, ...rest} = slice;
+				return {
+					dimension: 'registryOfCommerceId',
+					queries: ids.map((registryOfCommerceId) => ({
+						...rest,
+						registryOfCommerceId,
+					})),
+				};
+			}
+		}
+
+		if (slice.legalFormId === undefined && slice.legalFormUid === undefined) {
+			const legalForms = await loadLegalForms();
+			const ids = legalForms
+				.map((legalForm) => legalForm.id)
+				.filter((id) => id !== undefined);
+			return {
+				dimension: 'legalFormId',
+				queries: ids.map((legalFormId) => ({...slice, legalFormId})),
+			};
+		}
+
+		if (slice.name.endsWith('*') && alphabet.length > 0) {
+			const prefix = slice.name.slice(0, -1);
+			return {
+				dimension: 'namePrefix',
+				queries: alphabet.map((char) => ({
+					...slice,
+					name: `${prefix}${char}*`,
+				})),
+			};
+		}
+
+		return undefined;
+	};
+
+	const run = async (slice: CompanySearchQuery): Promise<void> => {
+		options.signal?.throwIfAborted();
+		if (result.requests >= maxRequests) {
+			throw new ZefixError(
+				`searchAll exceeded maxRequests (${maxRequests})`,
+				undefined,
+				'SEARCH_LIMIT_EXCEEDED',
+			);
+		}
+
+		result.requests++;
+		let found: CompanyShort[];
+		try {
+			found = await ensureOk(
+				zefix.searchCompanies({body: slice, signal: options.signal}),
+			);
+		} catch (error) {
+			if (error instanceof ZefixNotFoundError) {
+				// Zefix answers 404 for slices without matches
+				found = [];
+			} else if (error instanceof ZefixResultListTooLargeError) {
+				await splitAndRun(slice, error);
+				return;
+			} else {
+				throw error;
+			}
+		}
+
+		for (const company of found) {
+			// Companies without any ID are kept as they are
+			const key = company.ehraid ?? company.uid ?? company;
+			if (!companies.has(key)) companies.set(key, company);
+		}
+
+		const partition: SearchPartition = {query: slice, count: found.length};
+		result.partitions.push(partition);
+		options.onPartition?.(partition);
+	};
+
+	const splitAndRun = async (
+		slice: CompanySearchQuery,
+		error: ZefixResultListTooLargeError,
+	): Promise<void> => {
+		const split = await nextSplit(slice);
+		if (!split) throw error;
+
+		if (!result.splitBy.includes(split.dimension)) {
+			result.splitBy.push(split.dimension);
+		}
+
+		for (const subQuery of split.queries) {
+			await run(subQuery);
+		}
+	};
+
+	await run(query);
+	result.companies = [...companies.values()];
+	return result;
+}
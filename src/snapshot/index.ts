@@ -0,0 +1,35 @@
+/**
+ * Bundled snapshot of the Zefix reference data, to be published as
+ * `@tenderlift/zefix-client/reference-data`.
+ *
+ * Generate it with `pnpm gen:reference-data`. The package exports it only
+ * once it holds data: add the `reference-data` entry to tsup.config.ts and
+ * package.json (`exports` and `typesVersions`) after the first generation.
+ */
+
+import type {ReferenceDataSnapshot} from '../reference-data';
+import {
+	communities,
+	generatedAt,
+	legalForms,
+	registries,
+} from './reference-data.gen';
+
+export {
+	communities,
+	generatedAt,
+	legalForms,
+	registries,
+} from './reference-data.gen';
+
+/**
+ * The whole snapshot, as expected by `new ReferenceData({snapshot})`
+ */
+export const referenceDataSnapshot: ReferenceDataSnapshot = {
+	generatedAt,
+	legalForms,
+	communities,
+	registries,
+};
+
+export type {ReferenceDataSnapshot} from '../reference-data';
@@ -0,0 +1,14 @@
+// This file is auto-generated by scripts/generate-reference-data.mjs
+
+import type { BfsCommunity, LegalForm, RegistryOfCommerce } from '../generated/types.gen';
+
+/**
+ * When the snapshot was fetched from Zefix, as ISO timestamp
+ */
+export const generatedAt: string | undefined = undefined;
+
+export const legalForms: LegalForm[] = [];
+
+export const communities: BfsCommunity[] = [];
+
+export const registries: RegistryOfCommerce[] = [];
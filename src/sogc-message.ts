@@ -0,0 +1,387 @@
+/**
+ * Structured parsing of SOGC publication messages
+ */
+
+import {toPlainText} from './sogc-render';
+import {normalizeUid, type UidCore} from './uid';
+import type {ZefixLanguage} from './utils/type-guards';
+
+/**
+ * Signing authority of a person, from `mit Einzelunterschrift`,
+ * `avec signature collective à deux`, `con procura individuale`, ...
+ */
+export type SigningAuthority =
+	| 'individual'
+	| 'collective'
+	| 'individual-procuration'
+	| 'collective-procuration'
+	| 'none';
+
+/**
+ * What a labelled section of a message changes
+ */
+export type SogcFieldKind =
+	| 'name'
+	| 'seat'
+	| 'address'
+	| 'purpose'
+	| 'capital'
+	| 'bylaws'
+	| 'auditor'
+	| 'other';
+
+export type SogcMessageField = {
+	kind: SogcFieldKind;
+	/** Label as published, e.g. `Zweck neu` */
+	label: string;
+	value: string;
+};
+
+/**
+ * A person or legal entity entered into or removed from the register
+ */
+export type SogcPerson = {
+	change: 'registered' | 'removed';
+	/** Name as published: `Family, Given` for people, the business name for legal entities */
+	name: string;
+	familyName?: string;
+	givenNames?: string;
+	/** UID of a legal entity, e.g. an auditor */
+	uid?: UidCore;
+	/** Swiss place of citizenship, e.g. `Bern` from `von Bern` */
+	origin?: string;
+	/** Foreign nationality as published, e.g. `deutscher Staatsangehöriger` */
+	nationality?: string;
+	/** Place of residence, possibly with a country code, e.g. `München (DE)` */
+	domicile?: string;
+	/** Function as published, e.g. `Mitglied des Verwaltungsrates` */
+	role?: string;
+	signingAuthority?: SigningAuthority;
+	/** Signing authority as published */
+	signature?: string;
+	/** Previous entry of a changed person, from `[bisher: ...]` */
+	previously?: string;
+};
+
+export type ParsedSogcMessage = {
+	companyName?: string;
+	uid?: UidCore;
+	seat?: string;
+	legalForm?: string;
+	/** Address of new entries */
+	address?: string;
+	/**
+	 * Parenthesis after the legal form: the kind of entry for new entries,
+	 * else the reference to the previous publication
+	 */
+	reference?: string;
+	fields: SogcMessageField[];
+	persons: SogcPerson[];
+	/** Sentences before the first label, e.g. on dissolution or deletion */
+	remarks: string[];
+};
+
+type Vocabulary = {
+	registered: RegExp;
+	removed: RegExp;
+	origin: RegExp;
+	nationality: RegExp;
+	domicile: RegExp;
+	signatures: Array<[SigningAuthority, RegExp]>;
+	fields: Array<[Exclude<SogcFieldKind, 'other'>, RegExp]>;
+};
+
+/**
+ * Wording of the commercial register publications per language
+ */
+const VOCABULARIES: Record<'de' | 'fr' | 'it', Vocabulary> = {
+	de: {
+		registered: /^eingetragene personen/i,
+		removed: /^ausgeschiedene personen/i,
+		origin: /^von\s+(.+)$/,
+		nationality: /staatsangehörig/i,
+		domicile: /^in\s+(.+)$/,
+		signatures: [
+			['individual-procuration', /einzelprokura/i],
+			['collective-procuration', /kollektivprokura/i],
+			['individual', /einzelunterschrift/i],
+			['collective', /kollektivunterschrift/i],
+			['none', /ohne zeichnungsberechtigung/i],
+		],
+		fields: [
+			['auditor', /revisionsstelle/i],
+			['capital', /kapital/i],
+			['bylaws', /^statut/i],
+			['purpose', /^zweck/i],
+			['name', /^firma/i],
+			['seat', /^sitz/i],
+			['address', /^domizil/i],
+		],
+	},
+	fr: {
+		registered: /^inscription ou modification de personne/i,
+		removed: /^personnes et signatures radiées/i,
+		origin: /^d(?:e\s+|’|')(.+)$/,
+		nationality: /nationalit|ressortissant/i,
+		domicile: /^à\s+(.+)$/,
+		signatures: [
+			['individual-procuration', /procuration individuelle/i],
+			['collective-procuration', /procuration collective/i],
+			['individual', /signature individuelle/i],
+			['collective', /signature collective/i],
+			['none', /sans (?:droit de )?signature/i],
+		],
+		fields: [
+			['auditor', /organe de révision/i],
+			['capital', /^capital/i],
+			['bylaws', /statuts/i],
+			['purpose', /\bbut\b/i],
+			['name', /raison sociale/i],
+			['seat', /siège/i],
+			['address', /adresse|domicile/i],
+		],
+	},
+	it: {
+		registered: /^(?:nuove )?persone iscritte/i,
+		removed: /^persone dimissionarie/i,
+		origin: /^da\s+(.+)$/,
+		nationality: /cittadin|nazionalità/i,
+		domicile: /^(?:in|a)\s+(.+)$/,
+		signatures: [
+			['individual-procuration', /procura individuale/i],
+			['collective-procuration', /procura collettiva/i],
+			['individual', /firma individuale/i],
+			['collective', /firma collettiva/i],
+			['none', /senza (?:diritto di )?firma/i],
+		],
+		fields: [
+			['auditor', /(?:ufficio|organo) di revisione/i],
+			['capital', /^capitale/i],
+			['bylaws', /statut/i],
+			['purpose', /scopo/i],
+			['name', /ragione sociale|ditta/i],
+			['seat', /sede/i],
+			['address', /recapito|domicilio/i],
+		],
+	},
+};
+
+const UID_PATTERN = String.raw`CHE-?\d{3}\.?\d{3}\.?\d{3}`;
+
+/**
+ * `Name, in Seat, CHE-..., [address, ]legal form (reference).`
+ */
+const HEADER_RE = new RegExp(
+	String.raw`^(.+?),\s+(?:in|à|a)\s+([^,]+?),\s+(${UID_PATTERN})(?:,\s+([^()]+?)\s+\(([^)]*)\))?\.(?:\s+|$)`,
+);
+
+/**
+ * A label at the start of a sentence, e.g. `Zweck neu: `
+ */
+const LABEL_RE = /(?:^|(?<=\.)\s+)([A-ZÄÖÜÀ-Ý][^:.;[\]]{1,80}):\s+/g;
+
+const PREVIOUSLY_RE =
+	/\s*\[(?:bisher|précédemment|finora|in precedenza):\s*([^\]]*)]/i;
+
+/**
+ * Split the message of a SOGC publication into its header, labelled fields
+ * and the persons entered into or removed from the register.
+ *
+ * The parser follows the standard wording of the commercial register. Text
+ * it does not recognize is kept as `other` field or remark, never dropped.
+ *
+ * @param message - `SogcPublication.message`
+ * @param lang - Language of the message; with `en` or without, the wording
+ * of all three languages is recognized
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseSogcMessage(publication.message, 'de');
+ * for (const person of parsed.persons) {
+ *   console.log(person.change, person.name, person.role, person.signingAuthority);
+ * }
+ * ```
+ */
+export function parseSogcMessage(
+	message: string,
+	lang?: ZefixLanguage,
+): ParsedSogcMessage {
+	const vocabularies =
+		lang && lang !== 'en' ? [VOCABULARIES[lang]] : Object.values(VOCABULARIES);
+	const text = toPlainText(message).replaceAll(/\s+/g, ' ');
+	const header = HEADER_RE.exec(text);
+	const parsed: ParsedSogcMessage = {fields: [], persons: [], remarks: []};
+
+	if (header) {
+		const [, companyName, seat, uid, addressAndLegalForm, reference] = header;
+		const separator = addressAndLegalForm?.lastIndexOf(', ') ?? -1;
+		Object.assign(parsed, {
+			companyName,
+			uid: normalizeUid(uid),
+			seat,
+			...(addressAndLegalForm && {
+				legalForm: addressAndLegalForm.slice(separator + 1).trim(),
+			}),
+			...(separator > 0 && {
+				address: addressAndLegalForm.slice(0, separator),
+			}),
+			...(reference && {reference}),
+		});
+	}
+
+	const body = header ? text.slice(header[0].length) : text;
+	parseBody(body, vocabularies, parsed);
+	return parsed;
+}
+
+function parseBody(
+	body: string,
+	vocabularies: Vocabulary[],
+	parsed: ParsedSogcMessage,
+): void {
+	const labels = [...body.matchAll(LABEL_RE)];
+	const preamble = body.slice(0, labels[0]?.index ?? body.length).trim();
+	parsed.remarks.push(...splitSentences(preamble));
+
+	for (const [index, match] of labels.entries()) {
+		const label = match[1].trim();
+		const start = match.index + match[0].length;
+		const end = labels[index + 1]?.index ?? body.length;
+		const value = body.slice(start, end).trim().replace(/\.$/, '');
+		const change = matchVocabulary(vocabularies, (vocabulary) =>
+			vocabulary.registered.test(label)
+				? 'registered'
+				: vocabulary.removed.test(label)
+					? 'removed'
+					: undefined,
+		);
+
+		if (change) {
+			parsed.persons.push(
+				...value
+					.split(/;\s+/)
+					.map((entry) => parsePerson(entry, change, vocabularies)),
+			);
+		} else {
+			parsed.fields.push({
+				kind: classifyField(label, vocabularies),
+				label,
+				value,
+			});
+		}
+	}
+}
+
+function classifyField(
+	label: string,
+	vocabularies: Vocabulary[],
+): SogcFieldKind {
+	return (
+		matchVocabulary(
+			vocabularies,
+			(vocabulary) =>
+				vocabulary.fields.find(([, pattern]) => pattern.test(label))?.[0],
+		) ?? 'other'
+	);
+}
+
+/**
+ * Parse `Meier, Hans, von Bern, in Zürich, Mitglied, mit Einzelunterschrift`.
+ * The name is the first one or two tokens, before the origin or nationality.
+ */
+function parsePerson(
+	entry: string,
+	change: SogcPerson['change'],
+	vocabularies: Vocabulary[],
+): SogcPerson {
+	const previously = PREVIOUSLY_RE.exec(entry)?.[1].trim();
+	const tokens = entry
+		.replace(PREVIOUSLY_RE, '')
+		.replace(/\.$/, '')
+		.split(/,\s+/);
+	const person: Partial<SogcPerson> = {};
+	const nameTokens: string[] = [];
+	const roleTokens: string[] = [];
+
+	for (const [index, token] of tokens.entries()) {
+		// The first token is always a name, also one like `von Arx` or `de Weck`
+		const recognized =
+			index > 0 && classifyPersonToken(token, vocabularies, person);
+		if (!recognized) {
+			((person.domicile ?? person.origin ?? person.nationality)
+				? roleTokens
+				: nameTokens
+			).push(token);
+		}
+	}
+
+	return {
+		change,
+		...toPersonName(nameTokens),
+		...person,
+		...(roleTokens.length > 0 && {role: roleTokens.join(', ')}),
+		...(previously && {previously}),
+	};
+}
+
+/**
+ * Store a token of a person entry if it is a nationality, origin, domicile or
+ * signature
+ *
+ * @returns Whether the token was recognized
+ */
+function classifyPersonToken(
+	token: string,
+	vocabularies: Vocabulary[],
+	person: Partial<SogcPerson>,
+): boolean {
+	const kind = matchVocabulary(vocabularies, (vocabulary) => {
+		if (vocabulary.nationality.test(token)) return {nationality: token};
+		const authority = vocabulary.signatures.find(([, pattern]) =>
+			pattern.test(token),
+		)?.[0];
+		if (authority) return {signingAuthority: authority, signature: token};
+		const domicile = vocabulary.domicile.exec(token)?.[1];
+		if (domicile && !person.domicile) return {domicile};
+		const origin = vocabulary.origin.exec(token)?.[1];
+		if (origin && !person.origin && !person.domicile) return {origin};
+		return undefined;
+	});
+	if (kind) Object.assign(person, kind);
+	return Boolean(kind);
+}
+
+function toPersonName(
+	tokens: string[],
+): Pick<SogcPerson, 'name' | 'familyName' | 'givenNames' | 'uid'> {
+	const name = tokens.join(', ');
+	const legalEntity = new RegExp(
+		String.raw`^(.+?)\s*\((${UID_PATTERN})\)$`,
+	).exec(name);
+	if (legalEntity) {
+		return {name: legalEntity[1], uid: normalizeUid(legalEntity[2])};
+	}
+
+	return tokens.length === 2
+		? {name, familyName: tokens[0], givenNames: tokens[1]}
+		: {name};
+}
+
+function matchVocabulary<T>(
+	vocabularies: Vocabulary[],
+	match: (vocabulary: Vocabulary) => T | undefined,
+): T | undefined {
+	for (const vocabulary of vocabularies) {
+		const result = match(vocabulary);
+		if (result !== undefined) return result;
+	}
+
+	return undefined;
+}
+
+function splitSentences(text: string): string[] {
+	return text
+		.split(/(?<=\.)\s+(?=[A-ZÄÖÜÀ-Ý])/)
+		.map((sentence) => sentence.trim())
+		.filter(Boolean);
+}
@@ -0,0 +1,313 @@
+/**
+ * Rendering of SOGC publication messages as plain text, Markdown or safe HTML,
+ * without DOM APIs
+ */
+
+export type SafeHtmlOptions = {
+	/**
+	 * Tags to keep, lowercase. All attributes are removed.
+	 * @default SAFE_HTML_TAGS
+	 */
+	allowedTags?: readonly string[];
+};
+
+/**
+ * Tags `toSafeHtml` keeps by default
+ */
+export const SAFE_HTML_TAGS: readonly string[] = [
+	'p',
+	'div',
+	'br',
+	'b',
+	'strong',
+	'i',
+	'em',
+	'u',
+	'sub',
+	'sup',
+	'ul',
+	'ol',
+	'li',
+];
+
+type Token =
+	| {type: 'text'; text: string}
+	| {type: 'open'; tag: string}
+	| {type: 'close'; tag: string};
+
+/**
+ * Elements whose content is dropped along with the tags
+ */
+const RAW_TEXT_TAGS = new Set([
+	'script',
+	'style',
+	'iframe',
+	'object',
+	'embed',
+	'template',
+	'noscript',
+	'textarea',
+	'title',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'wbr', 'input', 'meta', 'link']);
+
+const BLOCK_TAGS = new Set([
+	'p',
+	'div',
+	'section',
+	'article',
+	'blockquote',
+	'table',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+]);
+
+/**
+ * Comments, doctypes and CDATA sections, or tags with attributes that may
+ * quote a `>`
+ */
+const MARKUP_RE =
+	/<!--[\s\S]*?(?:-->|$)|<![^>]*>|<(\/?)([a-z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: '\u00A0',
+	shy: '\u00AD',
+	ndash: '–',
+	mdash: '—',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	hellip: '…',
+};
+
+/**
+ * Render a message as plain text: paragraphs and line breaks become newlines,
+ * list items `- ` or `1. ` lines, and entities their characters
+ *
+ * @example
+ * toPlainText('<p>Zweck:</p><ul><li>Handel</li><li>Beratung</li></ul>')
+ * // 'Zweck:\n\n- Handel\n- Beratung'
+ */
+export function toPlainText(message: string): string {
+	return renderText(message, false);
+}
+
+/**
+ * Render a message as Markdown: like {@link toPlainText}, with bold and
+ * italic text marked up, headings kept and Markdown syntax in the text escaped
+ */
+export function toMarkdown(message: string): string {
+	return renderText(message, true);
+}
+
+/**
+ * Render a message as HTML that is safe to inject into a page: tags outside
+ * the allow-list are removed (scripts and styles with their content), all
+ * attributes are dropped, text is escaped and unclosed tags are closed.
+ * Newlines of messages without markup become `<br>`.
+ *
+ * @example
+ * toSafeHtml('<p onclick="x()">Muster &amp; Co.<script>alert(1)</script></p>')
+ * // '<p>Muster &amp; Co.</p>'
+ */
+export function toSafeHtml(
+	message: string,
+	options: SafeHtmlOptions = {},
+): string {
+	const allowed = new Set(options.allowedTags ?? SAFE_HTML_TAGS);
+	const preserveNewlines = !hasMarkup(message);
+	const open: string[] = [];
+	let html = '';
+
+	for (const token of tokenize(message)) {
+		if (token.type === 'text') {
+			const text = escapeHtml(decodeEntities(token.text));
+			html +=
+				preserveNewlines && allowed.has('br')
+					? text.replaceAll(/\r?\n/g, '<br>\n')
+					: text;
+		} else if (!allowed.has(token.tag)) {
+			continue;
+		} else if (token.type === 'open') {
+			html += `<${token.tag}>`;
+			if (!VOID_TAGS.has(token.tag)) open.push(token.tag);
+		} else if (open.includes(token.tag)) {
+			let tag: string | undefined;
+			while (tag !== token.tag) {
+				tag = open.pop()!;
+				html += `</${tag}>`;
+			}
+		}
+	}
+
+	return (
+		html +
+		open
+			.reverse()
+			.map((tag) => `</${tag}>`)
+			.join('')
+	);
+}
+
+function hasMarkup(message: string): boolean {
+	return /<\/?[a-z][^>]*>/i.test(message);
+}
+
+/**
+ * Split a message into text and tags. Content of raw text elements such as
+ * `<script>` is skipped, and comments are dropped.
+ */
+function tokenize(message: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+
+	for (const match of message.matchAll(MARKUP_RE)) {
+		if (match.index < position) continue;
+		if (match.index > position) {
+			tokens.push({type: 'text', text: message.slice(position, match.index)});
+		}
+
+		position = match.index + match[0].length;
+		const [, slash, name] = match;
+		if (!name) continue;
+
+		const tag = name.toLowerCase();
+		if (slash) {
+			tokens.push({type: 'close', tag});
+		} else if (RAW_TEXT_TAGS.has(tag)) {
+			const end = message.toLowerCase().indexOf(`</${tag}`, position);
+			const closing = end === -1 ? -1 : message.indexOf('>', end);
+			position = closing === -1 ? message.length : closing + 1;
+		} else {
+			tokens.push({type: 'open', tag});
+		}
+	}
+
+	if (position < message.length) {
+		tokens.push({type: 'text', text: message.slice(position)});
+	}
+
+	return tokens;
+}
+
+type TextRenderer = {
+	markdown: boolean;
+	output: string;
+	/** Open lists, innermost first */
+	lists: Array<{ordered: boolean; count: number}>;
+};
+
+function renderText(message: string, markdown: boolean): string {
+	const preserveNewlines = !hasMarkup(message);
+	const renderer: TextRenderer = {markdown, output: '', lists: []};
+
+	for (const token of tokenize(message)) {
+		if (token.type === 'text') {
+			let text = decodeEntities(token.text).replaceAll('\u00A0', ' ');
+			text = preserveNewlines
+				? text.replaceAll(/[^\S\n]+/g, ' ')
+				: text.replaceAll(/\s+/g, ' ');
+			appendText(renderer, markdown ? escapeMarkdown(text) : text);
+		} else if (token.type === 'open') {
+			openTextTag(renderer, token.tag);
+		} else {
+			closeTextTag(renderer, token.tag);
+		}
+	}
+
+	return renderer.output
+		.split('\n')
+		.map((line) => line.trimEnd())
+		.join('\n')
+		.replaceAll(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Append text, without spaces at the start of a line
+ */
+function appendText(renderer: TextRenderer, text: string): void {
+	const atLineStart =
+		renderer.output === '' ||
+		renderer.output.endsWith('\n') ||
+		/(?:^|\n) *(?:-|\d+\.) $/.test(renderer.output);
+	renderer.output += atLineStart ? text.trimStart() : text;
+}
+
+function openTextTag(renderer: TextRenderer, tag: string): void {
+	const {lists, markdown} = renderer;
+	if (tag === 'br' || tag === 'tr') {
+		renderer.output += '\n';
+	} else if (BLOCK_TAGS.has(tag)) {
+		const level = /^h([1-6])$/.exec(tag)?.[1];
+		renderer.output +=
+			markdown && level ? `\n\n${'#'.repeat(Number(level))} ` : '\n\n';
+	} else if (tag === 'ul' || tag === 'ol') {
+		// Nested lists continue the item they are in
+		if (lists.length === 0) renderer.output += '\n';
+		lists.unshift({ordered: tag === 'ol', count: 0});
+	} else if (tag === 'li') {
+		const list = lists[0] ?? {ordered: false, count: 0};
+		list.count++;
+		const indent = '  '.repeat(Math.max(lists.length - 1, 0));
+		renderer.output += `\n${indent}${list.ordered ? `${list.count}.` : '-'} `;
+	} else if (markdown) {
+		renderer.output += emphasis(tag);
+	}
+}
+
+function closeTextTag(renderer: TextRenderer, tag: string): void {
+	if (BLOCK_TAGS.has(tag)) {
+		renderer.output += '\n\n';
+	} else if (tag === 'ul' || tag === 'ol') {
+		renderer.lists.shift();
+		if (renderer.lists.length === 0) renderer.output += '\n\n';
+	} else if (renderer.markdown) {
+		renderer.output += emphasis(tag);
+	}
+}
+
+function emphasis(tag: string): string {
+	if (tag === 'b' || tag === 'strong') return '**';
+	if (tag === 'i' || tag === 'em') return '_';
+	return '';
+}
+
+function decodeEntities(text: string): string {
+	return text.replaceAll(
+		/&(?:#(\d+)|#x([\da-f]+)|([a-z]+));/gi,
+		(entity, decimal?: string, hex?: string, name?: string) => {
+			if (name) return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+			const codePoint = decimal ? Number(decimal) : Number.parseInt(hex!, 16);
+			return codePoint > 0 && codePoint <= 0x10_ff_ff
+				? String.fromCodePoint(codePoint)
+				: entity;
+		},
+	);
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;')
+		.replaceAll("'", '&#39;');
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replaceAll(/[\\`*_[\]<>#|]/g, String.raw`\$&`);
+}
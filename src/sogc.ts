@@ -0,0 +1,148 @@
+/**
+ * Iteration over SOGC publications across a date range
+ */
+
+import type {ZefixApiClient} from './client';
+import type {SogcPublicationAndCompanyShort} from './generated/types.gen';
+import {ensureOk, ZefixError, ZefixNotFoundError} from './utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A date as `YYYY-MM-DD` or a `Date` (its UTC calendar day is used)
+ */
+export type SogcDate = string | Date;
+
+export type SogcDayProgress = {
+	/** The day that was just processed, as `YYYY-MM-DD` */
+	date: string;
+	/** Number of publications yielded for that day */
+	count: number;
+};
+
+export type IterateSogcOptions = {
+	/** First day to fetch, inclusive */
+	from: SogcDate;
+	/** Last day to fetch, inclusive */
+	to: SogcDate;
+	/**
+	 * Last day that was completely processed by a previous run. Iteration
+	 * resumes on the day after it; days before `from` are never fetched.
+	 */
+	checkpoint?: SogcDate;
+	/**
+	 * Skip Saturdays and Sundays, when the SOGC does not publish
+	 * @default true
+	 */
+	skipWeekends?: boolean;
+	signal?: AbortSignal;
+	/**
+	 * Called once all publications of a day have been yielded. Persist
+	 * `date` to resume later with `checkpoint`.
+	 */
+	onDay?: (progress: SogcDayProgress) => void;
+};
+
+/**
+ * Yield the SOGC publications of every day from `from` to `to`, day by day
+ * in ascending order. Days without publications (empty lists, empty bodies or
+ * 404s) are skipped. Requests go through the client's fetch pipeline, so its rate
+ * limiter, retry policy and cache apply.
+ *
+ * @example
+ * ```typescript
+ * for await (const {sogcPublication} of iterateSogc(zefix, {
+ *   from: '2024-03-01',
+ *   to: '2024-03-31',
+ *   onDay: ({date}) => saveCheckpoint(date),
+ * })) {
+ *   console.log(sogcPublication?.sogcId);
+ * }
+ * ```
+ *
+ * @throws {RangeError} if a date is invalid or `from` is after `to`
+ */
+export async function* iterateSogc(
+	zefix: ZefixApiClient,
+	options: IterateSogcOptions,
+): AsyncGenerator<SogcPublicationAndCompanyShort, void, undefined> {
+	const from = toDayNumber(options.from, 'from');
+	const to = toDayNumber(options.to, 'to');
+	if (from > to) {
+		throw new RangeError(
+			`iterateSogc: 'from' (${formatDay(from)}) is after 'to' (${formatDay(to)})`,
+		);
+	}
+
+	const start =
+		options.checkpoint === undefined
+			? from
+			: Math.max(from, toDayNumber(options.checkpoint, 'checkpoint') + 1);
+	const skipWeekends = options.skipWeekends ?? true;
+
+	for (let day = start; day <= to; day++) {
+		options.signal?.throwIfAborted();
+		const date = formatDay(day);
+		if (skipWeekends && isWeekend(day)) continue;
+
+		let data: SogcPublicationAndCompanyShort[] | undefined;
+		try {
+			data = await ensureOk(
+				zefix.getSogcByDate({path: {date}, signal: options.signal}),
+			);
+		} catch (error) {
+			if (!isEmptyDay(error)) throw error;
+		}
+
+		// A 204 or empty body parses to `{}` rather than a list
+		const publications = Array.isArray(data) ? data : [];
+		yield* publications;
+		options.onDay?.({date, count: publications.length});
+	}
+}
+
+/**
+ * Whether a failed day request means the day has no publications
+ */
+function isEmptyDay(error: unknown): boolean {
+	return (
+		error instanceof ZefixNotFoundError ||
+		(error instanceof ZefixError && error.code === 'NO_DATA')
+	);
+}
+
+/**
+ * Days since the Unix epoch of a UTC calendar day
+ */
+function toDayNumber(value: SogcDate, name: string): number {
+	let ms: number;
+	if (value instanceof Date) {
+		ms = value.getTime();
+	} else {
+		ms = ISO_DATE_RE.test(value)
+			? Date.parse(`${value}T00:00:00Z`)
+			: Number.NaN;
+		// Reject dates that Date.parse rolls over, e.g. 2024-02-30
+		if (!Number.isNaN(ms) && formatDay(Math.floor(ms / DAY_MS)) !== value) {
+			ms = Number.NaN;
+		}
+	}
+
+	if (Number.isNaN(ms)) {
+		throw new RangeError(
+			`iterateSogc: '${name}' must be a valid date (YYYY-MM-DD), got ${String(value)}`,
+		);
+	}
+
+	return Math.floor(ms / DAY_MS);
+}
+
+function formatDay(day: number): string {
+	return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isWeekend(day: number): boolean {
+	const weekday = new Date(day * DAY_MS).getUTCDay();
+	return weekday === 0 || weekday === 6;
+}
@@ -0,0 +1,453 @@
+/**
+ * Detection of ZEFIX API drift between two versions of the OpenAPI spec
+ */
+
+/**
+ * The parts of an OpenAPI schema that are compared
+ */
+export type OpenApiSchema = {
+	$ref?: string;
+	type?: string;
+	format?: string;
+	enum?: unknown[];
+	items?: OpenApiSchema;
+	properties?: Record<string, OpenApiSchema>;
+	required?: string[];
+};
+
+type OpenApiContent = Record<string, {schema?: OpenApiSchema}>;
+
+type OpenApiOperation = {
+	parameters?: Array<{
+		name: string;
+		in: string;
+		required?: boolean;
+		schema?: OpenApiSchema;
+	}>;
+	requestBody?: {required?: boolean; content?: OpenApiContent};
+	responses?: Record<string, {content?: OpenApiContent}>;
+};
+
+/**
+ * The parts of an OpenAPI 3 document that are compared
+ */
+export type OpenApiSpec = {
+	info?: {version?: string};
+	paths?: Record<string, Record<string, OpenApiOperation>>;
+	components?: {schemas?: Record<string, OpenApiSchema>};
+};
+
+export type SpecChangeKind =
+	| 'version-changed'
+	| 'endpoint-added'
+	| 'endpoint-removed'
+	| 'parameter-added'
+	| 'parameter-removed'
+	| 'schema-added'
+	| 'schema-removed'
+	| 'property-added'
+	| 'property-removed'
+	| 'type-changed'
+	| 'required-added'
+	| 'required-removed'
+	| 'enum-value-added'
+	| 'enum-value-removed';
+
+export type SpecChange = {
+	kind: SpecChangeKind;
+	/** Whether a client built against the old spec may fail */
+	breaking: boolean;
+	/** Where the change is, e.g. `CompanyFull.status` or `GET /api/v1/sogc/{id}` */
+	location: string;
+	message: string;
+};
+
+export type SpecDiff = {
+	oldVersion?: string;
+	newVersion?: string;
+	breaking: SpecChange[];
+	nonBreaking: SpecChange[];
+};
+
+/**
+ * Whether a schema is sent to the API, received from it, or both
+ */
+type Usage = {request: boolean; response: boolean};
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Compare two versions of the ZEFIX OpenAPI spec and classify every change
+ * as breaking or non-breaking for clients built against the old one
+ *
+ * @example
+ * ```typescript
+ * const diff = diffSpecs(bundledSpec, await fetchLiveSpec());
+ * if (diff.breaking.length > 0) console.error(formatSpecDiff(diff));
+ * ```
+ */
+export function diffSpecs(
+	oldSpec: OpenApiSpec,
+	newSpec: OpenApiSpec,
+): SpecDiff {
+	const changes: SpecChange[] = [];
+	const usage = new Map<string, Usage>();
+	for (const spec of [oldSpec, newSpec]) {
+		collectUsage(spec, usage);
+	}
+
+	const report: Report = (kind, location, message, breaking) => {
+		changes.push({kind, breaking, location, message});
+	};
+
+	const oldVersion = oldSpec.info?.version;
+	const newVersion = newSpec.info?.version;
+	if (oldVersion !== newVersion) {
+		report(
+			'version-changed',
+			'info.version',
+			`version ${oldVersion ?? '(none)'} -> ${newVersion ?? '(none)'}`,
+			false,
+		);
+	}
+
+	diffOperations(oldSpec, newSpec, report);
+
+	const oldSchemas = oldSpec.components?.schemas ?? {};
+	const newSchemas = newSpec.components?.schemas ?? {};
+	for (const name of unionKeys(oldSchemas, newSchemas)) {
+		const usedAs = usage.get(name) ?? {request: false, response: true};
+		if (!(name in newSchemas)) {
+			report('schema-removed', name, 'schema removed', true);
+		} else if (name in oldSchemas) {
+			compareSchemas({
+				oldSchema: oldSchemas[name],
+				newSchema: newSchemas[name],
+				location: name,
+				usedAs,
+				report,
+			});
+		} else {
+			report('schema-added', name, 'schema added', false);
+		}
+	}
+
+	return {
+		oldVersion,
+		newVersion,
+		breaking: changes.filter((change) => change.breaking),
+		nonBreaking: changes.filter((change) => !change.breaking),
+	};
+}
+
+/**
+ * Render a diff as a human-readable report
+ */
+export function formatSpecDiff(diff: SpecDiff): string {
+	const lines = [
+		`ZEFIX API ${diff.oldVersion ?? '(unknown)'} -> ${diff.newVersion ?? '(unknown)'}`,
+	];
+	if (diff.breaking.length === 0 && diff.nonBreaking.length === 0) {
+		lines.push('No changes');
+	}
+
+	for (const [title, changes] of [
+		['Breaking changes', diff.breaking],
+		['Non-breaking changes', diff.nonBreaking],
+	] as const) {
+		if (changes.length === 0) continue;
+		lines.push('', `${title} (${changes.length}):`);
+		for (const change of changes) {
+			lines.push(`  ${change.location}: ${change.message}`);
+		}
+	}
+
+	return lines.join('\n');
+}
+
+type Report = (
+	kind: SpecChangeKind,
+	location: string,
+	message: string,
+	breaking: boolean,
+) => void;
+
+function diffOperations(
+	oldSpec: OpenApiSpec,
+	newSpec: OpenApiSpec,
+	report: Report,
+): void {
+	const oldOperations = listOperations(oldSpec);
+	const newOperations = listOperations(newSpec);
+
+	for (const key of unionKeys(oldOperations, newOperations)) {
+		const oldOperation = oldOperations[key];
+		const newOperation = newOperations[key];
+		if (!newOperation) {
+			report('endpoint-removed', key, 'endpoint removed', true);
+			continue;
+		}
+
+		if (!oldOperation) {
+			report('endpoint-added', key, 'endpoint added', false);
+			continue;
+		}
+
+		diffParameters(key, oldOperation, newOperation, report);
+
+		compareSchemas({
+			oldSchema: getContentSchema(oldOperation.requestBody?.content),
+			newSchema: getContentSchema(newOperation.requestBody?.content),
+			location: `${key} request body`,
+			usedAs: {request: true, response: false},
+			report,
+		});
+		compareSchemas({
+			oldSchema: getContentSchema(oldOperation.responses?.['200']?.content),
+			newSchema: getContentSchema(newOperation.responses?.['200']?.content),
+			location: `${key} response`,
+			usedAs: {request: false, response: true},
+			report,
+		});
+	}
+}
+
+function diffParameters(
+	key: string,
+	oldOperation: OpenApiOperation,
+	newOperation: OpenApiOperation,
+	report: Report,
+): void {
+	const toRecord = (operation: OpenApiOperation) =>
+		Object.fromEntries(
+			(operation.parameters ?? []).map((parameter) => [
+				`${parameter.in} parameter ${parameter.name}`,
+				parameter,
+			]),
+		);
+	const oldParameters = toRecord(oldOperation);
+	const newParameters = toRecord(newOperation);
+
+	for (const name of unionKeys(oldParameters, newParameters)) {
+		const oldParameter = oldParameters[name];
+		const newParameter = newParameters[name];
+		const location = `${key} ${name}`;
+		if (!newParameter) {
+			report('parameter-removed', location, 'parameter removed', true);
+		} else if (oldParameter) {
+			compareSchemas({
+				oldSchema: oldParameter.schema,
+				newSchema: newParameter.schema,
+				location,
+				usedAs: {request: true, response: false},
+				report,
+			});
+			if (newParameter.required && !oldParameter.required) {
+				report('required-added', location, 'now required', true);
+			}
+		} else {
+			report(
+				'parameter-added',
+				location,
+				newParameter.required
+					? 'required parameter added'
+					: 'optional parameter added',
+				Boolean(newParameter.required),
+			);
+		}
+	}
+}
+
+type SchemaComparison = {
+	oldSchema: OpenApiSchema | undefined;
+	newSchema: OpenApiSchema | undefined;
+	location: string;
+	usedAs: Usage;
+	report: Report;
+};
+
+function compareSchemas(comparison: SchemaComparison): void {
+	const {oldSchema, newSchema, location, usedAs, report} = comparison;
+	if (!oldSchema && !newSchema) return;
+
+	const oldType = describeSchema(oldSchema);
+	const newType = describeSchema(newSchema);
+	if (oldType !== newType) {
+		report('type-changed', location, `type ${oldType} -> ${newType}`, true);
+		return;
+	}
+
+	// Referenced component schemas are compared on their own
+	if (!oldSchema || !newSchema || oldSchema.$ref) return;
+
+	// New values break readers of responses, removed values break requests
+	const oldValues = (oldSchema.enum ?? []).map((value) =>
+		JSON.stringify(value),
+	);
+	const newValues = (newSchema.enum ?? []).map((value) =>
+		JSON.stringify(value),
+	);
+	for (const value of newValues) {
+		if (!oldValues.includes(value)) {
+			report(
+				'enum-value-added',
+				location,
+				`new enum value ${value}`,
+				usedAs.response,
+			);
+		}
+	}
+
+	for (const value of oldValues) {
+		if (!newValues.includes(value)) {
+			report(
+				'enum-value-removed',
+				location,
+				`enum value ${value} removed`,
+				usedAs.request,
+			);
+		}
+	}
+
+	if (oldSchema.items ?? newSchema.items) {
+		compareSchemas({
+			...comparison,
+			oldSchema: oldSchema.items,
+			newSchema: newSchema.items,
+			location: `${location}[]`,
+		});
+	}
+
+	compareProperties(comparison, oldSchema, newSchema);
+}
+
+function compareProperties(
+	comparison: SchemaComparison,
+	oldSchema: OpenApiSchema,
+	newSchema: OpenApiSchema,
+): void {
+	const {location, usedAs, report} = comparison;
+	const oldProperties = oldSchema.properties ?? {};
+	const newProperties = newSchema.properties ?? {};
+	const oldRequired = new Set(oldSchema.required);
+	const newRequired = new Set(newSchema.required);
+
+	// Required properties only constrain what clients send; in responses,
+	// dropping `required` means a field may now be missing
+	for (const key of unionKeys(oldProperties, newProperties)) {
+		const propertyLocation = `${location}.${key}`;
+		if (!(key in newProperties)) {
+			report('property-removed', propertyLocation, 'property removed', true);
+			continue;
+		}
+
+		if (!(key in oldProperties)) {
+			if (newRequired.has(key)) {
+				report(
+					'required-added',
+					propertyLocation,
+					'required property added',
+					usedAs.request,
+				);
+			} else {
+				report('property-added', propertyLocation, 'property added', false);
+			}
+
+			continue;
+		}
+
+		if (newRequired.has(key) && !oldRequired.has(key)) {
+			report(
+				'required-added',
+				propertyLocation,
+				'now required',
+				usedAs.request,
+			);
+		} else if (oldRequired.has(key) && !newRequired.has(key)) {
+			report(
+				'required-removed',
+				propertyLocation,
+				'no longer required',
+				usedAs.response,
+			);
+		}
+
+		compareSchemas({
+			...comparison,
+			oldSchema: oldProperties[key],
+			newSchema: newProperties[key],
+			location: propertyLocation,
+		});
+	}
+}
+
+/**
+ * Short description of the shape of a schema, e.g. `CompanyShort[]` or
+ * `integer (int64)`; schemas with equal descriptions have the same shape
+ */
+function describeSchema(schema: OpenApiSchema | undefined): string {
+	if (!schema) return '(none)';
+	if (schema.$ref) return schema.$ref.replace(SCHEMA_REF_PREFIX, '');
+	if (schema.type === 'array') return `${describeSchema(schema.items)}[]`;
+	const type = schema.type ?? (schema.properties ? 'object' : 'any');
+	return schema.format ? `${type} (${schema.format})` : type;
+}
+
+function listOperations(spec: OpenApiSpec): Record<string, OpenApiOperation> {
+	const operations: Record<string, OpenApiOperation> = {};
+	for (const [path, methods] of Object.entries(spec.paths ?? {})) {
+		for (const [method, operation] of Object.entries(methods)) {
+			operations[`${method.toUpperCase()} ${path}`] = operation;
+		}
+	}
+
+	return operations;
+}
+
+function getContentSchema(
+	content: OpenApiContent | undefined,
+): OpenApiSchema | undefined {
+	return content ? Object.values(content)[0]?.schema : undefined;
+}
+
+/**
+ * Record for every component schema whether it is reachable from a request
+ * (body or parameter) or a response
+ */
+function collectUsage(spec: OpenApiSpec, usage: Map<string, Usage>): void {
+	const schemas = spec.components?.schemas ?? {};
+	const mark = (
+		schema: OpenApiSchema | undefined,
+		direction: keyof Usage,
+	): void => {
+		if (!schema) return;
+		if (schema.$ref) {
+			const name = schema.$ref.replace(SCHEMA_REF_PREFIX, '');
+			const current = usage.get(name) ?? {request: false, response: false};
+			if (current[direction]) return;
+			usage.set(name, {...current, [direction]: true});
+			mark(schemas[name], direction);
+			return;
+		}
+
+		mark(schema.items, direction);
+		for (const property of Object.values(schema.properties ?? {})) {
+			mark(property, direction);
+		}
+	};
+
+	for (const operation of Object.values(listOperations(spec))) {
+		for (const parameter of operation.parameters ?? []) {
+			mark(parameter.schema, 'request');
+		}
+
+		mark(getContentSchema(operation.requestBody?.content), 'request');
+		for (const response of Object.values(operation.responses ?? {})) {
+			mark(getContentSchema(response.content), 'response');
+		}
+	}
+}
+
+function unionKeys(...records: Array<Record<string, unknown>>): string[] {
+	return [...new Set(records.flatMap((record) => Object.keys(record)))];
+}
@@ -0,0 +1,275 @@
+/**
+ * Record-and-replay of ZEFIX HTTP traffic through `customFetch`
+ */
+
+import {stableStringify} from '../utils/request-key';
+
+/**
+ * - `record`: forward every request and store the request/response pair
+ * - `replay`: answer from the stored pairs only, without network access
+ * - `passthrough`: forward every request without storing anything
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * A stored request/response pair
+ */
+export type CassetteInteraction = {
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		body?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+	};
+};
+
+/**
+ * Contents of a cassette file
+ */
+export type CassetteFile = {
+	version: 1;
+	interactions: CassetteInteraction[];
+};
+
+export type CassetteOptions = {
+	mode: CassetteMode;
+	/**
+	 * Interactions to replay, e.g. from a cassette file bundled with the tests
+	 */
+	interactions?: CassetteInteraction[];
+	/**
+	 * Fetch implementation used in `record` and `passthrough` modes
+	 * @default globalThis.fetch
+	 */
+	fetch?: typeof fetch;
+	/**
+	 * Request headers whose values are replaced by `[REDACTED]` when recording
+	 * @default ['authorization']
+	 */
+	redactHeaders?: string[];
+};
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Thrown in `replay` mode for a request without a recorded interaction.
+ * Through a client, it surfaces as the `cause` of a `ZefixNetworkError`.
+ */
+export class CassetteMissError extends Error {
+	override name = 'CassetteMissError';
+
+	constructor(
+		/** Method, URL and normalized body of the unmatched request */
+		public readonly key: string,
+		/** Keys of all recorded interactions */
+		public readonly recordedKeys: string[],
+	) {
+		super(
+			`No cassette interaction matches ${key} (${recordedKeys.length} recorded${
+				recordedKeys.length > 0
+					? `: ${recordedKeys.slice(0, 5).join('; ')}${recordedKeys.length > 5 ? '; ...' : ''}`
+					: ''
+			})`,
+		);
+	}
+}
+
+/**
+ * Records ZEFIX responses once and replays them without network access,
+ * e.g. in CI. Requests match on method, URL and normalized JSON body;
+ * repeated requests replay their recordings in order, then the last one.
+ *
+ * @example
+ * ```typescript
+ * const cassette = await Cassette.open('test/cassettes/search.json', {
+ *   mode: process.env.ZEFIX_RECORD ? 'record' : 'replay',
+ * });
+ * const zefix = new ZefixApiClient({auth, customFetch: cassette.fetch});
+ * // ... run the test ...
+ * await cassette.save(); // writes the file in record mode only
+ * ```
+ */
+export class Cassette {
+	/**
+	 * Create a cassette backed by a JSON file (Node.js only). In `replay`
+	 * mode the file must exist; in `record` mode it is overwritten on save.
+	 */
+	static async open(
+		path: string,
+		options: Omit<CassetteOptions, 'interactions'>,
+	): Promise<Cassette> {
+		let interactions: CassetteInteraction[] = [];
+		if (options.mode === 'replay') {
+			const {readFile} = await import('node:fs/promises');
+			const file = JSON.parse(await readFile(path, 'utf8')) as CassetteFile;
+			interactions = file.interactions;
+		}
+
+		const cassette = new Cassette({...options, interactions});
+		cassette.path = path;
+		return cassette;
+	}
+
+	public readonly mode: CassetteMode;
+
+	/**
+	 * Recorded interactions, or the ones being replayed
+	 */
+	public readonly interactions: CassetteInteraction[];
+
+	private path?: string;
+	private readonly upstream: typeof fetch;
+	private readonly redactHeaders: Set<string>;
+	private readonly replayed = new Map<string, number>();
+
+	constructor(options: CassetteOptions) {
+		this.mode = options.mode;
+		this.interactions = [...(options.interactions ?? [])];
+		this.upstream =
+			options.fetch ?? (async (input, init) => globalThis.fetch(input, init));
+		this.redactHeaders = new Set(
+			(options.redactHeaders ?? ['authorization']).map((name) =>
+				name.toLowerCase(),
+			),
+		);
+	}
+
+	/**
+	 * Fetch implementation to pass as `customFetch`
+	 */
+	public readonly fetch: typeof fetch = async (input, init) => {
+		const request = new Request(input, init);
+		switch (this.mode) {
+			case 'passthrough': {
+				return this.upstream(request);
+			}
+
+			case 'record': {
+				return this.record(request);
+			}
+
+			case 'replay': {
+				return this.replay(request);
+			}
+		}
+	};
+
+	/**
+	 * The cassette contents, as written by {@link save}
+	 */
+	toJSON(): CassetteFile {
+		return {version: 1, interactions: this.interactions};
+	}
+
+	/**
+	 * Write the recorded interactions to the cassette file (Node.js only).
+	 * Does nothing outside `record` mode.
+	 *
+	 * @param path - Target file, by default the one passed to {@link open}
+	 */
+	async save(path = this.path): Promise<void> {
+		if (this.mode !== 'record') return;
+		if (!path) throw new Error('Cassette.save: no file path given');
+
+		const {mkdir, writeFile} = await import('node:fs/promises');
+		const directory = path.replace(/[/\\][^/\\]*$/, '');
+		if (directory && directory !== path) {
+			await mkdir(directory, {recursive: true});
+		}
+
+		await writeFile(path, `${JSON.stringify(this.toJSON(), undefined, 2)}\n`);
+	}
+
+	private async record(request: Request): Promise<Response> {
+		const body = request.body ? await request.clone().text() : undefined;
+		const response = await this.upstream(request);
+
+		this.interactions.push({
+			request: {
+				method: request.method,
+				url: request.url,
+				headers: this.redact(request.headers),
+				...(body ? {body} : {}),
+			},
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: Object.fromEntries(response.headers),
+				body: await response.clone().text(),
+			},
+		});
+
+		return response;
+	}
+
+	private async replay(request: Request): Promise<Response> {
+		const body = request.body ? await request.text() : undefined;
+		const key = toInteractionKey(request.method, request.url, body);
+		const matches = this.interactions.filter(
+			(interaction) =>
+				toInteractionKey(
+					interaction.request.method,
+					interaction.request.url,
+					interaction.request.body,
+				) === key,
+		);
+
+		if (matches.length === 0) {
+			throw new CassetteMissError(
+				key,
+				this.interactions.map(({request: recorded}) =>
+					toInteractionKey(recorded.method, recorded.url, recorded.body),
+				),
+			);
+		}
+
+		const index = this.replayed.get(key) ?? 0;
+		this.replayed.set(key, index + 1);
+		const {response} = matches[Math.min(index, matches.length - 1)];
+
+		// The Response constructor rejects bodies for null-body statuses
+		const hasBody =
+			response.body !== '' && ![204, 205, 304].includes(response.status);
+		return new Response(hasBody ? response.body : undefined, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	}
+
+	private redact(headers: Headers): Record<string, string> {
+		return Object.fromEntries(
+			[...headers].map(([name, value]) => [
+				name,
+				this.redactHeaders.has(name.toLowerCase()) ? REDACTED : value,
+			]),
+		);
+	}
+}
+
+/**
+ * Identify a request by method, URL and body, with JSON bodies normalized
+ * so that key order and whitespace do not matter
+ */
+function toInteractionKey(
+	method: string,
+	url: string,
+	body: string | undefined,
+): string {
+	let key = `${method.toUpperCase()} ${new URL(url).href}`;
+	if (body) {
+		try {
+			key += ` ${stableStringify(JSON.parse(body))}`;
+		} catch {
+			key += ` ${body}`;
+		}
+	}
+
+	return key;
+}
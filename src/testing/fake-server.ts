@@ -0,0 +1,377 @@
+/**
+ * In-memory fake of the Zefix PublicREST API, for offline tests
+ */
+
+import type {
+	CompanyFull,
+	CompanySearchQuery,
+	ErrorDetails,
+	SogcPublicationAndCompanyShort,
+} from '../generated/types.gen';
+import {normalizeUid} from '../uid';
+import {toBase64} from '../utils/node-or-worker';
+import {getApiPath} from '../utils/request-key';
+import {createSeedDataset, type FakeZefixDataset, toCompanyShort} from './seed';
+
+/**
+ * Credentials the fake server accepts unless configured otherwise
+ */
+export const FAKE_ZEFIX_CREDENTIALS = {
+	username: 'zefix-test',
+	password: 'zefix-test',
+} as const;
+
+export type FakeZefixServerOptions = {
+	/**
+	 * Records to serve; missing collections fall back to the seed dataset
+	 * @default createSeedDataset()
+	 */
+	data?: Partial<FakeZefixDataset>;
+	/**
+	 * Basic-auth credentials every request must carry; `false` disables the check
+	 * @default FAKE_ZEFIX_CREDENTIALS
+	 */
+	credentials?: {username: string; password: string} | false;
+	/**
+	 * Searches matching more companies than this answer RESULTLIST_TO_LARGE
+	 * @default 500
+	 */
+	maxSearchResults?: number;
+};
+
+/**
+ * A request received by the fake server
+ */
+export type FakeZefixRequest = {
+	method: string;
+	/** Path relative to `/api/v1/`, e.g. `company/uid/CHE101000026` */
+	path: string;
+	body?: unknown;
+};
+
+type Route = {
+	method: 'GET' | 'POST';
+	pattern: RegExp;
+	handle: (params: string[], body: unknown) => Response;
+};
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * In-memory implementation of all ten Zefix endpoints on a seeded dataset.
+ * Plug it into a client through `customFetch`:
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeZefixServer();
+ * const zefix = new ZefixApiClient({
+ *   auth: FAKE_ZEFIX_CREDENTIALS,
+ *   customFetch: server.fetch,
+ * });
+ * ```
+ */
+export class FakeZefixServer {
+	/**
+	 * The records served, mutable between requests
+	 */
+	public readonly data: FakeZefixDataset;
+
+	/**
+	 * Every request received, in order
+	 */
+	public readonly requests: FakeZefixRequest[] = [];
+
+	private readonly expectedAuthorization?: string;
+	private readonly maxSearchResults: number;
+	private readonly routes: Route[];
+
+	constructor(options: FakeZefixServerOptions = {}) {
+		this.data = {...createSeedDataset(), ...options.data};
+		const credentials = options.credentials ?? FAKE_ZEFIX_CREDENTIALS;
+		this.expectedAuthorization = credentials
+			? `Basic ${toBase64(`${credentials.username}:${credentials.password}`)}`
+			: undefined;
+		this.maxSearchResults = options.maxSearchResults ?? 500;
+
+		this.routes = [
+			{
+				method: 'POST',
+				pattern: /^company\/search$/,
+				handle: (_params, body) => this.search(body),
+			},
+			{
+				method: 'GET',
+				pattern: /^company\/uid\/([^/]+)$/,
+				handle: ([id]) => this.companyByUid(id),
+			},
+			{
+				method: 'GET',
+				pattern: /^company\/ehraid\/([^/]+)$/,
+				handle: ([id]) => this.companyByEhraid(id),
+			},
+			{
+				method: 'GET',
+				pattern: /^company\/chid\/([^/]+)$/,
+				handle: ([id]) => this.companyByChid(id),
+			},
+			{
+				method: 'GET',
+				pattern: /^sogc\/bydate\/([^/]+)$/,
+				handle: ([date]) => this.sogcByDate(date),
+			},
+			{
+				method: 'GET',
+				pattern: /^sogc\/([^/]+)$/,
+				handle: ([id]) => this.sogcById(id),
+			},
+			{
+				method: 'GET',
+				pattern: /^legalForm$/,
+				handle: () => Response.json(this.data.legalForms),
+			},
+			{
+				method: 'GET',
+				pattern: /^community$/,
+				handle: () => Response.json(this.data.communities),
+			},
+			{
+				method: 'GET',
+				pattern: /^registryOfCommerce$/,
+				handle: () => Response.json(this.data.registries),
+			},
+			{
+				method: 'GET',
+				pattern: /^registryOfCommerce\/byBfsCommunityId\/([^/]+)$/,
+				handle: ([id]) => this.registryByBfsCommunityId(id),
+			},
+		];
+	}
+
+	/**
+	 * Fetch implementation to pass as `customFetch`
+	 */
+	public readonly fetch: typeof fetch = async (input, init) =>
+		this.handle(new Request(input, init));
+
+	/**
+	 * Answer a request the way Zefix would
+	 */
+	async handle(request: Request): Promise<Response> {
+		const path = getApiPath(request.url);
+		const body = await readJson(request);
+		this.requests.push({
+			method: request.method,
+			path: path ?? new URL(request.url).pathname,
+			...(body === undefined ? {} : {body}),
+		});
+
+		if (
+			this.expectedAuthorization &&
+			request.headers.get('Authorization') !== this.expectedAuthorization
+		) {
+			return new Response(undefined, {
+				status: 401,
+				headers: {'WWW-Authenticate': 'Basic realm="Zefix"'},
+			});
+		}
+
+		if (path === undefined) return notFound('Unknown path');
+
+		for (const route of this.routes) {
+			const match = route.pattern.exec(path);
+			if (!match) continue;
+			if (route.method !== request.method) {
+				return new Response(undefined, {
+					status: 405,
+					headers: {Allow: route.method},
+				});
+			}
+
+			return route.handle(match.slice(1), body);
+		}
+
+		return notFound('Unknown path');
+	}
+
+	private search(body: unknown): Response {
+		if (typeof body !== 'object' || body === null) {
+			return invalidRequest('Request body must be a JSON object');
+		}
+
+		const query = body as CompanySearchQuery;
+		if (typeof query.name !== 'string' || query.name.length < 3) {
+			return invalidRequest('name must have at least 3 characters');
+		}
+
+		if (query.name.replaceAll('*', '').trim() === '') {
+			return errorResponse(
+				400,
+				'INVALID_QUERY_WORDS',
+				'name must contain searchable words',
+			);
+		}
+
+		const locationFilters = [
+			query.canton,
+			query.registryOfCommerceId,
+			query.legalSeatId,
+		].filter((value) => value !== undefined);
+		if (locationFilters.length > 1) {
+			return invalidRequest(
+				'canton, registryOfCommerceId and legalSeatId are mutually exclusive',
+			);
+		}
+
+		const namePattern = toNamePattern(query.name);
+		const matches = this.data.companies.filter(
+			(company) =>
+				namePattern.test(company.name ?? '') &&
+				(query.canton === undefined ||
+					company.canton?.toUpperCase() === query.canton.toUpperCase()) &&
+				(query.registryOfCommerceId === undefined ||
+					company.registryOfCommerceId === query.registryOfCommerceId) &&
+				(query.legalSeatId === undefined ||
+					company.legalSeatId === query.legalSeatId) &&
+				(query.legalFormId === undefined ||
+					company.legalForm?.id === query.legalFormId) &&
+				(query.legalFormUid === undefined ||
+					company.legalForm?.uid === query.legalFormUid) &&
+				(!query.activeOnly || company.status !== 'CANCELLED'),
+		);
+
+		if (matches.length > this.maxSearchResults) {
+			return errorResponse(
+				400,
+				'RESULTLIST_TO_LARGE',
+				`More than ${this.maxSearchResults} companies match the query`,
+			);
+		}
+
+		if (matches.length === 0) return notFound('No companies found');
+		return Response.json(matches.map((company) => toCompanyShort(company)));
+	}
+
+	private companyByUid(id: string): Response {
+		const core = normalizeUid(id);
+		if (!core) return invalidRequest(`Invalid UID: ${id}`);
+
+		const matches = this.data.companies.filter(
+			(company) => company.uid && normalizeUid(company.uid) === core,
+		);
+		return matches.length > 0
+			? Response.json(matches)
+			: notFound(`No company with UID ${id}`);
+	}
+
+	private companyByEhraid(id: string): Response {
+		if (!/^\d+$/.test(id)) return invalidRequest(`Invalid EHRA-ID: ${id}`);
+
+		const company = this.data.companies.find(
+			(candidate) => candidate.ehraid === Number(id),
+		);
+		return company
+			? Response.json(company)
+			: notFound(`No company with EHRA-ID ${id}`);
+	}
+
+	private companyByChid(id: string): Response {
+		const chid = id.replaceAll(/[.-]/g, '').toUpperCase();
+		if (!/^CH\d{11}$/.test(chid)) return invalidRequest(`Invalid CH-ID: ${id}`);
+
+		const matches = this.data.companies.filter(
+			(company) => company.chid?.replaceAll(/[.-]/g, '').toUpperCase() === chid,
+		);
+		return matches.length > 0
+			? Response.json(matches)
+			: notFound(`No company with CH-ID ${id}`);
+	}
+
+	private sogcById(id: string): Response {
+		if (!/^\d+$/.test(id)) return invalidRequest(`Invalid SOGC-ID: ${id}`);
+
+		const publication = this.publications().find(
+			({sogcPublication}) => sogcPublication?.sogcId === Number(id),
+		);
+		return publication
+			? Response.json(publication)
+			: notFound(`No publication with SOGC-ID ${id}`);
+	}
+
+	private sogcByDate(date: string): Response {
+		if (!ISO_DATE_RE.test(date) || Number.isNaN(Date.parse(date))) {
+			return invalidRequest(`Invalid date: ${date}`);
+		}
+
+		const publications = this.publications().filter(
+			({sogcPublication}) => sogcPublication?.sogcDate === date,
+		);
+		return publications.length > 0
+			? Response.json(publications)
+			: notFound(`No publications on ${date}`);
+	}
+
+	private registryByBfsCommunityId(id: string): Response {
+		if (!/^\d+$/.test(id)) return invalidRequest(`Invalid bfsId: ${id}`);
+
+		const community = this.data.communities.find(
+			(candidate) => candidate.bfsId === Number(id),
+		);
+		const registry = this.data.registries.find(
+			(candidate) =>
+				community !== undefined &&
+				candidate.registryOfCommerceId === community.registryOfCommerceId,
+		);
+		return registry
+			? Response.json(registry)
+			: notFound(`No registry for bfsId ${id}`);
+	}
+
+	/**
+	 * All SOGC publications of the dataset with their company
+	 */
+	private publications(): SogcPublicationAndCompanyShort[] {
+		return this.data.companies.flatMap((company: CompanyFull) =>
+			(company.sogcPub ?? []).map((sogcPublication) => ({
+				sogcPublication,
+				companyShort: toCompanyShort(company),
+			})),
+		);
+	}
+}
+
+/**
+ * Match names from their beginning, with `*` as wildcard, ignoring case
+ */
+function toNamePattern(name: string): RegExp {
+	const source = name
+		.split('*')
+		.map((part) => part.replaceAll(/[.+?^${}()|[\]\\]/g, String.raw`\$&`))
+		.join('.*');
+	return new RegExp(`^${source}`, 'i');
+}
+
+async function readJson(request: Request): Promise<unknown> {
+	const text = await request.text();
+	if (!text) return undefined;
+	try {
+		return JSON.parse(text) as unknown;
+	} catch {
+		return text;
+	}
+}
+
+function errorResponse(
+	status: number,
+	type: NonNullable<ErrorDetails['type']>,
+	message: string,
+): Response {
+	return Response.json({error: {type, message}}, {status});
+}
+
+function invalidRequest(message: string): Response {
+	return errorResponse(400, 'INVALID_REQUEST_DATA', message);
+}
+
+function notFound(message: string): Response {
+	return errorResponse(404, 'NOT_FOUND', message);
+}
@@ -0,0 +1,1030 @@
+/**
+ * Deterministic fixture factories for ZEFIX API records.
+ *
+ * All records are fictitious, but internally consistent: UIDs carry valid
+ * check digits, legal seats match their canton and registry, SOGC histories
+ * describe the company's status, and branch offices point at their head
+ * office. The same seed always produces the same records.
+ */
+
+import type {
+	Address,
+	BfsCommunity,
+	CompanyFull,
+	CompanyShort,
+	LegalForm,
+	RegistryOfCommerce,
+	SogcPublication,
+	SogcPublicationAndCompanyShort,
+} from '../generated/types.gen';
+import {buildCantonalExcerptUrl} from '../registry';
+import {computeUidCheckDigit, formatUid} from '../uid';
+import {
+	getDefaultLanguageForCanton,
+	SWISS_CANTONS,
+	type SwissCanton,
+} from '../utils/type-guards';
+import {type FakeZefixDataset, legalForms, toCompanyShort} from './seed';
+
+type Language = 'de' | 'fr' | 'it';
+
+type CantonRegistry = {
+	registryOfCommerceId: number;
+	name: string;
+	/** Legal seats as [bfsId, name, swissZipCode] */
+	seats: Array<[number, string, string]>;
+};
+
+type Seat = {
+	bfsId: number;
+	name: string;
+	swissZipCode: string;
+	canton: SwissCanton;
+	registryOfCommerceId: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 1995-01-01 and 2020-12-31, the range of generated founding dates */
+const FIRST_FOUNDING_DAY = 9131;
+const LAST_FOUNDING_DAY = 18_627;
+
+const CANTON_REGISTRIES: Record<SwissCanton, CantonRegistry> = {
+	AG: {
+		registryOfCommerceId: 400,
+		name: 'Handelsregisteramt des Kantons Aargau',
+		seats: [
+			[4001, 'Aarau', '5000'],
+			[4021, 'Baden', '5400'],
+		],
+	},
+	AI: {
+		registryOfCommerceId: 310,
+		name: 'Handelsregisteramt des Kantons Appenzell I.Rh.',
+		seats: [[3101, 'Appenzell', '9050']],
+	},
+	AR: {
+		registryOfCommerceId: 300,
+		name: 'Handelsregisteramt des Kantons Appenzell A.Rh.',
+		seats: [[3001, 'Herisau', '9100']],
+	},
+	BE: {
+		registryOfCommerceId: 36,
+		name: 'Handelsregisteramt des Kantons Bern',
+		seats: [
+			[351, 'Bern', '3011'],
+			[623, 'Rubigen', '3113'],
+			[371, 'Biel/Bienne', '2502'],
+		],
+	},
+	BL: {
+		registryOfCommerceId: 280,
+		name: 'Handelsregisteramt des Kantons Basel-Landschaft',
+		seats: [[2829, 'Liestal', '4410']],
+	},
+	BS: {
+		registryOfCommerceId: 270,
+		name: 'Handelsregisteramt des Kantons Basel-Stadt',
+		seats: [[2701, 'Basel', '4051']],
+	},
+	FR: {
+		registryOfCommerceId: 217,
+		name: 'Registre du commerce du canton de Fribourg',
+		seats: [[2196, 'Fribourg', '1700']],
+	},
+	GE: {
+		registryOfCommerceId: 660,
+		name: 'Registre du commerce de Genève',
+		seats: [
+			[6621, 'Genève', '1204'],
+			[6643, 'Carouge', '1227'],
+		],
+	},
+	GL: {
+		registryOfCommerceId: 160,
+		name: 'Handelsregisteramt des Kantons Glarus',
+		seats: [[1632, 'Glarus', '8750']],
+	},
+	GR: {
+		registryOfCommerceId: 350,
+		name: 'Handelsregisteramt des Kantons Graubünden',
+		seats: [[3901, 'Chur', '7000']],
+	},
+	JU: {
+		registryOfCommerceId: 670,
+		name: 'Registre du commerce du canton du Jura',
+		seats: [[6711, 'Delémont', '2800']],
+	},
+	LU: {
+		registryOfCommerceId: 100,
+		name: 'Handelsregisteramt des Kantons Luzern',
+		seats: [[1061, 'Luzern', '6003']],
+	},
+	NE: {
+		registryOfCommerceId: 645,
+		name: 'Registre du commerce du canton de Neuchâtel',
+		seats: [[6458, 'Neuchâtel', '2000']],
+	},
+	NW: {
+		registryOfCommerceId: 150,
+		name: 'Handelsregisteramt des Kantons Nidwalden',
+		seats: [[1509, 'Stans', '6370']],
+	},
+	OW: {
+		registryOfCommerceId: 140,
+		name: 'Handelsregisteramt des Kantons Obwalden',
+		seats: [[1407, 'Sarnen', '6060']],
+	},
+	SG: {
+		registryOfCommerceId: 320,
+		name: 'Handelsregisteramt des Kantons St. Gallen',
+		seats: [[3203, 'St. Gallen', '9000']],
+	},
+	SH: {
+		registryOfCommerceId: 290,
+		name: 'Handelsregisteramt des Kantons Schaffhausen',
+		seats: [[2939, 'Schaffhausen', '8200']],
+	},
+	SO: {
+		registryOfCommerceId: 241,
+		name: 'Handelsregisteramt des Kantons Solothurn',
+		seats: [[2601, 'Solothurn', '4500']],
+	},
+	SZ: {
+		registryOfCommerceId: 130,
+		name: 'Handelsregisteramt des Kantons Schwyz',
+		seats: [[1372, 'Schwyz', '6430']],
+	},
+	TG: {
+		registryOfCommerceId: 440,
+		name: 'Handelsregisteramt des Kantons Thurgau',
+		seats: [[4566, 'Frauenfeld', '8500']],
+	},
+	TI: {
+		registryOfCommerceId: 501,
+		name: 'Ufficio del registro di commercio del Cantone Ticino',
+		seats: [
+			[5192, 'Lugano', '6900'],
+			[5002, 'Bellinzona', '6500'],
+		],
+	},
+	UR: {
+		registryOfCommerceId: 120,
+		name: 'Handelsregisteramt des Kantons Uri',
+		seats: [[1201, 'Altdorf (UR)', '6460']],
+	},
+	VD: {
+		registryOfCommerceId: 550,
+		name: 'Registre du commerce du canton de Vaud',
+		seats: [
+			[5586, 'Lausanne', '1003'],
+			[5886, 'Montreux', '1820'],
+		],
+	},
+	VS: {
+		registryOfCommerceId: 600,
+		name: 'Registre du commerce du canton du Valais',
+		seats: [[6266, 'Sion', '1950']],
+	},
+	ZG: {
+		registryOfCommerceId: 170,
+		name: 'Handelsregisteramt des Kantons Zug',
+		seats: [[1711, 'Zug', '6300']],
+	},
+	ZH: {
+		registryOfCommerceId: 20,
+		name: 'Handelsregisteramt des Kantons Zürich',
+		seats: [
+			[261, 'Zürich', '8001'],
+			[230, 'Winterthur', '8400'],
+		],
+	},
+};
+
+const SEATS: Seat[] = SWISS_CANTONS.flatMap((canton) => {
+	const {registryOfCommerceId, seats} = CANTON_REGISTRIES[canton];
+	return seats.map(([bfsId, name, swissZipCode]) => ({
+		bfsId,
+		name,
+		swissZipCode,
+		canton,
+		registryOfCommerceId,
+	}));
+});
+
+/** Legal form IDs with their relative frequency among generated companies */
+const LEGAL_FORM_WEIGHTS: Array<[number, number]> = [
+	[4, 40],
+	[3, 35],
+	[1, 15],
+	[5, 5],
+	[7, 5],
+];
+
+const SOLE_PROPRIETORSHIP = 1;
+const COMPANY_LIMITED_BY_SHARES = 3;
+const LIMITED_LIABILITY_COMPANY = 4;
+const COOPERATIVE = 5;
+const FOUNDATION = 7;
+const BRANCH = 9;
+
+const MUTATION_TYPES = {
+	neueintragung: 2,
+	aenderungzweck: 4,
+	aenderungdomizil: 5,
+	aufloesung: 6,
+	loeschung: 7,
+} as const;
+
+type MutationKey = keyof typeof MUTATION_TYPES;
+
+/**
+ * What a company's generated SOGC history is based on
+ */
+type CompanyProfile = {
+	seat: Seat;
+	language: Language;
+	legalForm: LegalForm;
+	status: NonNullable<CompanyFull['status']>;
+	liquidates: boolean;
+	/** Name before liquidation */
+	baseName: string;
+	/** Current name */
+	name: string;
+	uid: string;
+	capital?: number;
+	headOffice?: CompanyFull;
+};
+
+const WORDS: Record<
+	Language,
+	{
+		prefixes: string[];
+		trades: string[];
+		surnames: string[];
+		streets: string[];
+		purposes: string[];
+	}
+> = {
+	de: {
+		prefixes: ['Alpen', 'Berg', 'Rhein', 'Sonnen', 'Linden', 'Falken', 'Nord'],
+		trades: ['Technik', 'Handel', 'Bau', 'Treuhand', 'Immobilien', 'Logistik'],
+		surnames: ['Meier', 'Müller', 'Keller', 'Brunner', 'Huber', 'Graf'],
+		streets: ['Bahnhofstrasse', 'Hauptstrasse', 'Dorfstrasse', 'Seestrasse'],
+		purposes: [
+			'Erbringung von Dienstleistungen im Bereich Informatik.',
+			'Handel mit Waren aller Art.',
+			'Planung und Ausführung von Bauarbeiten.',
+			'Erwerb, Verwaltung und Veräusserung von Immobilien.',
+			'Führung eines Gastronomiebetriebs.',
+		],
+	},
+	fr: {
+		prefixes: ['Léman', 'Jura', 'Soleil', 'Horizon', 'Rivage', 'Vigne'],
+		trades: ['Services', 'Conseil', 'Construction', 'Immobilier', 'Gestion'],
+		surnames: ['Favre', 'Rochat', 'Chevalley', 'Dubois', 'Perret', 'Monnier'],
+		streets: ['Rue du Lac', 'Avenue de la Gare', 'Rue Centrale', 'Rue du Midi'],
+		purposes: [
+			'Prestation de services dans le domaine informatique.',
+			'Commerce de marchandises en tous genres.',
+			'Exécution de travaux de construction.',
+			'Acquisition, gestion et vente de biens immobiliers.',
+			'Exploitation d’un établissement public.',
+		],
+	},
+	it: {
+		prefixes: ['Ceresio', 'Verbano', 'Gottardo', 'Castagno', 'Sole', 'Monte'],
+		trades: ['Servizi', 'Consulenza', 'Costruzioni', 'Immobiliare', 'Gestioni'],
+		surnames: ['Bernasconi', 'Rossi', 'Pedrazzini', 'Galli', 'Ferrari'],
+		streets: [
+			'Via Cantonale',
+			'Via della Posta',
+			'Via San Gottardo',
+			'Via Nassa',
+		],
+		purposes: [
+			'Prestazione di servizi nel settore informatico.',
+			'Commercio di merci di ogni genere.',
+			'Esecuzione di lavori edili.',
+			'Acquisto, gestione e vendita di immobili.',
+			'Gestione di un esercizio pubblico.',
+		],
+	},
+};
+
+const PHRASES: Record<
+	Language,
+	{
+		in: string;
+		liquidation: string;
+		branch: string;
+		headOffice: string;
+		mutations: Record<MutationKey, string>;
+		purpose: string;
+		newPurpose: string;
+		newAddress: string;
+		shareCapital: string;
+		capitalStock: string;
+		dissolution: string;
+		liquidationDone: string;
+		deletion: string;
+		reference: (sogcId: number, date: string) => string;
+	}
+> = {
+	de: {
+		in: 'in',
+		liquidation: 'in Liquidation',
+		branch: 'Zweigniederlassung',
+		headOffice: 'Hauptsitz in',
+		mutations: {
+			neueintragung: 'Neueintragung',
+			aenderungzweck: 'Zweckänderung',
+			aenderungdomizil: 'Domiziländerung',
+			aufloesung: 'Auflösung',
+			loeschung: 'Löschung',
+		},
+		purpose: 'Zweck',
+		newPurpose: 'Zweck neu',
+		newAddress: 'Domizil neu',
+		shareCapital: 'Aktienkapital',
+		capitalStock: 'Stammkapital',
+		dissolution:
+			'Die Gesellschaft ist durch Beschluss der Generalversammlung vom # aufgelöst.',
+		liquidationDone:
+			'Die Liquidation ist beendet. Die Gesellschaft wird gelöscht.',
+		deletion: 'Die Eintragung wird gelöscht.',
+		reference: (sogcId, date) => `SHAB Nr. ${sogcId} vom ${date}`,
+	},
+	fr: {
+		in: 'à',
+		liquidation: 'en liquidation',
+		branch: 'succursale de',
+		headOffice: 'Siège principal à',
+		mutations: {
+			neueintragung: 'Nouvelle inscription',
+			aenderungzweck: 'Modification du but',
+			aenderungdomizil: 'Modification de l’adresse',
+			aufloesung: 'Dissolution',
+			loeschung: 'Radiation',
+		},
+		purpose: 'But',
+		newPurpose: 'Nouveau but',
+		newAddress: 'Nouvelle adresse',
+		shareCapital: 'Capital-actions',
+		capitalStock: 'Capital social',
+		dissolution:
+			'La société est dissoute par décision de l’assemblée générale du #.',
+		liquidationDone: 'La liquidation étant terminée, la société est radiée.',
+		deletion: 'L’inscription est radiée.',
+		reference: (sogcId, date) => `FOSC no ${sogcId} du ${date}`,
+	},
+	it: {
+		in: 'in',
+		liquidation: 'in liquidazione',
+		branch: 'succursale di',
+		headOffice: 'Sede principale a',
+		mutations: {
+			neueintragung: 'Nuova iscrizione',
+			aenderungzweck: 'Modifica dello scopo',
+			aenderungdomizil: 'Modifica del recapito',
+			aufloesung: 'Scioglimento',
+			loeschung: 'Cancellazione',
+		},
+		purpose: 'Scopo',
+		newPurpose: 'Nuovo scopo',
+		newAddress: 'Nuovo recapito',
+		shareCapital: 'Capitale azionario',
+		capitalStock: 'Capitale sociale',
+		dissolution:
+			'La società è sciolta per decisione dell’assemblea generale del #.',
+		liquidationDone: 'La liquidazione è terminata. La società è cancellata.',
+		deletion: 'L’iscrizione è cancellata.',
+		reference: (sogcId, date) => `FUSC n. ${sogcId} del ${date}`,
+	},
+};
+
+/**
+ * Overrides for {@link ZefixFixtures.makeCompanyFull}. `canton`,
+ * `legalSeatId` and `registryOfCommerceId` pick a matching legal seat, and
+ * `name`, `uid`, `legalForm` and `status` are reflected in the generated
+ * SOGC history. All other fields replace the generated values as given.
+ */
+export type CompanyFixtureOverrides = Partial<CompanyFull>;
+
+/**
+ * Overrides for {@link ZefixFixtures.makeSogcPublicationAndCompanyShort}
+ */
+export type SogcFixtureOverrides = {
+	sogcPublication?: Partial<SogcPublication>;
+	company?: CompanyFixtureOverrides;
+};
+
+/**
+ * Seedable factories for consistent ZEFIX records
+ *
+ * @example
+ * ```typescript
+ * const fixtures = new ZefixFixtures(42);
+ * const company = fixtures.makeCompanyFull({canton: 'VD'});
+ * const branch = fixtures.makeBranchOffice(company, {canton: 'GE'});
+ * ```
+ */
+export class ZefixFixtures {
+	private readonly random: () => number;
+	private readonly uids = new Set<string>();
+	private nextEhraid = 1_100_001;
+	private nextSogcId = 1_005_000_001;
+
+	/**
+	 * @param seed - Any integer; the same seed yields the same records
+	 */
+	constructor(seed = 1) {
+		this.random = minstd(seed);
+	}
+
+	/**
+	 * Create a company with a valid UID, a legal seat in its canton and a
+	 * SOGC history matching its status: a founding publication, up to two
+	 * changes, then dissolution and deletion for liquidated companies
+	 */
+	makeCompanyFull(overrides: CompanyFixtureOverrides = {}): CompanyFull {
+		return this.buildCompany(overrides);
+	}
+
+	/**
+	 * Create the `CompanyShort` projection of a new company
+	 */
+	makeCompanyShort(overrides: CompanyFixtureOverrides = {}): CompanyShort {
+		return toCompanyShort(this.makeCompanyFull(overrides));
+	}
+
+	/**
+	 * Create a branch office of a company, registered after it and listing it
+	 * as head office. Branches of deleted companies are deleted too. The
+	 * branch is also appended to the head office's `branchOffices`.
+	 */
+	makeBranchOffice(
+		headOffice: CompanyFull,
+		overrides: CompanyFixtureOverrides = {},
+	): CompanyFull {
+		const branch = this.buildCompany(
+			{
+				legalForm: this.makeLegalForm({id: BRANCH}),
+				status: headOffice.status === 'CANCELLED' ? 'CANCELLED' : 'ACTIVE',
+				...overrides,
+			},
+			headOffice,
+		);
+		headOffice.branchOffices = [
+			...(headOffice.branchOffices ?? []),
+			toCompanyShort(branch),
+		];
+		return branch;
+	}
+
+	/**
+	 * Create a SOGC publication: the latest publication of a new company
+	 */
+	makeSogcPublication(
+		overrides: Partial<SogcPublication> = {},
+	): SogcPublication {
+		return this.makeSogcPublicationAndCompanyShort({sogcPublication: overrides})
+			.sogcPublication!;
+	}
+
+	/**
+	 * Create a SOGC publication together with the company it concerns, as
+	 * returned by `getSogcByDate`. The publication is the company's latest.
+	 */
+	makeSogcPublicationAndCompanyShort(
+		overrides: SogcFixtureOverrides = {},
+	): SogcPublicationAndCompanyShort {
+		const company = this.makeCompanyFull(overrides.company);
+		const latest = company.sogcPub?.find(
+			(publication) => publication.sogcDate === company.sogcDate,
+		);
+		return {
+			sogcPublication: {...latest, ...overrides.sogcPublication},
+			companyShort: toCompanyShort(company),
+		};
+	}
+
+	/**
+	 * Pick a legal form from the Zefix list, weighted like the register;
+	 * pass `id` to choose one
+	 */
+	makeLegalForm(overrides: Partial<LegalForm> = {}): LegalForm {
+		const id =
+			overrides.id !== undefined &&
+			legalForms.some((form) => form.id === overrides.id)
+				? overrides.id
+				: this.weighted(LEGAL_FORM_WEIGHTS);
+		return {...structuredClone(findLegalForm(id)), ...overrides};
+	}
+
+	/**
+	 * Pick a political commune; `canton`, `bfsId` or `registryOfCommerceId`
+	 * restrict the choice
+	 */
+	makeBfsCommunity(overrides: Partial<BfsCommunity> = {}): BfsCommunity {
+		const seat = this.pickSeat({
+			canton: overrides.canton,
+			legalSeatId: overrides.bfsId,
+			registryOfCommerceId: overrides.registryOfCommerceId,
+		});
+		return {
+			bfsId: seat.bfsId,
+			canton: seat.canton,
+			name: seat.name,
+			registryOfCommerceId: seat.registryOfCommerceId,
+			...overrides,
+		};
+	}
+
+	/**
+	 * Pick a cantonal registry of commerce; `canton` or
+	 * `registryOfCommerceId` restrict the choice
+	 */
+	makeRegistryOfCommerce(
+		overrides: Partial<RegistryOfCommerce> = {},
+	): RegistryOfCommerce {
+		const seat = this.pickSeat({
+			canton: overrides.canton,
+			registryOfCommerceId: overrides.registryOfCommerceId,
+		});
+		return {...toRegistryOfCommerce(seat.canton), ...overrides};
+	}
+
+	/**
+	 * Create a dataset for `FakeZefixServer`: the given number of companies
+	 * together with all legal forms, communities and registries they refer to
+	 */
+	makeFakeZefixDataset(companies = 10): FakeZefixDataset {
+		return {
+			companies: Array.from({length: companies}, () => this.makeCompanyFull()),
+			legalForms: structuredClone(legalForms),
+			communities: SEATS.map((seat) => ({
+				bfsId: seat.bfsId,
+				canton: seat.canton,
+				name: seat.name,
+				registryOfCommerceId: seat.registryOfCommerceId,
+			})),
+			registries: SWISS_CANTONS.map((canton) => toRegistryOfCommerce(canton)),
+		};
+	}
+
+	private buildCompany(
+		overrides: CompanyFixtureOverrides,
+		headOffice?: CompanyFull,
+	): CompanyFull {
+		const seat = this.pickSeat(overrides, headOffice?.legalSeatId);
+		const language = getDefaultLanguageForCanton(seat.canton) as Language;
+		const legalForm = overrides.legalForm ?? this.makeLegalForm();
+		const status = overrides.status ?? 'ACTIVE';
+		const liquidates =
+			status !== 'ACTIVE' &&
+			legalForm.id !== SOLE_PROPRIETORSHIP &&
+			legalForm.id !== BRANCH;
+
+		const baseName = headOffice
+			? `${headOffice.name ?? ''}, ${PHRASES[language].branch} ${seat.name}`
+			: this.companyName(legalForm, language);
+		const name =
+			overrides.name ??
+			(liquidates ? `${baseName} ${PHRASES[language].liquidation}` : baseName);
+		const ehraid = overrides.ehraid ?? this.nextEhraid++;
+		const capital = this.capitalFor(legalForm);
+		const history = this.buildHistory({
+			seat,
+			language,
+			legalForm,
+			status,
+			liquidates,
+			baseName,
+			name,
+			uid: overrides.uid ?? this.nextUid(),
+			capital,
+			headOffice,
+		});
+
+		const company: CompanyFull = {
+			name,
+			ehraid,
+			uid: history.uid,
+			chid: `CH${String(seat.registryOfCommerceId).padStart(3, '0')}${(legalForm.id ?? 0) % 10}${String(ehraid % 1_000_000).padStart(6, '0')}${ehraid % 10}`,
+			legalSeatId: seat.bfsId,
+			legalSeat: seat.name,
+			registryOfCommerceId: seat.registryOfCommerceId,
+			legalForm,
+			status,
+			sogcDate: history.sogcDate,
+			...(history.deletionDate ? {deletionDate: history.deletionDate} : {}),
+			purpose: history.purpose,
+			sogcPub: history.sogcPub,
+			address: history.address,
+			canton: seat.canton,
+			...(capital
+				? {capitalNominal: String(capital), capitalCurrency: 'CHF'}
+				: {}),
+			...(headOffice ? {headOffices: [toCompanyShort(headOffice)]} : {}),
+			...(liquidates && overrides.name === undefined
+				? {oldNames: [{name: baseName, sequenceNr: 1}]}
+				: {}),
+			zefixDetailWeb: {
+				de: `https://www.zefix.ch/de/search/entity/list/firm/${ehraid}`,
+				fr: `https://www.zefix.ch/fr/search/entity/list/firm/${ehraid}`,
+				it: `https://www.zefix.ch/it/search/entity/list/firm/${ehraid}`,
+				en: `https://www.zefix.ch/en/search/entity/list/firm/${ehraid}`,
+			},
+			...overrides,
+		};
+		company.cantonalExcerptWeb ??= buildCantonalExcerptUrl(
+			company,
+			toRegistryOfCommerce(seat.canton),
+		);
+		return company;
+	}
+
+	/**
+	 * Generate the SOGC publications of a company, from its founding to its
+	 * current status, along with the purpose and address they leave behind
+	 */
+	private buildHistory(profile: CompanyProfile) {
+		const {seat, language, legalForm, uid, headOffice} = profile;
+		const words = WORDS[language];
+		const phrases = PHRASES[language];
+		let purpose = headOffice?.purpose ?? this.pick(words.purposes);
+		let address = {
+			street: this.pick(words.streets),
+			houseNumber: String(this.integer(1, 120)),
+			swissZipCode: seat.swissZipCode,
+			city: seat.name,
+		};
+
+		const founded = headOffice?.sogcPub?.[0]?.sogcDate;
+		let day = nextWeekday(
+			founded
+				? toDayNumber(founded) + this.integer(30, 1500)
+				: this.integer(FIRST_FOUNDING_DAY, LAST_FOUNDING_DAY),
+		);
+		const sogcPub: SogcPublication[] = [];
+		let previous: SogcPublication | undefined;
+		const publish = (key: MutationKey, text: string, name: string) => {
+			const header = [
+				name,
+				`${phrases.in} ${seat.name}`,
+				formatUid(uid),
+				key === 'neueintragung' ? formatAddress(address) : undefined,
+				`${legalFormName(legalForm, language)} (${
+					previous
+						? phrases.reference(
+								previous.sogcId!,
+								toSwissDate(previous.sogcDate!),
+							)
+						: phrases.mutations[key]
+				})`,
+			]
+				.filter(Boolean)
+				.join(', ');
+			previous = {
+				sogcDate: toIsoDate(day),
+				sogcId: this.nextSogcId++,
+				registryOfCommerceId: seat.registryOfCommerceId,
+				registryOfCommerceCanton: seat.canton,
+				registryOfCommerceJournalId: this.integer(1000, 30_000),
+				registryOfCommerceJournalDate: toIsoDate(day - this.integer(3, 6)),
+				message: `${header}. ${text}`,
+				mutationTypes: [{id: MUTATION_TYPES[key], key}],
+			};
+			sogcPub.push(previous);
+			day = nextWeekday(day + this.integer(60, 1500));
+		};
+
+		publish('neueintragung', foundingText(profile, purpose), profile.baseName);
+
+		for (let changes = this.integer(0, 2); changes > 0; changes--) {
+			if (this.random() < 0.5) {
+				const current = purpose;
+				purpose = this.pick(words.purposes.filter((text) => text !== current));
+				publish(
+					'aenderungzweck',
+					`${phrases.newPurpose}: ${purpose}`,
+					profile.baseName,
+				);
+			} else {
+				address = {
+					...address,
+					street: this.pick(words.streets),
+					houseNumber: String(this.integer(1, 120)),
+				};
+				publish(
+					'aenderungdomizil',
+					`${phrases.newAddress}: ${formatAddress(address)}.`,
+					profile.baseName,
+				);
+			}
+		}
+
+		if (profile.liquidates) {
+			publish(
+				'aufloesung',
+				phrases.dissolution.replace('#', toSwissDate(toIsoDate(day - 10))),
+				profile.name,
+			);
+		}
+
+		if (profile.status === 'CANCELLED') {
+			publish(
+				'loeschung',
+				profile.liquidates ? phrases.liquidationDone : phrases.deletion,
+				profile.name,
+			);
+		}
+
+		return {
+			uid,
+			sogcPub,
+			sogcDate: previous?.sogcDate,
+			// The register entry of the deletion, as opposed to its publication
+			deletionDate:
+				profile.status === 'CANCELLED'
+					? previous?.registryOfCommerceJournalDate
+					: undefined,
+			purpose,
+			address,
+		};
+	}
+
+	/**
+	 * Pick a legal seat matching the given location fields, avoiding
+	 * `excludeBfsId` when another seat qualifies
+	 */
+	private pickSeat(
+		location: Pick<
+			CompanyFull,
+			'canton' | 'legalSeatId' | 'registryOfCommerceId'
+		>,
+		excludeBfsId?: number,
+	): Seat {
+		const candidates = SEATS.filter(
+			(seat) =>
+				(location.canton === undefined ||
+					seat.canton === location.canton.toUpperCase()) &&
+				(location.legalSeatId === undefined ||
+					seat.bfsId === location.legalSeatId) &&
+				(location.registryOfCommerceId === undefined ||
+					seat.registryOfCommerceId === location.registryOfCommerceId),
+		);
+		if (candidates.length === 0) {
+			throw new RangeError(
+				`No fixture legal seat matches ${JSON.stringify(location)}`,
+			);
+		}
+
+		const preferred = candidates.filter((seat) => seat.bfsId !== excludeBfsId);
+		return this.pick(preferred.length > 0 ? preferred : candidates);
+	}
+
+	private companyName(legalForm: LegalForm, language: Language): string {
+		const words = WORDS[language];
+		if (legalForm.id === SOLE_PROPRIETORSHIP) {
+			return `${this.pick(words.surnames)} ${this.pick(words.trades)}`;
+		}
+
+		if (legalForm.id === COOPERATIVE || legalForm.id === FOUNDATION) {
+			return `${legalForm.name?.[language] ?? ''} ${this.pick(words.prefixes)}`;
+		}
+
+		return [
+			this.pick(words.prefixes),
+			this.pick(words.trades),
+			legalForm.shortName?.[language],
+		]
+			.filter(Boolean)
+			.join(' ');
+	}
+
+	private capitalFor(legalForm: LegalForm): number | undefined {
+		if (legalForm.id === COMPANY_LIMITED_BY_SHARES) {
+			return this.pick([100_000, 250_000, 500_000, 1_000_000]);
+		}
+
+		if (legalForm.id === LIMITED_LIABILITY_COMPANY) {
+			return this.pick([20_000, 50_000, 100_000]);
+		}
+
+		return undefined;
+	}
+
+	private nextUid(): string {
+		for (;;) {
+			const digits = String(this.integer(10_000_000, 99_999_999));
+			const checkDigit = computeUidCheckDigit(digits);
+			const uid = `CHE${digits}${checkDigit}`;
+			if (checkDigit !== undefined && !this.uids.has(uid)) {
+				this.uids.add(uid);
+				return uid;
+			}
+		}
+	}
+
+	private integer(min: number, max: number): number {
+		return min + Math.floor(this.random() * (max - min + 1));
+	}
+
+	private pick<T>(values: readonly T[]): T {
+		return values[Math.floor(this.random() * values.length)];
+	}
+
+	private weighted(entries: Array<[number, number]>): number {
+		const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+		let threshold = this.random() * total;
+		for (const [value, weight] of entries) {
+			threshold -= weight;
+			if (threshold < 0) return value;
+		}
+
+		return entries[0][0];
+	}
+}
+
+let defaultFixtures = new ZefixFixtures();
+
+/**
+ * Reset the shared factories behind `makeCompanyFull` and friends, e.g. in
+ * `beforeEach`, so that every test sees the same records
+ */
+export function resetFixtures(seed = 1): void {
+	defaultFixtures = new ZefixFixtures(seed);
+}
+
+/**
+ * Create a company with the shared factories. See
+ * {@link ZefixFixtures.makeCompanyFull}.
+ *
+ * @example
+ * makeCompanyFull({canton: 'VD', status: 'CANCELLED'})
+ */
+export function makeCompanyFull(
+	overrides?: CompanyFixtureOverrides,
+): CompanyFull {
+	return defaultFixtures.makeCompanyFull(overrides);
+}
+
+/**
+ * Create a `CompanyShort` with the shared factories
+ */
+export function makeCompanyShort(
+	overrides?: CompanyFixtureOverrides,
+): CompanyShort {
+	return defaultFixtures.makeCompanyShort(overrides);
+}
+
+/**
+ * Create a branch office of a company with the shared factories. See
+ * {@link ZefixFixtures.makeBranchOffice}.
+ */
+export function makeBranchOffice(
+	headOffice: CompanyFull,
+	overrides?: CompanyFixtureOverrides,
+): CompanyFull {
+	return defaultFixtures.makeBranchOffice(headOffice, overrides);
+}
+
+/**
+ * Create a SOGC publication with the shared factories
+ */
+export function makeSogcPublication(
+	overrides?: Partial<SogcPublication>,
+): SogcPublication {
+	return defaultFixtures.makeSogcPublication(overrides);
+}
+
+/**
+ * Create a SOGC publication with its company with the shared factories
+ */
+export function makeSogcPublicationAndCompanyShort(
+	overrides?: SogcFixtureOverrides,
+): SogcPublicationAndCompanyShort {
+	return defaultFixtures.makeSogcPublicationAndCompanyShort(overrides);
+}
+
+/**
+ * Pick a legal form with the shared factories
+ */
+export function makeLegalForm(overrides?: Partial<LegalForm>): LegalForm {
+	return defaultFixtures.makeLegalForm(overrides);
+}
+
+/**
+ * Pick a political commune with the shared factories
+ */
+export function makeBfsCommunity(
+	overrides?: Partial<BfsCommunity>,
+): BfsCommunity {
+	return defaultFixtures.makeBfsCommunity(overrides);
+}
+
+/**
+ * Pick a registry of commerce with the shared factories
+ */
+export function makeRegistryOfCommerce(
+	overrides?: Partial<RegistryOfCommerce>,
+): RegistryOfCommerce {
+	return defaultFixtures.makeRegistryOfCommerce(overrides);
+}
+
+function findLegalForm(id: number): LegalForm {
+	return legalForms.find((form) => form.id === id)!;
+}
+
+function legalFormName(legalForm: LegalForm, language: Language): string {
+	const name = legalForm.name?.[language] ?? '';
+	return language === 'de' ? name : name.toLowerCase();
+}
+
+function toRegistryOfCommerce(canton: SwissCanton): RegistryOfCommerce {
+	const {registryOfCommerceId, name, seats} = CANTON_REGISTRIES[canton];
+	const [, city, swissZipCode] = seats[0];
+	const host = `https://${canton.toLowerCase()}.chregister.ch/cr-portal/auszug/auszug.xhtml`;
+	return {
+		registryOfCommerceId,
+		canton,
+		address1: name,
+		address4: `${swissZipCode} ${city}`,
+		url2: `${host}?uid=#`,
+		url4: `${host}?uid=#&shabdatum=`,
+	};
+}
+
+/**
+ * Park-Miller minimal standard PRNG returning floats in [0, 1)
+ */
+function minstd(seed: number): () => number {
+	let state = Math.abs(Math.trunc(seed)) % 2_147_483_647 || 1;
+	// Small seeds start with small values; skip them
+	for (let index = 0; index < 3; index++) {
+		state = (state * 48_271) % 2_147_483_647;
+	}
+
+	return () => {
+		state = (state * 48_271) % 2_147_483_647;
+		return (state - 1) / 2_147_483_646;
+	};
+}
+
+/**
+ * The text of a founding publication after its header
+ */
+function foundingText(profile: CompanyProfile, purpose: string): string {
+	const phrases = PHRASES[profile.language];
+	const capitalLabel =
+		profile.legalForm.id === COMPANY_LIMITED_BY_SHARES
+			? phrases.shareCapital
+			: phrases.capitalStock;
+	return [
+		`${phrases.purpose}: ${purpose}`,
+		profile.capital
+			? `${capitalLabel}: CHF ${formatChf(profile.capital)}.`
+			: undefined,
+		profile.headOffice
+			? `${phrases.headOffice}: ${profile.headOffice.legalSeat ?? ''}.`
+			: undefined,
+	]
+		.filter(Boolean)
+		.join(' ');
+}
+
+function formatAddress(address: Address): string {
+	return `${address.street ?? ''} ${address.houseNumber ?? ''}, ${address.swissZipCode ?? ''} ${address.city ?? ''}`;
+}
+
+function toDayNumber(date: string): number {
+	return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function toIsoDate(day: number): string {
+	return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function toSwissDate(isoDate: string): string {
+	const [year, month, day] = isoDate.split('-');
+	return `${day}.${month}.${year}`;
+}
+
+/**
+ * Move weekend days to the following Monday; the SOGC appears on weekdays
+ */
+function nextWeekday(day: number): number {
+	const weekday = new Date(day * DAY_MS).getUTCDay();
+	if (weekday === 6) return day + 2;
+	if (weekday === 0) return day + 1;
+	return day;
+}
+
+/**
+ * Format an amount the way SOGC messages do, e.g. `100'000.00`
+ */
+function formatChf(amount: number): string {
+	return `${String(amount).replaceAll(/\B(?=(\d{3})+$)/g, "'")}.00`;
+}
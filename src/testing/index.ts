@@ -0,0 +1,37 @@
+/**
+ * Test helpers for code using the ZEFIX API client
+ *
+ * Import from `@tenderlift/zefix-client/testing`. Not meant for production bundles.
+ *
+ * @module testing
+ */
+
+export {
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+	type FakeZefixRequest,
+	type FakeZefixServerOptions,
+} from './fake-server';
+export {createSeedDataset, type FakeZefixDataset} from './seed';
+export {
+	type CompanyFixtureOverrides,
+	makeBfsCommunity,
+	makeBranchOffice,
+	makeCompanyFull,
+	makeCompanyShort,
+	makeLegalForm,
+	makeRegistryOfCommerce,
+	makeSogcPublication,
+	makeSogcPublicationAndCompanyShort,
+	resetFixtures,
+	type SogcFixtureOverrides,
+	ZefixFixtures,
+} from './fixtures';
+export {
+	Cassette,
+	type CassetteFile,
+	type CassetteInteraction,
+	CassetteMissError,
+	type CassetteMode,
+	type CassetteOptions,
+} from './cassette';
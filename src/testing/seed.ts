@@ -0,0 +1,468 @@
+/**
+ * Default dataset of the fake Zefix server.
+ *
+ * All records are fictitious, but internally consistent: UIDs carry valid
+ * check digits, legal seats match their canton and registry, and relations
+ * (head office, branch, auditor) point at companies in the same dataset.
+ * Registry URLs are illustrative.
+ */
+
+import type {
+	BfsCommunity,
+	CompanyFull,
+	CompanyShort,
+	LegalForm,
+	RegistryOfCommerce,
+} from '../generated/types.gen';
+
+/**
+ * Records served by the fake Zefix server
+ */
+export type FakeZefixDataset = {
+	companies: CompanyFull[];
+	legalForms: LegalForm[];
+	communities: BfsCommunity[];
+	registries: RegistryOfCommerce[];
+};
+
+export const legalForms: LegalForm[] = [
+	{
+		id: 1,
+		uid: '0101',
+		name: {
+			de: 'Einzelunternehmen',
+			fr: 'Entreprise individuelle',
+			it: 'Ditta individuale',
+			en: 'Sole proprietorship',
+		},
+		shortName: {de: 'EU', fr: 'EI', it: 'DI', en: 'SP'},
+	},
+	{
+		id: 3,
+		uid: '0106',
+		name: {
+			de: 'Aktiengesellschaft',
+			fr: 'Société anonyme',
+			it: 'Società anonima',
+			en: 'Company limited by shares',
+		},
+		shortName: {de: 'AG', fr: 'SA', it: 'SA', en: 'Ltd'},
+	},
+	{
+		id: 4,
+		uid: '0107',
+		name: {
+			de: 'Gesellschaft mit beschränkter Haftung',
+			fr: 'Société à responsabilité limitée',
+			it: 'Società a garanzia limitata',
+			en: 'Limited liability company',
+		},
+		shortName: {de: 'GmbH', fr: 'Sàrl', it: 'Sagl', en: 'LLC'},
+	},
+	{
+		id: 5,
+		uid: '0108',
+		name: {
+			de: 'Genossenschaft',
+			fr: 'Société coopérative',
+			it: 'Società cooperativa',
+			en: 'Cooperative',
+		},
+		shortName: {de: 'Genossenschaft', fr: 'Coopérative', it: 'Cooperativa'},
+	},
+	{
+		id: 7,
+		uid: '0110',
+		name: {de: 'Stiftung', fr: 'Fondation', it: 'Fondazione', en: 'Foundation'},
+		shortName: {de: 'Stiftung', fr: 'Fondation', it: 'Fondazione'},
+	},
+	{
+		id: 9,
+		uid: '0151',
+		name: {
+			de: 'Zweigniederlassung',
+			fr: 'Succursale',
+			it: 'Succursale',
+			en: 'Branch',
+		},
+		shortName: {de: 'ZN', fr: 'Succ.', it: 'Succ.'},
+	},
+];
+
+const registries: RegistryOfCommerce[] = [
+	{
+		registryOfCommerceId: 20,
+		canton: 'ZH',
+		address1: 'Handelsregisteramt des Kantons Zürich',
+		address2: 'Schöntalstrasse 5',
+		address4: '8004 Zürich',
+		homepage: 'https://www.zh.ch/hra',
+		url2: 'https://zh.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#',
+		url4: 'https://zh.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#&shabdatum=',
+	},
+	{
+		registryOfCommerceId: 36,
+		canton: 'BE',
+		address1: 'Handelsregisteramt des Kantons Bern',
+		address2: 'Poststrasse 25',
+		address4: '3071 Ostermundigen',
+		url2: 'https://be.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#',
+		url4: 'https://be.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#&shabdatum=',
+	},
+	{
+		registryOfCommerceId: 550,
+		canton: 'VD',
+		address1: 'Registre du commerce du canton de Vaud',
+		address2: 'Rue Caroline 11',
+		address4: '1014 Lausanne',
+		url2: 'https://prestations.vd.ch/pub/101266/extrait?uid=#',
+		url4: 'https://prestations.vd.ch/pub/101266/extrait?uid=#&shabdatum=',
+	},
+	{
+		registryOfCommerceId: 660,
+		canton: 'GE',
+		address1: 'Registre du commerce de Genève',
+		address2: 'Rue du Puits-Saint-Pierre 4',
+		address4: '1204 Genève',
+		url2: 'https://ge.ch/hrcintapp/externalCompanyReport.action?companyOfsUid=#',
+	},
+	{
+		registryOfCommerceId: 501,
+		canton: 'TI',
+		address1: 'Ufficio del registro di commercio del Cantone Ticino',
+		address2: 'Via Franco Zorzi 13',
+		address4: '6501 Bellinzona',
+		url2: 'https://ti.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#',
+		url4: 'https://ti.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=#&shabdatum=',
+	},
+];
+
+const communities: BfsCommunity[] = [
+	{bfsId: 261, canton: 'ZH', name: 'Zürich', registryOfCommerceId: 20},
+	{bfsId: 230, canton: 'ZH', name: 'Winterthur', registryOfCommerceId: 20},
+	{bfsId: 351, canton: 'BE', name: 'Bern', registryOfCommerceId: 36},
+	{bfsId: 623, canton: 'BE', name: 'Rubigen', registryOfCommerceId: 36},
+	{bfsId: 5586, canton: 'VD', name: 'Lausanne', registryOfCommerceId: 550},
+	{bfsId: 6621, canton: 'GE', name: 'Genève', registryOfCommerceId: 660},
+	{bfsId: 5192, canton: 'TI', name: 'Lugano', registryOfCommerceId: 501},
+];
+
+function legalForm(id: number): LegalForm {
+	return legalForms.find((form) => form.id === id)!;
+}
+
+/**
+ * The `CompanyShort` fields of a company, as embedded in relations
+ */
+export function toCompanyShort(company: CompanyFull): CompanyShort {
+	return {
+		name: company.name,
+		ehraid: company.ehraid,
+		uid: company.uid,
+		chid: company.chid,
+		legalSeatId: company.legalSeatId,
+		legalSeat: company.legalSeat,
+		registryOfCommerceId: company.registryOfCommerceId,
+		legalForm: company.legalForm,
+		status: company.status,
+		sogcDate: company.sogcDate,
+		deletionDate: company.deletionDate,
+	};
+}
+
+const musterAg: CompanyFull = {
+	name: 'Muster AG',
+	ehraid: 100_001,
+	uid: 'CHE101000026',
+	chid: 'CH02030000001',
+	legalSeatId: 261,
+	legalSeat: 'Zürich',
+	registryOfCommerceId: 20,
+	legalForm: legalForm(3),
+	status: 'ACTIVE',
+	sogcDate: '2019-03-04',
+	purpose: 'Entwicklung und Vertrieb von Software sowie Beratung.',
+	address: {
+		street: 'Musterstrasse',
+		houseNumber: '1',
+		swissZipCode: '8001',
+		city: 'Zürich',
+	},
+	canton: 'ZH',
+	capitalNominal: '100000',
+	capitalCurrency: 'CHF',
+	sogcPub: [
+		{
+			sogcDate: '2010-05-12',
+			sogcId: 1_000_001,
+			registryOfCommerceId: 20,
+			registryOfCommerceCanton: 'ZH',
+			registryOfCommerceJournalId: 15_001,
+			registryOfCommerceJournalDate: '2010-05-07',
+			message:
+				"Muster AG, in Zürich, CHE-101.000.026, Musterstrasse 1, 8001 Zürich, Aktiengesellschaft (Neueintragung). Statutendatum: 03.05.2010. Zweck: Entwicklung und Vertrieb von Software sowie Beratung. Aktienkapital: CHF 100'000.00.",
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+		{
+			sogcDate: '2019-03-04',
+			sogcId: 1_000_002,
+			registryOfCommerceId: 20,
+			registryOfCommerceCanton: 'ZH',
+			registryOfCommerceJournalId: 19_042,
+			registryOfCommerceJournalDate: '2019-02-27',
+			message:
+				'Muster AG, in Zürich, CHE-101.000.026, Aktiengesellschaft (SHAB Nr. 90 vom 12.05.2010). Neue Revisionsstelle: Revisia GmbH (CHE-101.000.049), in Rubigen.',
+			mutationTypes: [{id: 12, key: 'aenderungrevisionsstelle'}],
+		},
+	],
+	cantonalExcerptWeb:
+		'https://zh.chregister.ch/cr-portal/auszug/auszug.xhtml?uid=CHE-101.000.026',
+};
+
+const musterBern: CompanyFull = {
+	name: 'Muster AG, Zweigniederlassung Bern',
+	ehraid: 100_002,
+	uid: 'CHE101000032',
+	chid: 'CH03590000002',
+	legalSeatId: 351,
+	legalSeat: 'Bern',
+	registryOfCommerceId: 36,
+	legalForm: legalForm(9),
+	status: 'ACTIVE',
+	sogcDate: '2015-09-21',
+	purpose: 'Entwicklung und Vertrieb von Software sowie Beratung.',
+	address: {
+		street: 'Bundesgasse',
+		houseNumber: '10',
+		swissZipCode: '3011',
+		city: 'Bern',
+	},
+	canton: 'BE',
+	sogcPub: [
+		{
+			sogcDate: '2015-09-21',
+			sogcId: 1_000_003,
+			registryOfCommerceId: 36,
+			registryOfCommerceCanton: 'BE',
+			registryOfCommerceJournalId: 9876,
+			registryOfCommerceJournalDate: '2015-09-16',
+			message:
+				'Muster AG, Zweigniederlassung Bern, in Bern, CHE-101.000.032, Bundesgasse 10, 3011 Bern, Zweigniederlassung (Neueintragung). Hauptsitz in: Zürich.',
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+	],
+};
+
+const revisia: CompanyFull = {
+	name: 'Revisia GmbH',
+	ehraid: 100_003,
+	uid: 'CHE101000049',
+	chid: 'CH03540000003',
+	legalSeatId: 623,
+	legalSeat: 'Rubigen',
+	registryOfCommerceId: 36,
+	legalForm: legalForm(4),
+	status: 'ACTIVE',
+	sogcDate: '2012-01-16',
+	purpose: 'Revision und Treuhand.',
+	address: {
+		street: 'Dorfstrasse',
+		houseNumber: '3',
+		swissZipCode: '3113',
+		city: 'Rubigen',
+	},
+	canton: 'BE',
+	capitalNominal: '20000',
+	capitalCurrency: 'CHF',
+	sogcPub: [
+		{
+			sogcDate: '2012-01-16',
+			sogcId: 1_000_004,
+			registryOfCommerceId: 36,
+			registryOfCommerceCanton: 'BE',
+			registryOfCommerceJournalId: 512,
+			registryOfCommerceJournalDate: '2012-01-11',
+			message:
+				"Revisia GmbH, in Rubigen, CHE-101.000.049, Dorfstrasse 3, 3113 Rubigen, Gesellschaft mit beschränkter Haftung (Neueintragung). Zweck: Revision und Treuhand. Stammkapital: CHF 20'000.00.",
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+	],
+};
+
+const boulangerie: CompanyFull = {
+	name: 'Boulangerie Exemple Sàrl en liquidation',
+	ehraid: 100_004,
+	uid: 'CHE101000055',
+	chid: 'CH55040000004',
+	legalSeatId: 5586,
+	legalSeat: 'Lausanne',
+	registryOfCommerceId: 550,
+	legalForm: legalForm(4),
+	status: 'CANCELLED',
+	sogcDate: '2022-11-18',
+	deletionDate: '2022-11-15',
+	purpose: 'Exploitation d’une boulangerie.',
+	address: {
+		street: 'Rue de Bourg',
+		houseNumber: '8',
+		swissZipCode: '1003',
+		city: 'Lausanne',
+	},
+	canton: 'VD',
+	capitalNominal: '20000',
+	capitalCurrency: 'CHF',
+	oldNames: [{name: 'Boulangerie Exemple Sàrl', sequenceNr: 1}],
+	sogcPub: [
+		{
+			sogcDate: '2014-02-03',
+			sogcId: 1_000_005,
+			registryOfCommerceId: 550,
+			registryOfCommerceCanton: 'VD',
+			message:
+				"Boulangerie Exemple Sàrl, à Lausanne, CHE-101.000.055, Rue de Bourg 8, 1003 Lausanne, société à responsabilité limitée (Nouvelle inscription). But: exploitation d’une boulangerie. Capital social: CHF 20'000.00.",
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+		{
+			sogcDate: '2022-06-07',
+			sogcId: 1_000_006,
+			registryOfCommerceId: 550,
+			registryOfCommerceCanton: 'VD',
+			message:
+				'Boulangerie Exemple Sàrl en liquidation, à Lausanne, CHE-101.000.055. La société est dissoute par décision de l’assemblée des associés du 30.05.2022.',
+			mutationTypes: [{id: 6, key: 'aufloesung'}],
+		},
+		{
+			sogcDate: '2022-11-18',
+			sogcId: 1_000_007,
+			registryOfCommerceId: 550,
+			registryOfCommerceCanton: 'VD',
+			message:
+				'Boulangerie Exemple Sàrl en liquidation, à Lausanne, CHE-101.000.055. La liquidation étant terminée, la société est radiée.',
+			mutationTypes: [{id: 7, key: 'loeschung'}],
+		},
+	],
+};
+
+const exempleGeneve: CompanyFull = {
+	name: 'Exemple Genève SA en liquidation',
+	ehraid: 100_005,
+	uid: 'CHE101000061',
+	chid: 'CH66030000005',
+	legalSeatId: 6621,
+	legalSeat: 'Genève',
+	registryOfCommerceId: 660,
+	legalForm: legalForm(3),
+	status: 'BEING_CANCELLED',
+	sogcDate: '2023-04-12',
+	purpose: 'Commerce de montres.',
+	address: {
+		street: 'Rue du Rhône',
+		houseNumber: '40',
+		swissZipCode: '1204',
+		city: 'Genève',
+	},
+	canton: 'GE',
+	capitalNominal: '100000',
+	capitalCurrency: 'CHF',
+	sogcPub: [
+		{
+			sogcDate: '2023-04-12',
+			sogcId: 1_000_008,
+			registryOfCommerceId: 660,
+			registryOfCommerceCanton: 'GE',
+			message:
+				'Exemple Genève SA en liquidation, à Genève, CHE-101.000.061. La société est dissoute par décision de l’assemblée générale du 03.04.2023.',
+			mutationTypes: [{id: 6, key: 'aufloesung'}],
+		},
+	],
+};
+
+const esempio: CompanyFull = {
+	name: 'Esempio Lugano SA',
+	ehraid: 100_006,
+	uid: 'CHE101000078',
+	chid: 'CH51430000006',
+	legalSeatId: 5192,
+	legalSeat: 'Lugano',
+	registryOfCommerceId: 501,
+	legalForm: legalForm(3),
+	status: 'ACTIVE',
+	sogcDate: '2019-03-04',
+	purpose: 'Consulenza finanziaria.',
+	address: {
+		street: 'Via Nassa',
+		houseNumber: '5',
+		swissZipCode: '6900',
+		city: 'Lugano',
+	},
+	canton: 'TI',
+	capitalNominal: '250000',
+	capitalCurrency: 'CHF',
+	sogcPub: [
+		{
+			sogcDate: '2019-03-04',
+			sogcId: 1_000_009,
+			registryOfCommerceId: 501,
+			registryOfCommerceCanton: 'TI',
+			message:
+				"Esempio Lugano SA, in Lugano, CHE-101.000.078, Via Nassa 5, 6900 Lugano, società anonima (Nuova iscrizione). Scopo: consulenza finanziaria. Capitale azionario: CHF 250'000.00.",
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+	],
+};
+
+const musterStiftung: CompanyFull = {
+	name: 'Muster Stiftung',
+	ehraid: 100_007,
+	uid: 'CHE101000084',
+	chid: 'CH02070000007',
+	legalSeatId: 230,
+	legalSeat: 'Winterthur',
+	registryOfCommerceId: 20,
+	legalForm: legalForm(7),
+	status: 'ACTIVE',
+	sogcDate: '2016-08-29',
+	purpose: 'Förderung von Bildung und Forschung.',
+	address: {
+		street: 'Stadthausstrasse',
+		houseNumber: '4',
+		swissZipCode: '8400',
+		city: 'Winterthur',
+	},
+	canton: 'ZH',
+	sogcPub: [
+		{
+			sogcDate: '2016-08-29',
+			sogcId: 1_000_010,
+			registryOfCommerceId: 20,
+			registryOfCommerceCanton: 'ZH',
+			message:
+				'Muster Stiftung, in Winterthur, CHE-101.000.084, Stadthausstrasse 4, 8400 Winterthur, Stiftung (Neueintragung). Zweck: Förderung von Bildung und Forschung.',
+			mutationTypes: [{id: 2, key: 'neueintragung'}],
+		},
+	],
+};
+
+musterAg.branchOffices = [toCompanyShort(musterBern)];
+musterAg.auditCompanies = [toCompanyShort(revisia)];
+musterBern.headOffices = [toCompanyShort(musterAg)];
+
+/**
+ * Create a fresh copy of the default dataset
+ */
+export function createSeedDataset(): FakeZefixDataset {
+	return structuredClone({
+		companies: [
+			musterAg,
+			musterBern,
+			revisia,
+			boulangerie,
+			exempleGeneve,
+			esempio,
+			musterStiftung,
+		],
+		legalForms,
+		communities,
+		registries,
+	});
+}
@@ -0,0 +1,128 @@
+/**
+ * Company history reconstructed from its SOGC publications
+ */
+
+import type {
+	CompanyFull,
+	MutationType,
+	SogcPublication,
+} from './generated/types.gen';
+
+/**
+ * Event taxonomy of the company timeline. See {@link MUTATION_EVENT_PATTERNS}
+ * for how mutation type keys map to it.
+ */
+export type CompanyEventKind =
+	| 'founding'
+	| 'name-change'
+	| 'seat-change'
+	| 'address-change'
+	| 'purpose-change'
+	| 'capital-change'
+	| 'auditor-change'
+	| 'liquidation'
+	| 'deletion'
+	| 'merger'
+	| 'other';
+
+/**
+ * One change of a company, as announced by a SOGC publication
+ */
+export type CompanyEvent = {
+	kind: CompanyEventKind;
+	/** SOGC publication date, as `YYYY-MM-DD` */
+	date: string | undefined;
+	sogcId: number | undefined;
+	/** The mutation type the event was derived from */
+	mutationType: MutationType | undefined;
+	publication: SogcPublication;
+};
+
+/**
+ * Mutation type key patterns of each event kind, tried in order. Keys are
+ * German slugs such as `neueintragung`, `aenderungzweck` or
+ * `aenderungrevisionsstelle`; French and English spellings are matched as well.
+ * Keys matching none of them become `other` events, e.g. changes of the board.
+ */
+export const MUTATION_EVENT_PATTERNS: ReadonlyArray<
+	readonly [Exclude<CompanyEventKind, 'other'>, RegExp]
+> = [
+	['deletion', /l(?:oe|ö)sch|delet|radiat|cancel/i],
+	['founding', /^neueintrag|^(?:new)?registration|^inscription/i],
+	['liquidation', /aufl(?:oe|ö)s|liquidat|dissolution/i],
+	['merger', /fusion|merger|(?:ue|ü)bernahme|verm(?:oe|ö)gens(?:ue|ü)bertrag/i],
+	['auditor-change', /revision|audit/i],
+	['capital-change', /kapital|capital/i],
+	['purpose-change', /zweck|purpose|but$/i],
+	['name-change', /firma|name|raisonsociale/i],
+	['seat-change', /sitz|seat|siege/i],
+	['address-change', /domizil|adress|domicile/i],
+];
+
+/**
+ * Map a mutation type key to its event kind
+ *
+ * @example
+ * classifyMutationType('aenderungzweck') // 'purpose-change'
+ * classifyMutationType('aenderungorgane') // 'other'
+ */
+export function classifyMutationType(
+	key: string | undefined,
+): CompanyEventKind {
+	if (!key) return 'other';
+	const match = MUTATION_EVENT_PATTERNS.find(([, pattern]) =>
+		pattern.test(key),
+	);
+	return match?.[0] ?? 'other';
+}
+
+/**
+ * Build the chronological history of a company from `sogcPub`: one event per
+ * mutation type of every publication (publications without mutation types
+ * yield one `other` event). Events are ordered by date, then SOGC ID;
+ * publications without a date come last.
+ *
+ * @example
+ * ```typescript
+ * const [company] = await ensureOk(zefix.getCompanyByUid({path: {id}}));
+ * for (const event of buildCompanyTimeline(company)) {
+ *   console.log(event.date, event.kind, event.sogcId);
+ * }
+ * const founded = buildCompanyTimeline(company).find((event) => event.kind === 'founding')?.date;
+ * ```
+ */
+export function buildCompanyTimeline(
+	company: Pick<CompanyFull, 'sogcPub'>,
+): CompanyEvent[] {
+	const events = (company.sogcPub ?? []).flatMap((publication) => {
+		const mutationTypes: Array<MutationType | undefined> = publication
+			.mutationTypes?.length
+			? publication.mutationTypes
+			: [undefined];
+		return mutationTypes.map(
+			(mutationType): CompanyEvent => ({
+				kind: classifyMutationType(mutationType?.key),
+				date: publication.sogcDate,
+				sogcId: publication.sogcId,
+				mutationType,
+				publication,
+			}),
+		);
+	});
+
+	// Array.prototype.sort is stable, so mutation types keep their order
+	return events.sort(
+		(a, b) =>
+			compareOptional(a.date, b.date) || compareOptional(a.sogcId, b.sogcId),
+	);
+}
+
+function compareOptional<T extends string | number>(
+	a: T | undefined,
+	b: T | undefined,
+): number {
+	if (a === b) return 0;
+	if (a === undefined) return 1;
+	if (b === undefined) return -1;
+	return a < b ? -1 : 1;
+}
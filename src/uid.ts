@@ -70,6 +70,7 @@ export function formatUid(input: string): string {
 
 /**
  * Check if a string is a valid UID format (structure only, no checksum validation)
+ * Use {@link isValidUid} to also verify the check digit.
  *
  * @param input - The string to validate
  * @returns True if the input is a valid UID format
@@ -101,3 +102,108 @@ export function uidEquals(a: string, b: string): boolean {
 	const normalizedB = normalizeUid(b);
 	return normalizedA !== undefined && normalizedA === normalizedB;
 }
+
+/**
+ * Weights applied to the first eight digits for the eCH-0097 check digit
+ */
+const CHECK_DIGIT_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4] as const;
+
+/**
+ * Compute the eCH-0097 modulo 11 check digit for the first eight UID digits
+ *
+ * @param digits - The first eight digits of a UID core
+ * @returns The check digit (0-9), or undefined if the input is not eight
+ * digits or the remainder yields 10, which is never assigned
+ *
+ * @example
+ * computeUidCheckDigit('10581538') // 1
+ * computeUidCheckDigit('12345678') // 8
+ * computeUidCheckDigit('1234') // undefined
+ */
+export function computeUidCheckDigit(digits: string): number | undefined {
+	if (!/^\d{8}$/.test(digits)) return undefined;
+
+	let sum = 0;
+	for (const [index, weight] of CHECK_DIGIT_WEIGHTS.entries()) {
+		sum += Number(digits[index]) * weight;
+	}
+
+	const checkDigit = (11 - (sum % 11)) % 11;
+	return checkDigit === 10 ? undefined : checkDigit;
+}
+
+/**
+ * Why {@link parseUid} rejected an input
+ */
+export type UidParseError =
+	| 'INVALID_PREFIX'
+	| 'INVALID_CHARACTERS'
+	| 'INVALID_LENGTH'
+	| 'INVALID_CHECKSUM';
+
+/**
+ * Result of {@link parseUid}
+ */
+export type UidParseResult =
+	| {ok: true; uid: UidCore; formatted: string}
+	| {ok: false; error: UidParseError; input: string};
+
+/**
+ * Regular expression splitting a UID input into prefix, body and optional VAT suffix
+ */
+const UID_PARTS_RE = /^([a-z]*)([^a-z]*?)(?:\s*(?:mwst|tva|iva))?$/i;
+
+/**
+ * Parse a UID, including its check digit, and report why it was rejected
+ *
+ * Accepts the same spellings as {@link normalizeUid}, but requires the
+ * prefix to be `CHE` when one is given.
+ *
+ * @param input - The UID string to parse
+ * @returns The normalized and formatted UID, or the reason it is invalid
+ *
+ * @example
+ * parseUid('che 105 815 381') // { ok: true, uid: '105815381', formatted: 'CHE-105.815.381' }
+ * parseUid('CHF-105.815.381') // { ok: false, error: 'INVALID_PREFIX', ... }
+ * parseUid('CHE-105.815.38') // { ok: false, error: 'INVALID_LENGTH', ... }
+ * parseUid('CHE-105.815.382') // { ok: false, error: 'INVALID_CHECKSUM', ... }
+ */
+export function parseUid(input: string): UidParseResult {
+	const reject = (error: UidParseError): UidParseResult => ({
+		ok: false,
+		error,
+		input,
+	});
+
+	const parts = UID_PARTS_RE.exec(input?.trim() ?? '');
+	if (!parts) return reject('INVALID_CHARACTERS');
+
+	const [, prefix, body] = parts;
+	if (prefix && prefix.toUpperCase() !== 'CHE') return reject('INVALID_PREFIX');
+	if (/[^\d\s.-]/.test(body)) return reject('INVALID_CHARACTERS');
+
+	const digits = body.replaceAll(/\D/g, '');
+	if (!UID_CORE_RE.test(digits)) return reject('INVALID_LENGTH');
+
+	if (computeUidCheckDigit(digits.slice(0, 8)) !== Number(digits[8])) {
+		return reject('INVALID_CHECKSUM');
+	}
+
+	return {ok: true, uid: digits as UidCore, formatted: formatUid(digits)};
+}
+
+/**
+ * Check if a string is a valid UID, including the eCH-0097 check digit
+ *
+ * @param input - The string to validate
+ * @returns True if the input is a well-formed UID with a correct check digit
+ *
+ * @example
+ * isValidUid('CHE-105.815.381') // true
+ * isValidUid('che 105 815 381 MWST') // true
+ * isValidUid('CHE-105.815.382') // false (wrong check digit)
+ * isValidUid('invalid') // false
+ */
+export function isValidUid(input: string): boolean {
+	return parseUid(input).ok;
+}
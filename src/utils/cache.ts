@@ -0,0 +1,372 @@
+/**
+ * Response caching for ZEFIX API requests
+ */
+
+import {
+	createRequestKey,
+	getEndpoint,
+	getRequestScope,
+	getUidPath,
+	type ZefixEndpoint,
+} from './request-key';
+import {isInvalidResponse} from './response-validation';
+
+const SECOND = 1000;
+const HOUR = 60 * 60 * SECOND;
+const DAY = 24 * HOUR;
+
+/**
+ * A cached response, serializable as JSON
+ */
+export type CacheEntry = {
+	status: number;
+	headers: Array<[string, string]>;
+	body: string;
+	/** Timestamp (ms) after which the entry is stale */
+	expiresAt: number;
+	/** Timestamp (ms) after which the entry must not be served anymore */
+	staleUntil: number;
+};
+
+/**
+ * Storage backend for cached responses
+ */
+export type CacheStore = {
+	get(key: string): Promise<CacheEntry | undefined>;
+	/**
+	 * @param ttlMs - How long the store has to keep the entry, including the stale window
+	 */
+	set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+	delete(key: string): Promise<void>;
+};
+
+export type CacheOptions = {
+	/**
+	 * Where responses are stored
+	 * @default new LruCacheStore()
+	 */
+	store?: CacheStore;
+	/**
+	 * Time to live per endpoint in milliseconds; 0 disables caching for that
+	 * endpoint. `company/search` is only cached when given a TTL here.
+	 */
+	ttlMs?: Partial<Record<ZefixEndpoint, number>>;
+	/**
+	 * How long an expired entry may still be served while it is refreshed in
+	 * the background
+	 * @default 0
+	 */
+	staleWhileRevalidateMs?: number;
+	/**
+	 * Keeps background refreshes alive, e.g. `ctx.waitUntil` in Workers
+	 */
+	waitUntil?: (promise: Promise<unknown>) => void;
+	/**
+	 * Prefix for all keys in the store
+	 * @default 'zefix:'
+	 */
+	keyPrefix?: string;
+};
+
+/**
+ * Default TTLs: reference data for days, company data for hours
+ */
+export const DEFAULT_CACHE_TTL_MS: Record<ZefixEndpoint, number> = {
+	legalForm: 7 * DAY,
+	community: 7 * DAY,
+	registryOfCommerce: 7 * DAY,
+	'registryOfCommerce/byBfsCommunityId': 7 * DAY,
+	'company/uid': 6 * HOUR,
+	'company/ehraid': 6 * HOUR,
+	'company/chid': 6 * HOUR,
+	'company/search': 0,
+	sogc: DAY,
+	'sogc/bydate': HOUR,
+};
+
+/**
+ * Response header telling whether a response came from the cache
+ */
+export const CACHE_STATUS_HEADER = 'X-Zefix-Cache';
+
+/**
+ * In-memory least-recently-used cache store
+ */
+export class LruCacheStore implements CacheStore {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(private readonly maxEntries = 500) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		if (entry.staleUntil <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+
+		// Re-insert to mark as most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value!;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+/**
+ * Subset of the Workers Cache API used by {@link CacheApiStore}
+ */
+export type CacheApiLike = {
+	match(request: string): Promise<Response | undefined>;
+	put(request: string, response: Response): Promise<void>;
+	delete(request: string): Promise<boolean>;
+};
+
+/**
+ * Cache store backed by the Workers Cache API, e.g. `caches.default`
+ */
+export class CacheApiStore implements CacheStore {
+	/**
+	 * @param cache - The cache to use
+	 * @param origin - Synthetic origin for the cache keys; the Cache API only accepts URLs
+	 */
+	constructor(
+		private readonly cache: CacheApiLike,
+		private readonly origin = 'https://zefix-client.cache',
+	) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const response = await this.cache.match(this.toUrl(key));
+		if (!response) return undefined;
+		return response.json();
+	}
+
+	async set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> {
+		const maxAge = Math.max(1, Math.ceil(ttlMs / SECOND));
+		await this.cache.put(
+			this.toUrl(key),
+			new Response(JSON.stringify(entry), {
+				headers: {
+					'Content-Type': 'application/json',
+					'Cache-Control': `max-age=${maxAge}`,
+				},
+			}),
+		);
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.cache.delete(this.toUrl(key));
+	}
+
+	private toUrl(key: string): string {
+		return `${this.origin}/${encodeURIComponent(key)}`;
+	}
+}
+
+/**
+ * Subset of a Workers KV namespace used by {@link KvCacheStore}
+ */
+export type KvNamespaceLike = {
+	get(key: string): Promise<unknown>;
+	put(
+		key: string,
+		value: string,
+		options?: {expirationTtl?: number},
+	): Promise<unknown>;
+	delete(key: string): Promise<unknown>;
+};
+
+/**
+ * KV's minimum expirationTtl in seconds
+ */
+const KV_MIN_TTL_SECONDS = 60;
+
+/**
+ * Cache store backed by a Workers KV namespace (or anything with the same shape)
+ */
+export class KvCacheStore implements CacheStore {
+	constructor(private readonly namespace: KvNamespaceLike) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const value = await this.namespace.get(key);
+		if (typeof value !== 'string') return undefined;
+
+		const entry = JSON.parse(value) as CacheEntry;
+		// KV expiration is coarse, so check the entry's own deadline as well
+		return entry.staleUntil > Date.now() ? entry : undefined;
+	}
+
+	async set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> {
+		await this.namespace.put(key, JSON.stringify(entry), {
+			expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / SECOND)),
+		});
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.namespace.delete(key);
+	}
+}
+
+/**
+ * Caching layer wrapping a fetch implementation
+ */
+export class ResponseCache {
+	private readonly store: CacheStore;
+	private readonly ttlMs: Record<ZefixEndpoint, number>;
+	private readonly staleWhileRevalidateMs: number;
+	private readonly keyPrefix: string;
+	private readonly revalidating = new Set<string>();
+	/** Scopes of the requests this instance has cached */
+	private readonly scopes = new Set<string>();
+
+	/**
+	 * @param getScope - Scope of the owning client's base URL and credentials,
+	 * so `invalidate()` reaches entries other instances stored for it
+	 */
+	constructor(
+		private readonly options: CacheOptions = {},
+		private readonly getScope?: () => Promise<string>,
+	) {
+		this.store = options.store ?? new LruCacheStore();
+		this.ttlMs = {...DEFAULT_CACHE_TTL_MS, ...options.ttlMs};
+		this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0;
+		this.keyPrefix = options.keyPrefix ?? 'zefix:';
+	}
+
+	/**
+	 * Remove the cached company lookup for a UID, in any spelling
+	 */
+	async invalidateUid(uid: string): Promise<void> {
+		await this.invalidate(getUidPath(uid));
+	}
+
+	/**
+	 * Remove a cached GET response by its path relative to `/api/v1/`, for
+	 * the client's current base URL and credentials and every other scope
+	 * this instance has cached
+	 */
+	async invalidate(path: string): Promise<void> {
+		const scopes = new Set(this.scopes);
+		if (this.getScope) scopes.add(await this.getScope());
+		await Promise.all(
+			[...scopes].map(async (scope) =>
+				this.store.delete(`${this.keyPrefix}${scope} GET ${path}`),
+			),
+		);
+	}
+
+	/**
+	 * Wrap a fetch implementation so cacheable responses are served from the store
+	 */
+	wrap(fetchImpl: typeof fetch): typeof fetch {
+		return async (input, init) => {
+			const request = new Request(input, init);
+			const ttlMs = this.getTtl(request);
+			if (ttlMs <= 0) {
+				return fetchImpl(request);
+			}
+
+			this.scopes.add(await getRequestScope(request));
+			const key = this.keyPrefix + (await createRequestKey(request));
+			const entry = await this.store.get(key);
+			const now = Date.now();
+
+			if (entry && entry.expiresAt > now) {
+				return toResponse(entry, 'HIT');
+			}
+
+			if (entry && entry.staleUntil > now) {
+				this.revalidate(key, request, ttlMs, fetchImpl);
+				return toResponse(entry, 'STALE');
+			}
+
+			return this.fetchAndStore(key, request, ttlMs, fetchImpl);
+		};
+	}
+
+	private getTtl(request: Request): number {
+		const endpoint = getEndpoint(request.url);
+		if (!endpoint) return 0;
+		if (request.method !== 'GET' && endpoint !== 'company/search') return 0;
+		return this.ttlMs[endpoint];
+	}
+
+	private async fetchAndStore(
+		key: string,
+		request: Request,
+		ttlMs: number,
+		fetchImpl: typeof fetch,
+	): Promise<Response> {
+		const response = await fetchImpl(request);
+		if (!response.ok || isInvalidResponse(response)) {
+			return response;
+		}
+
+		const now = Date.now();
+		const entry: CacheEntry = {
+			status: response.status,
+			headers: [...response.headers],
+			body: await response.clone().text(),
+			expiresAt: now + ttlMs,
+			staleUntil: now + ttlMs + this.staleWhileRevalidateMs,
+		};
+		await this.store.set(key, entry, ttlMs + this.staleWhileRevalidateMs);
+
+		return withCacheStatus(response, 'MISS');
+	}
+
+	private revalidate(
+		key: string,
+		request: Request,
+		ttlMs: number,
+		fetchImpl: typeof fetch,
+	): void {
+		if (this.revalidating.has(key)) return;
+		this.revalidating.add(key);
+
+		const refresh = (async () => {
+			try {
+				await this.fetchAndStore(key, request, ttlMs, fetchImpl);
+			} catch {
+				// Keep serving the stale entry; the next request retries
+			} finally {
+				this.revalidating.delete(key);
+			}
+		})();
+		this.options.waitUntil?.(refresh);
+	}
+}
+
+function toResponse(entry: CacheEntry, status: 'HIT' | 'STALE'): Response {
+	const headers = new Headers(entry.headers);
+	headers.set(CACHE_STATUS_HEADER, status);
+	return new Response(entry.body, {status: entry.status, headers});
+}
+
+function withCacheStatus(response: Response, status: 'MISS'): Response {
+	const headers = new Headers(response.headers);
+	headers.set(CACHE_STATUS_HEADER, status);
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
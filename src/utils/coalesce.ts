@@ -0,0 +1,171 @@
+/**
+ * In-flight request coalescing for identical ZEFIX API requests
+ */
+
+import {createRequestKey, getEndpoint} from './request-key';
+
+export type CoalesceHit = {
+	/** Key shared by the coalesced requests (method, path, query and body) */
+	key: string;
+	/** The request that joined the in-flight one */
+	request: Request;
+};
+
+export type CoalesceOptions = {
+	/**
+	 * Also coalesce identical company search POST bodies
+	 * @default true
+	 */
+	searches?: boolean;
+	/**
+	 * Called whenever a request joins an identical in-flight request
+	 */
+	onDedupe?: (hit: CoalesceHit) => void;
+};
+
+type BufferedResponse = {
+	status: number;
+	statusText: string;
+	headers: Headers;
+	body: ArrayBuffer;
+};
+
+type InFlightRequest = {
+	response: Promise<BufferedResponse>;
+	/** Aborts the shared fetch once every waiter has aborted */
+	controller: AbortController;
+	waiters: number;
+};
+
+/**
+ * Shares one in-flight fetch between concurrent identical requests.
+ *
+ * A caller's abort signal only ends its own wait. The shared fetch is aborted
+ * once every caller waiting for it has aborted.
+ */
+export class RequestCoalescer {
+	private readonly inFlight = new Map<string, InFlightRequest>();
+
+	constructor(private readonly options: CoalesceOptions = {}) {}
+
+	/**
+	 * Number of distinct requests currently in flight
+	 */
+	get size(): number {
+		return this.inFlight.size;
+	}
+
+	/**
+	 * Wrap a fetch implementation so identical concurrent requests share one call
+	 */
+	wrap(fetchImpl: typeof fetch): typeof fetch {
+		return async (input, init) => {
+			const request = new Request(input, init);
+			if (!this.isCoalescable(request)) {
+				return fetchImpl(request);
+			}
+
+			const key = await createRequestKey(request);
+			let shared = this.inFlight.get(key);
+
+			if (shared) {
+				this.options.onDedupe?.({key, request});
+				shared.waiters++;
+			} else {
+				shared = this.start(key, request, fetchImpl);
+			}
+
+			const {status, statusText, headers, body} = await this.wait(
+				key,
+				shared,
+				request.signal,
+			);
+			return new Response(isNullBodyStatus(status) ? undefined : body, {
+				status,
+				statusText,
+				headers,
+			});
+		};
+	}
+
+	private start(
+		key: string,
+		request: Request,
+		fetchImpl: typeof fetch,
+	): InFlightRequest {
+		const controller = new AbortController();
+		const response = (async () => {
+			try {
+				const response = await fetchImpl(
+					new Request(request, {signal: controller.signal}),
+				);
+				return {
+					status: response.status,
+					statusText: response.statusText,
+					headers: response.headers,
+					body: await response.arrayBuffer(),
+				};
+			} finally {
+				if (this.inFlight.get(key)?.controller === controller) {
+					this.inFlight.delete(key);
+				}
+			}
+		})();
+		const shared: InFlightRequest = {response, controller, waiters: 1};
+		// Failures reach the waiters; this only covers a fetch nobody waits for
+		response.catch(() => undefined);
+		this.inFlight.set(key, shared);
+		return shared;
+	}
+
+	/**
+	 * Wait for the shared response until the caller's signal aborts
+	 */
+	private async wait(
+		key: string,
+		shared: InFlightRequest,
+		signal: AbortSignal,
+	): Promise<BufferedResponse> {
+		if (signal.aborted) {
+			this.leave(key, shared, signal.reason);
+			throw signal.reason as Error;
+		}
+
+		let onAbort!: () => void;
+		const aborted = new Promise<never>((_resolve, reject) => {
+			onAbort = () => {
+				this.leave(key, shared, signal.reason);
+				reject(signal.reason as Error);
+			};
+		});
+		signal.addEventListener('abort', onAbort, {once: true});
+		try {
+			return await Promise.race([shared.response, aborted]);
+		} finally {
+			signal.removeEventListener('abort', onAbort);
+		}
+	}
+
+	/**
+	 * Stop waiting for a shared fetch, and abort it if nobody else waits
+	 */
+	private leave(key: string, shared: InFlightRequest, reason: unknown): void {
+		shared.waiters--;
+		if (shared.waiters > 0) return;
+		if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+		shared.controller.abort(reason);
+	}
+
+	private isCoalescable(request: Request): boolean {
+		if (request.method === 'GET') return true;
+		return (
+			request.method === 'POST' &&
+			(this.options.searches ?? true) &&
+			getEndpoint(request.url) === 'company/search'
+		);
+	}
+}
+
+function isNullBodyStatus(status: number): boolean {
+	return status === 204 || status === 205 || status === 304;
+}
@@ -2,18 +2,77 @@
  * Error handling utilities for ZEFIX API responses
  */
 
+import type {ErrorDetails} from '../generated/types.gen';
+import {formatValidationIssues, type ValidationIssue} from './validation';
+
+/**
+ * Originating request of an error, safe to log
+ */
+export type ZefixRequestInfo = {
+	method: string;
+	/** Request URL without user info */
+	url: string;
+	/** Request body with credential-like fields redacted */
+	body?: unknown;
+};
+
+export type ZefixErrorOptions = {
+	/** Error body of the response */
+	details?: unknown;
+	/** Whether retrying the same request may succeed */
+	retryable?: boolean;
+	request?: ZefixRequestInfo;
+	cause?: unknown;
+};
+
+const ERROR_OPTION_KEYS = new Set(['details', 'retryable', 'request', 'cause']);
+
 /**
  * Custom error class for ZEFIX API errors
  */
 export class ZefixError extends Error {
+	public readonly details?: unknown;
+	public readonly retryable: boolean;
+	public readonly request?: ZefixRequestInfo;
+	public readonly cause?: unknown;
+
+	constructor(
+		message: string,
+		status?: number,
+		code?: string,
+		options?: ZefixErrorOptions,
+	);
+
+	/**
+	 * @param details - Error body of the response, as accepted before the
+	 * options object
+	 */
+	constructor(
+		message: string,
+		status?: number,
+		code?: string,
+		details?: unknown,
+	);
+
 	constructor(
 		message: string,
 		public readonly status?: number,
 		public readonly code?: string,
-		public readonly details?: unknown,
+		detailsOrOptions?: unknown,
 	) {
 		super(message);
+		// Before the options object, the fourth argument was the error body
+		const options: ZefixErrorOptions =
+			(isErrorOptions(detailsOrOptions)
+				? detailsOrOptions
+				: {details: detailsOrOptions}) ?? {};
 		this.name = 'ZefixError';
+		this.retryable =
+			options.retryable ??
+			(status !== undefined && (status === 429 || status >= 500));
+		this.details = options.details;
+		this.request = options.request;
+		this.cause = options.cause;
 		Object.setPrototypeOf(this, ZefixError.prototype);
 	}
 
@@ -21,18 +80,367 @@ export class ZefixError extends Error {
 		status: number;
 		statusText: string;
 		error?: unknown;
+		request?: ZefixRequestInfo;
 	}): ZefixError {
-		const message = `ZEFIX API Error: ${response.status} ${response.statusText}`;
-		return new ZefixError(message, response.status, undefined, response.error);
+		const details = getErrorDetails(response.error);
+		let message = `ZEFIX API Error: ${response.status} ${response.statusText}`;
+		if (details?.message) {
+			message += ` - ${details.message}`;
+		}
+
+		const ErrorClass = selectErrorClass(details?.type, response.status);
+		if (ErrorClass) {
+			return new ErrorClass(message, response.status, response.error, {
+				request: response.request,
+			});
+		}
+
+		return new ZefixError(message, response.status, details?.type, {
+			details: response.error,
+			request: response.request,
+		});
+	}
+}
+
+/**
+ * The requested company, publication or registry does not exist (NOT_FOUND)
+ */
+export class ZefixNotFoundError extends ZefixError {
+	constructor(
+		message: string,
+		status = 404,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'NOT_FOUND', {
+			retryable: false,
+			details,
+			...options,
+		});
+		this.name = 'ZefixNotFoundError';
+		Object.setPrototypeOf(this, ZefixNotFoundError.prototype);
+	}
+}
+
+/**
+ * The search matched too many companies (RESULTLIST_TO_LARGE)
+ */
+export class ZefixResultListTooLargeError extends ZefixError {
+	constructor(
+		message: string,
+		status = 400,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'RESULTLIST_TO_LARGE', {
+			retryable: false,
+			details,
+			...options,
+		});
+		this.name = 'ZefixResultListTooLargeError';
+		Object.setPrototypeOf(this, ZefixResultListTooLargeError.prototype);
+	}
+}
+
+/**
+ * The search name consists of words Zefix does not accept (INVALID_QUERY_WORDS)
+ */
+export class ZefixInvalidQueryWordsError extends ZefixError {
+	constructor(
+		message: string,
+		status = 400,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'INVALID_QUERY_WORDS', {
+			retryable: false,
+			details,
+			...options,
+		});
+		this.name = 'ZefixInvalidQueryWordsError';
+		Object.setPrototypeOf(this, ZefixInvalidQueryWordsError.prototype);
+	}
+}
+
+/**
+ * The request parameters are invalid (INVALID_REQUEST_DATA)
+ */
+export class ZefixInvalidRequestDataError extends ZefixError {
+	constructor(
+		message: string,
+		status = 400,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'INVALID_REQUEST_DATA', {
+			retryable: false,
+			details,
+			...options,
+		});
+		this.name = 'ZefixInvalidRequestDataError';
+		Object.setPrototypeOf(this, ZefixInvalidRequestDataError.prototype);
+	}
+}
+
+/**
+ * Zefix failed to process the request (INTERNAL_SERVER_ERROR or any 5xx)
+ */
+export class ZefixServerError extends ZefixError {
+	constructor(
+		message: string,
+		status = 500,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'INTERNAL_SERVER_ERROR', {
+			retryable: true,
+			details,
+			...options,
+		});
+		this.name = 'ZefixServerError';
+		Object.setPrototypeOf(this, ZefixServerError.prototype);
+	}
+}
+
+/**
+ * The credentials were missing or rejected (401/403)
+ */
+export class ZefixAuthenticationError extends ZefixError {
+	constructor(
+		message: string,
+		status = 401,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'UNAUTHORIZED', {
+			retryable: false,
+			details,
+			...options,
+		});
+		this.name = 'ZefixAuthenticationError';
+		Object.setPrototypeOf(this, ZefixAuthenticationError.prototype);
 	}
 }
 
+/**
+ * Zefix rejected the request because of too many requests (429)
+ */
+export class ZefixRateLimitError extends ZefixError {
+	constructor(
+		message: string,
+		status = 429,
+		details?: unknown,
+		options: ZefixErrorOptions = {},
+	) {
+		super(message, status, 'RATE_LIMITED', {
+			retryable: true,
+			details,
+			...options,
+		});
+		this.name = 'ZefixRateLimitError';
+		Object.setPrototypeOf(this, ZefixRateLimitError.prototype);
+	}
+}
+
+/**
+ * The request did not reach Zefix or no response arrived (DNS, connection reset, ...)
+ */
+export class ZefixNetworkError extends ZefixError {
+	constructor(message: string, options: ZefixErrorOptions = {}) {
+		super(message, undefined, 'NETWORK_ERROR', {
+			retryable: true,
+			...options,
+		});
+		this.name = 'ZefixNetworkError';
+		Object.setPrototypeOf(this, ZefixNetworkError.prototype);
+	}
+}
+
+/**
+ * The request was aborted by a timeout signal
+ */
+export class ZefixTimeoutError extends ZefixError {
+	constructor(message: string, options: ZefixErrorOptions = {}) {
+		super(message, undefined, 'TIMEOUT', {
+			retryable: true,
+			...options,
+		});
+		this.name = 'ZefixTimeoutError';
+		Object.setPrototypeOf(this, ZefixTimeoutError.prototype);
+	}
+}
+
+/**
+ * A successful response does not match the OpenAPI spec
+ * (raised with `validateResponses: 'strict'`)
+ */
+export class ZefixResponseValidationError extends ZefixError {
+	constructor(
+		/** Every mismatch, with the JSON path of the offending value */
+		public readonly issues: ValidationIssue[],
+		status?: number,
+		options: ZefixErrorOptions = {},
+	) {
+		super(
+			`ZEFIX API response does not match the spec: ${formatValidationIssues(issues)}`,
+			status,
+			'INVALID_RESPONSE',
+			{retryable: false, ...options},
+		);
+		this.name = 'ZefixResponseValidationError';
+		Object.setPrototypeOf(this, ZefixResponseValidationError.prototype);
+	}
+}
+
+function isErrorOptions(
+	value: unknown,
+): value is ZefixErrorOptions | undefined {
+	if (value === undefined) return true;
+	if (typeof value !== 'object' || value === null) return false;
+	const prototype = Object.getPrototypeOf(value) as unknown;
+	return (
+		(prototype === Object.prototype || prototype === null) &&
+		Object.keys(value).every((key) => ERROR_OPTION_KEYS.has(key))
+	);
+}
+
+type HttpErrorClass = new (
+	message: string,
+	status?: number,
+	details?: unknown,
+	options?: ZefixErrorOptions,
+) => ZefixError;
+
+const ERROR_CLASSES_BY_TYPE: Record<
+	NonNullable<ErrorDetails['type']>,
+	HttpErrorClass
+> = {
+	NOT_FOUND: ZefixNotFoundError,
+	RESULTLIST_TO_LARGE: ZefixResultListTooLargeError,
+	INVALID_QUERY_WORDS: ZefixInvalidQueryWordsError,
+	INVALID_REQUEST_DATA: ZefixInvalidRequestDataError,
+	INTERNAL_SERVER_ERROR: ZefixServerError,
+};
+
+function selectErrorClass(
+	type: string | undefined,
+	status: number,
+): HttpErrorClass | undefined {
+	if (type && type in ERROR_CLASSES_BY_TYPE) {
+		return ERROR_CLASSES_BY_TYPE[type as keyof typeof ERROR_CLASSES_BY_TYPE];
+	}
+
+	if (status === 401 || status === 403) return ZefixAuthenticationError;
+	if (status === 404) return ZefixNotFoundError;
+	if (status === 429) return ZefixRateLimitError;
+	if (status >= 500) return ZefixServerError;
+	return undefined;
+}
+
+function getErrorDetails(error: unknown): ErrorDetails | undefined {
+	if (typeof error !== 'object' || error === null || !('error' in error)) {
+		return undefined;
+	}
+
+	const details = (error as {error?: unknown}).error;
+	return typeof details === 'object' && details !== null
+		? (details as ErrorDetails)
+		: undefined;
+}
+
+const SENSITIVE_KEY_RE = /pass(word)?|secret|token|auth/i;
+
+/**
+ * Replace credential-like fields of a request body with a placeholder
+ */
+export function redactBody(body: unknown): unknown {
+	if (Array.isArray(body)) {
+		return body.map((item) => redactBody(item));
+	}
+
+	if (typeof body === 'object' && body !== null) {
+		return Object.fromEntries(
+			Object.entries(body).map(([key, value]) => [
+				key,
+				SENSITIVE_KEY_RE.test(key) ? '[REDACTED]' : redactBody(value),
+			]),
+		);
+	}
+
+	return body;
+}
+
+const requestInfos = new WeakMap<Request, ZefixRequestInfo>();
+
+/**
+ * Remember the method, URL and redacted body of an outgoing request, so
+ * errors can later be attributed to it even after its body was consumed
+ */
+export function rememberRequest(request: Request, body?: unknown): void {
+	requestInfos.set(request, {
+		method: request.method,
+		url: stripUserInfo(request.url),
+		...(body === undefined ? {} : {body: redactBody(body)}),
+	});
+}
+
+/**
+ * Describe a request for error reporting
+ */
+export function getRequestInfo(request: Request): ZefixRequestInfo {
+	return (
+		requestInfos.get(request) ?? {
+			method: request.method,
+			url: stripUserInfo(request.url),
+		}
+	);
+}
+
+function stripUserInfo(url: string): string {
+	const parsed = new URL(url);
+	parsed.username = '';
+	parsed.password = '';
+	return parsed.toString();
+}
+
+/**
+ * Wrap a fetch implementation so transport failures reject with
+ * {@link ZefixNetworkError} or {@link ZefixTimeoutError}. Aborts by the caller
+ * are passed through unchanged.
+ */
+export function withNetworkErrors(fetchImpl: typeof fetch): typeof fetch {
+	return async (input, init) => {
+		try {
+			return await fetchImpl(input, init);
+		} catch (error) {
+			if (error instanceof ZefixError) throw error;
+
+			const request = input instanceof Request ? input : undefined;
+			const options: ZefixErrorOptions = {
+				cause: error,
+				request: request && getRequestInfo(request),
+			};
+			const name = error instanceof Error ? error.name : undefined;
+
+			if (name === 'TimeoutError') {
+				throw new ZefixTimeoutError('ZEFIX API request timed out', options);
+			}
+
+			if (name === 'AbortError') throw error;
+
+			const reason = error instanceof Error ? `: ${error.message}` : '';
+			throw new ZefixNetworkError(`ZEFIX API request failed${reason}`, options);
+		}
+	};
+}
+
 /**
  * Type for API response with data and error
  */
 export type ApiResponse<T> = {
 	data?: T;
 	error?: unknown;
+	request?: Request;
 	response: {
 		status: number;
 		statusText: string;
@@ -42,18 +450,21 @@ export type ApiResponse<T> = {
 
 /**
  * Ensure API response is successful and return data
- * @throws {ZefixError} if response has error or no data
+ * @throws {ZefixError} if response has error or no data, as the subclass
+ * matching the error type (e.g. {@link ZefixNotFoundError})
  */
 export async function ensureOk<T>(
 	response: ApiResponse<T> | Promise<ApiResponse<T>>,
 ): Promise<T> {
 	const result = await response;
+	const request = result.request && getRequestInfo(result.request);
 
 	if (result.error) {
 		throw ZefixError.fromResponse({
 			status: result.response.status,
 			statusText: result.response.statusText,
 			error: result.error,
+			request,
 		});
 	}
 
@@ -62,6 +473,9 @@ export async function ensureOk<T>(
 			'No data in response',
 			result.response.status,
 			'NO_DATA',
+			{
+				request,
+			},
 		);
 	}
 
@@ -0,0 +1,138 @@
+/**
+ * Resolution of multilingual `DfieString` values
+ */
+
+import type {DfieString} from '../generated/types.gen';
+import {
+	getDefaultLanguageForCanton,
+	isValidCanton,
+	ZEFIX_LANGUAGES,
+	type ZefixLanguage,
+} from './type-guards';
+
+export type LocalizeOptions = {
+	/**
+	 * Languages tried in order when the value has no text in the requested one
+	 * @default the canton's language (if `canton` is set), then de, fr, it, en
+	 */
+	fallback?: readonly ZefixLanguage[];
+	/**
+	 * Canton whose official language is tried first, e.g. the canton of the
+	 * company the value belongs to
+	 */
+	canton?: string;
+};
+
+/**
+ * Replaces every `DfieString` in a response type with the text of one language
+ */
+export type LocalizedView<T> = T extends DfieString
+	? Exclude<keyof T, ZefixLanguage> extends never
+		? string | undefined
+		: LocalizedObject<T>
+	: T extends Array<infer Item>
+		? Array<LocalizedView<Item>>
+		: T extends Record<string, unknown>
+			? LocalizedObject<T>
+			: T;
+
+type LocalizedObject<T> = {[Key in keyof T]: LocalizedView<T[Key]>};
+
+/**
+ * Languages to try for a value, without duplicates: `lang`, then the
+ * fallback languages
+ */
+export function getLanguageFallbackChain(
+	lang: ZefixLanguage,
+	options: LocalizeOptions = {},
+): ZefixLanguage[] {
+	const canton = options.canton?.toUpperCase();
+	const cantonLanguage =
+		canton && isValidCanton(canton)
+			? [getDefaultLanguageForCanton(canton)]
+			: [];
+	const fallback = options.fallback ?? [...cantonLanguage, ...ZEFIX_LANGUAGES];
+	return [...new Set([lang, ...fallback])];
+}
+
+/**
+ * Pick the text of a multilingual value, falling back to other languages
+ * when it is missing or empty
+ *
+ * @example
+ * localize(legalForm.name, 'en') // 'Corporation', or the German name if there is no English one
+ * localize(legalForm.name, 'it', {canton: 'GE'}) // Italian, else French, else German, ...
+ * localize(legalForm.name, 'fr', {fallback: []}) // French only
+ */
+export function localize(
+	value: DfieString | undefined,
+	lang: ZefixLanguage,
+	options?: LocalizeOptions,
+): string | undefined {
+	if (!value) return undefined;
+
+	for (const language of getLanguageFallbackChain(lang, options)) {
+		const text = value[language];
+		if (text) return text;
+	}
+
+	return undefined;
+}
+
+/**
+ * Check if a value is a `DfieString`: a non-empty object whose keys are all
+ * language codes with string values
+ */
+export function isDfieString(value: unknown): value is DfieString {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return false;
+	}
+
+	const entries = Object.entries(value);
+	return (
+		entries.length > 0 &&
+		entries.every(
+			([key, text]) =>
+				ZEFIX_LANGUAGES.includes(key as ZefixLanguage) &&
+				(text === undefined || typeof text === 'string'),
+		)
+	);
+}
+
+/**
+ * Convert a response, e.g. a `CompanyFull` or a list of legal forms, into a
+ * copy with every `DfieString` replaced by the text of one language
+ *
+ * @example
+ * const [company] = await ensureOk(zefix.getCompanyByUid({path: {id}}));
+ * const view = toLocalizedView(company, 'fr');
+ * view.legalForm?.name; // 'Société anonyme'
+ * view.zefixDetailWeb; // the French Zefix URL
+ */
+export function toLocalizedView<T>(
+	value: T,
+	lang: ZefixLanguage,
+	options?: LocalizeOptions,
+): LocalizedView<T> {
+	return localizeNode(value, lang, options) as LocalizedView<T>;
+}
+
+function localizeNode(
+	value: unknown,
+	lang: ZefixLanguage,
+	options: LocalizeOptions | undefined,
+): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => localizeNode(item, lang, options));
+	}
+
+	if (typeof value !== 'object' || value === null) return value;
+	if (isDfieString(value)) return localize(value, lang, options);
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, nested]) => [
+			key,
+			localizeNode(nested, lang, options),
+		]),
+	);
+}
@@ -0,0 +1,183 @@
+/**
+ * Token-bucket rate limiting for ZEFIX API requests
+ */
+
+import {sleep} from './sleep';
+
+/**
+ * Token bucket parameters
+ */
+export type TokenBucketOptions = {
+	/** Maximum number of tokens, i.e. the allowed burst size */
+	capacity: number;
+	/** Number of tokens added per second */
+	refillPerSecond: number;
+};
+
+/**
+ * Persisted state of a single bucket
+ */
+export type TokenBucketState = {
+	tokens: number;
+	/** Timestamp (ms) of the last refill */
+	updatedAt: number;
+};
+
+/**
+ * Storage backend for token buckets.
+ *
+ * `take` must be atomic per key: implementations backed by a Durable Object,
+ * Redis or similar should run the whole read-refill-consume cycle in one
+ * transaction (e.g. inside the object or a Lua script), using
+ * {@link takeToken} for the arithmetic.
+ */
+export type RateLimitStore = {
+	/**
+	 * Try to take one token from the bucket
+	 * @returns 0 if a token was taken, otherwise the milliseconds until one is available
+	 */
+	take(key: string, bucket: TokenBucketOptions): Promise<number>;
+};
+
+/**
+ * Refill the bucket for the elapsed time and try to take one token
+ */
+export function takeToken(
+	state: TokenBucketState | undefined,
+	bucket: TokenBucketOptions,
+	now: number,
+): {state: TokenBucketState; waitMs: number} {
+	const previous = state ?? {tokens: bucket.capacity, updatedAt: now};
+	const elapsed = Math.max(0, now - previous.updatedAt);
+	const tokens = Math.min(
+		bucket.capacity,
+		previous.tokens + (elapsed / 1000) * bucket.refillPerSecond,
+	);
+
+	if (tokens >= 1) {
+		return {state: {tokens: tokens - 1, updatedAt: now}, waitMs: 0};
+	}
+
+	const waitMs = Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000);
+	return {state: {tokens, updatedAt: now}, waitMs};
+}
+
+/**
+ * In-memory bucket store, scoped to a single isolate or process
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+	private readonly buckets = new Map<string, TokenBucketState>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async take(key: string, bucket: TokenBucketOptions): Promise<number> {
+		const {state, waitMs} = takeToken(
+			this.buckets.get(key),
+			bucket,
+			this.now(),
+		);
+		this.buckets.set(key, state);
+		return waitMs;
+	}
+}
+
+export type RateLimitOptions = TokenBucketOptions & {
+	/**
+	 * Bucket storage; share a store to share one quota between clients
+	 * @default new InMemoryRateLimitStore()
+	 */
+	store?: RateLimitStore;
+	/**
+	 * Bucket key within the store
+	 * @default 'zefix'
+	 */
+	key?: string;
+};
+
+/**
+ * Token-bucket rate limiter with a FIFO wait queue
+ */
+export class RateLimiter {
+	private readonly store: RateLimitStore;
+	private readonly key: string;
+	private readonly bucket: TokenBucketOptions;
+	private tail: Promise<void> = Promise.resolve();
+
+	constructor(options: RateLimitOptions) {
+		if (!(options.capacity >= 1) || !(options.refillPerSecond > 0)) {
+			throw new RangeError(
+				'Rate limit requires capacity >= 1 and refillPerSecond > 0',
+			);
+		}
+
+		this.store = options.store ?? new InMemoryRateLimitStore();
+		this.key = options.key ?? 'zefix';
+		this.bucket = {
+			capacity: options.capacity,
+			refillPerSecond: options.refillPerSecond,
+		};
+	}
+
+	/**
+	 * Wait for a token. Callers are served in the order they called `acquire`.
+	 * @throws the signal's abort reason if aborted while waiting
+	 */
+	async acquire(signal?: AbortSignal): Promise<void> {
+		const previous = this.tail;
+		let release!: () => void;
+		this.tail = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		try {
+			await waitOrAbort(previous, signal);
+
+			for (;;) {
+				const waitMs = await this.store.take(this.key, this.bucket);
+				if (waitMs <= 0) return;
+				await sleep(waitMs, signal);
+			}
+		} finally {
+			// Never let a waiter that gave up overtake the ones before it
+			void previous.then(release);
+		}
+	}
+
+	/**
+	 * Wrap a fetch implementation so every call waits for a token first
+	 */
+	wrap(fetchImpl: typeof fetch): typeof fetch {
+		return async (input, init) => {
+			await this.acquire(
+				init?.signal ?? (input instanceof Request ? input.signal : undefined),
+			);
+			return fetchImpl(input, init);
+		};
+	}
+}
+
+async function waitOrAbort(
+	promise: Promise<void>,
+	signal?: AbortSignal,
+): Promise<void> {
+	if (!signal) {
+		await promise;
+		return;
+	}
+
+	signal.throwIfAborted();
+	let onAbort!: () => void;
+	const aborted = new Promise<never>((_resolve, reject) => {
+		onAbort = () => {
+			reject(signal.reason as Error);
+		};
+
+		signal.addEventListener('abort', onAbort, {once: true});
+	});
+
+	try {
+		await Promise.race([promise, aborted]);
+	} finally {
+		signal.removeEventListener('abort', onAbort);
+	}
+}
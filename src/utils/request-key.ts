@@ -0,0 +1,126 @@
+/**
+ * Helpers identifying ZEFIX API requests, shared by caching and coalescing
+ */
+
+import {normalizeUid} from '../uid';
+
+/**
+ * ZEFIX API endpoints, as paths relative to `/api/v1/` without parameters
+ */
+export type ZefixEndpoint =
+	| 'company/search'
+	| 'company/uid'
+	| 'company/ehraid'
+	| 'company/chid'
+	| 'sogc'
+	| 'sogc/bydate'
+	| 'legalForm'
+	| 'community'
+	| 'registryOfCommerce'
+	| 'registryOfCommerce/byBfsCommunityId';
+
+const API_PREFIX = '/api/v1/';
+
+const ENDPOINT_PATTERNS: Array<[RegExp, ZefixEndpoint]> = [
+	[/^company\/search$/, 'company/search'],
+	[/^company\/uid\/[^/]+$/, 'company/uid'],
+	[/^company\/ehraid\/[^/]+$/, 'company/ehraid'],
+	[/^company\/chid\/[^/]+$/, 'company/chid'],
+	[/^sogc\/bydate\/[^/]+$/, 'sogc/bydate'],
+	[/^sogc\/[^/]+$/, 'sogc'],
+	[/^legalForm$/, 'legalForm'],
+	[/^community$/, 'community'],
+	[/^registryOfCommerce$/, 'registryOfCommerce'],
+	[
+		/^registryOfCommerce\/byBfsCommunityId\/[^/]+$/,
+		'registryOfCommerce/byBfsCommunityId',
+	],
+];
+
+/**
+ * Get the API path of a URL relative to `/api/v1/`, e.g. `company/uid/CHE-123.456.789`
+ */
+export function getApiPath(url: string): string | undefined {
+	const {pathname} = new URL(url);
+	const index = pathname.indexOf(API_PREFIX);
+	if (index === -1) return undefined;
+	return decodeURIComponent(pathname.slice(index + API_PREFIX.length));
+}
+
+/**
+ * Identify the ZEFIX endpoint a URL points to
+ */
+export function getEndpoint(url: string): ZefixEndpoint | undefined {
+	const path = getApiPath(url);
+	if (path === undefined) return undefined;
+	return ENDPOINT_PATTERNS.find(([pattern]) => pattern.test(path))?.[1];
+}
+
+/**
+ * Get the canonical API path for a company UID lookup, so every spelling of
+ * the same UID maps to the same path
+ */
+export function getUidPath(uid: string): string {
+	return `company/uid/${normalizeUid(uid) ?? uid}`;
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal bodies produce equal strings
+ */
+export function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_key, nested: unknown) => {
+		if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+			return Object.fromEntries(
+				Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1)),
+			);
+		}
+
+		return nested;
+	});
+}
+
+/**
+ * Identify the API a request goes to and the account it is sent with: the URL
+ * up to `/api/v1/` and a SHA-256 hash of the `Authorization` header, so
+ * clients of different environments or accounts never share keys
+ */
+export async function getRequestScope(request: Request): Promise<string> {
+	const url = new URL(request.url);
+	const index = url.pathname.indexOf(API_PREFIX);
+	const root = url.origin + (index === -1 ? '' : url.pathname.slice(0, index));
+	const authorization = request.headers.get('Authorization');
+	if (!authorization) return `${root} anonymous`;
+
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(authorization),
+	);
+	const hash = Array.from(new Uint8Array(digest, 0, 8), (byte) =>
+		byte.toString(16).padStart(2, '0'),
+	).join('');
+	return `${root} ${hash}`;
+}
+
+/**
+ * Build a key identifying a request by scope (see {@link getRequestScope}),
+ * method, canonical path, query and body
+ */
+export async function createRequestKey(request: Request): Promise<string> {
+	const url = new URL(request.url);
+	let path = getApiPath(request.url) ?? url.pathname;
+	if (getEndpoint(request.url) === 'company/uid') {
+		path = getUidPath(path.slice('company/uid/'.length));
+	}
+
+	let key = `${await getRequestScope(request)} ${request.method} ${path}${url.search}`;
+	const body = request.body ? await request.clone().text() : '';
+	if (body) {
+		try {
+			key += ` ${stableStringify(JSON.parse(body))}`;
+		} catch {
+			key += ` ${body}`;
+		}
+	}
+
+	return key;
+}
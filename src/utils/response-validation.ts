@@ -0,0 +1,94 @@
+/**
+ * Validation of successful ZEFIX API responses against the OpenAPI spec
+ */
+
+import {responseSchemas, schemas} from '../generated/validators.gen';
+import {getRequestInfo, ZefixResponseValidationError} from './errors';
+import {getEndpoint, type ZefixEndpoint} from './request-key';
+import {createValidator, type Validator} from './validation';
+
+/**
+ * - `off`: responses are not checked
+ * - `warn`: mismatches are reported, the response is returned unchanged
+ * - `strict`: mismatches reject with `ZefixResponseValidationError`
+ */
+export type ValidateResponsesMode = 'off' | 'warn' | 'strict';
+
+export type ResponseValidationOptions = {
+	mode: Exclude<ValidateResponsesMode, 'off'>;
+	/**
+	 * Called for every mismatch in `warn` mode
+	 * @default console.warn of the error message
+	 */
+	onInvalidResponse?: (error: ZefixResponseValidationError) => void;
+};
+
+const validators = new Map<ZefixEndpoint, Validator<unknown>>();
+
+/**
+ * Responses returned despite failing validation in `warn` mode
+ */
+const invalidResponses = new WeakSet<Response>();
+
+/**
+ * Whether a response failed validation, so the cache does not store it
+ */
+export function isInvalidResponse(response: Response): boolean {
+	return invalidResponses.has(response);
+}
+
+function getValidator(endpoint: ZefixEndpoint): Validator<unknown> {
+	let validator = validators.get(endpoint);
+	if (!validator) {
+		validator = createValidator(responseSchemas[endpoint], schemas);
+		validators.set(endpoint, validator);
+	}
+
+	return validator;
+}
+
+/**
+ * Wrap a fetch implementation so that successful responses of known
+ * endpoints are checked against the schema of their 200 response
+ */
+export function withResponseValidation(
+	fetchImpl: typeof fetch,
+	options: ResponseValidationOptions,
+): typeof fetch {
+	return async (input, init) => {
+		const request =
+			input instanceof Request && !init ? input : new Request(input, init);
+		const response = await fetchImpl(request);
+		const endpoint = getEndpoint(request.url);
+		if (!response.ok || !endpoint) return response;
+
+		let body: unknown;
+		try {
+			body = await response.clone().json();
+		} catch {
+			body = undefined;
+		}
+
+		const result = getValidator(endpoint)(body);
+		if (result.valid) return response;
+
+		const error = new ZefixResponseValidationError(
+			result.issues,
+			response.status,
+			{request: getRequestInfo(request)},
+		);
+		if (options.mode === 'strict') {
+			await response.body?.cancel();
+			throw error;
+		}
+
+		if (options.onInvalidResponse) {
+			options.onInvalidResponse(error);
+		} else {
+			console.warn(error.message);
+		}
+
+		invalidResponses.add(response);
+		return response;
+	};
+}
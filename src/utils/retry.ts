@@ -0,0 +1,237 @@
+/**
+ * Retry policy for transient ZEFIX API failures
+ */
+
+import type {ErrorDetails} from '../generated/types.gen';
+import {sleep} from './sleep';
+
+export type ZefixErrorType = NonNullable<ErrorDetails['type']>;
+
+export type RetryAttempt = {
+	/** Attempt that just failed (1-based) */
+	attempt: number;
+	/** Delay before the next attempt */
+	delayMs: number;
+	request: Request;
+	/** Failed response, absent for network errors */
+	response?: Response;
+	/** Network error, absent for HTTP failures */
+	error?: unknown;
+};
+
+export type RetryOptions = {
+	/**
+	 * Total number of attempts, including the first one
+	 * @default 3
+	 */
+	maxAttempts?: number;
+	/**
+	 * Delay before the first retry
+	 * @default 500
+	 */
+	initialDelayMs?: number;
+	/**
+	 * Upper bound for any single delay, including Retry-After
+	 * @default 30_000
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Multiplier applied to the delay after every attempt
+	 * @default 2
+	 */
+	backoffFactor?: number;
+	/**
+	 * Randomization of the computed delay:
+	 * - `full`: uniformly between 0 and the delay
+	 * - `equal`: uniformly between half the delay and the delay
+	 * - `none`: the exact delay
+	 * @default 'full'
+	 */
+	jitter?: 'full' | 'equal' | 'none';
+	/**
+	 * HTTP statuses that are retried
+	 * @default [429, 500, 502, 503, 504]
+	 */
+	retryOnStatus?: number[];
+	/**
+	 * `ErrorDetails.type` values that are retried regardless of the status
+	 * @default ['INTERNAL_SERVER_ERROR']
+	 */
+	retryOnErrorTypes?: ZefixErrorType[];
+	/**
+	 * Retry when fetch itself rejects (DNS, connection reset, ...)
+	 * @default true
+	 */
+	retryOnNetworkError?: boolean;
+	/**
+	 * Use the Retry-After header as the delay when it is longer than the backoff
+	 * @default true
+	 */
+	respectRetryAfter?: boolean;
+	/**
+	 * HTTP methods that are retried. Only idempotent methods by default; add
+	 * `POST` to opt in to retrying `/api/v1/company/search`.
+	 * @default ['GET', 'HEAD', 'OPTIONS']
+	 */
+	methods?: string[];
+	/**
+	 * Called before waiting for the next attempt
+	 */
+	onRetry?: (attempt: RetryAttempt) => void;
+};
+
+type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> &
+	Pick<RetryOptions, 'onRetry'>;
+
+const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+	maxAttempts: 3,
+	initialDelayMs: 500,
+	maxDelayMs: 30_000,
+	backoffFactor: 2,
+	jitter: 'full',
+	retryOnStatus: [429, 500, 502, 503, 504],
+	retryOnErrorTypes: ['INTERNAL_SERVER_ERROR'],
+	retryOnNetworkError: true,
+	respectRetryAfter: true,
+	methods: ['GET', 'HEAD', 'OPTIONS'],
+};
+
+/**
+ * Compute the backoff delay before the retry following `attempt` (1-based)
+ */
+export function computeRetryDelay(
+	attempt: number,
+	options: RetryOptions = {},
+	random: () => number = Math.random,
+): number {
+	const {initialDelayMs, maxDelayMs, backoffFactor, jitter} = {
+		...DEFAULT_RETRY_OPTIONS,
+		...options,
+	};
+	const delay = Math.min(
+		maxDelayMs,
+		initialDelayMs * backoffFactor ** (attempt - 1),
+	);
+
+	switch (jitter) {
+		case 'full': {
+			return Math.round(random() * delay);
+		}
+
+		case 'equal': {
+			return Math.round(delay / 2 + (random() * delay) / 2);
+		}
+
+		case 'none': {
+			return delay;
+		}
+	}
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ * @returns the delay or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(
+	value: string | undefined,
+	now: number = Date.now(),
+): number | undefined {
+	if (!value) return undefined;
+	const trimmed = value.trim();
+
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+
+	const date = Date.parse(trimmed);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(0, date - now);
+}
+
+async function readErrorType(
+	response: Response,
+): Promise<ZefixErrorType | undefined> {
+	try {
+		const body: {error?: ErrorDetails} = await response.clone().json();
+		return body?.error?.type;
+	} catch {
+		return undefined;
+	}
+}
+
+async function isRetryableResponse(
+	response: Response,
+	options: ResolvedRetryOptions,
+): Promise<boolean> {
+	if (response.ok) return false;
+	if (options.retryOnStatus.includes(response.status)) return true;
+	if (options.retryOnErrorTypes.length === 0) return false;
+
+	const type = await readErrorType(response);
+	return type !== undefined && options.retryOnErrorTypes.includes(type);
+}
+
+/**
+ * Wrap a fetch implementation with the given retry policy
+ */
+export function withRetry(
+	fetchImpl: typeof fetch,
+	retryOptions: RetryOptions = {},
+): typeof fetch {
+	const options: ResolvedRetryOptions = {
+		...DEFAULT_RETRY_OPTIONS,
+		...retryOptions,
+	};
+	const methods = new Set(options.methods.map((m) => m.toUpperCase()));
+
+	return async (input, init) => {
+		const request = new Request(input, init);
+		if (!methods.has(request.method) || options.maxAttempts <= 1) {
+			return fetchImpl(request);
+		}
+
+		for (let attempt = 1; ; attempt++) {
+			const isLastAttempt = attempt >= options.maxAttempts;
+			let response: Response | undefined;
+			let error: unknown;
+
+			try {
+				// Keep the original request unconsumed for later attempts
+				const attemptRequest = isLastAttempt ? request : request.clone();
+				response = await fetchImpl(attemptRequest as Request);
+			} catch (error_) {
+				if (
+					isLastAttempt ||
+					!options.retryOnNetworkError ||
+					request.signal.aborted
+				) {
+					throw error_;
+				}
+
+				error = error_;
+			}
+
+			if (response) {
+				if (isLastAttempt || !(await isRetryableResponse(response, options))) {
+					return response;
+				}
+
+				// Release the connection held by the discarded body
+				await response.body?.cancel();
+			}
+
+			let delayMs = computeRetryDelay(attempt, options);
+			if (options.respectRetryAfter && response) {
+				const retryAfter = parseRetryAfter(
+					response.headers.get('Retry-After') ?? undefined,
+				);
+				if (retryAfter !== undefined) {
+					delayMs = Math.min(options.maxDelayMs, Math.max(delayMs, retryAfter));
+				}
+			}
+
+			options.onRetry?.({attempt, delayMs, request, response, error});
+			await sleep(delayMs, request.signal);
+		}
+	};
+}
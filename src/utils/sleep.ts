@@ -0,0 +1,26 @@
+/**
+ * Timer helpers that work in both Workers and Node.js
+ */
+
+/**
+ * Wait for the given number of milliseconds
+ * @throws the signal's abort reason if the signal is aborted before the delay elapses
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	signal?.throwIfAborted();
+	if (ms <= 0) return;
+
+	await new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason as Error);
+		};
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
@@ -9,6 +9,10 @@ import type {
 	LegalForm,
 	RestApiErrorResponse,
 } from '../generated/types.gen';
+import {
+	validateBfsCommunity,
+	validateLegalForm,
+} from '../generated/validators.gen';
 
 /**
  * Check if a value is a ZEFIX error response
@@ -44,16 +48,13 @@ export function isCompanyFull(value: unknown): value is CompanyFull {
 }
 
 /**
- * Check if a value is a legal form
+ * Check if a value is a legal form, with its name in up to four languages
  */
 export function isLegalForm(value: unknown): value is LegalForm {
 	return (
-		typeof value === 'object' &&
-		value !== null &&
-		'id' in value &&
-		'name' in value &&
-		typeof (value as {id?: unknown}).id === 'number' &&
-		typeof (value as {name?: unknown}).name === 'string'
+		validateLegalForm(value).valid &&
+		typeof (value as LegalForm).id === 'number' &&
+		(value as LegalForm).name !== undefined
 	);
 }
 
@@ -62,12 +63,9 @@ export function isLegalForm(value: unknown): value is LegalForm {
  */
 export function isBfsCommunity(value: unknown): value is BfsCommunity {
 	return (
-		typeof value === 'object' &&
-		value !== null &&
-		'communityName' in value &&
-		'bfsId' in value &&
-		typeof (value as {communityName?: unknown}).communityName === 'string' &&
-		typeof (value as {bfsId?: unknown}).bfsId === 'number'
+		validateBfsCommunity(value).valid &&
+		typeof (value as BfsCommunity).bfsId === 'number' &&
+		typeof (value as BfsCommunity).name === 'string'
 	);
 }
 
@@ -0,0 +1,245 @@
+/**
+ * Zero-dependency runtime for the validators generated from the OpenAPI spec
+ */
+
+/**
+ * A schema of the OpenAPI spec, reduced to what validation needs
+ */
+export type SchemaNode =
+	| {ref: string}
+	| {
+			type: 'string';
+			enum?: readonly string[];
+			format?: string;
+			minLength?: number;
+			maxLength?: number;
+	  }
+	| {type: 'integer' | 'number'; minimum?: number; maximum?: number}
+	| {type: 'boolean'}
+	| {type: 'array'; items: SchemaNode}
+	| {
+			type: 'object';
+			properties: Record<string, SchemaNode>;
+			required?: readonly string[];
+	  };
+
+/**
+ * A mismatch between a value and its schema
+ */
+export type ValidationIssue = {
+	/** JSON path of the mismatching value, e.g. `$[0].legalForm.name` */
+	path: string;
+	/** What the schema expects, e.g. `DfieString` or `integer` */
+	expected: string;
+	/** What was found, e.g. `string` or `null` */
+	received: string;
+};
+
+export type ValidationResult<T> =
+	| {valid: true; value: T}
+	| {valid: false; issues: ValidationIssue[]};
+
+/**
+ * Validate a value, returning the value typed on success
+ */
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Create a validator for a schema node, resolving `ref` nodes in `schemas`
+ */
+export function createValidator<T>(
+	node: SchemaNode,
+	schemas: Record<string, SchemaNode>,
+): Validator<T> {
+	return (value) => {
+		const issues: ValidationIssue[] = [];
+		validateNode({node, value, path: '$', schemas, issues});
+		return issues.length === 0
+			? {valid: true, value: value as T, issues: []}
+			: {valid: false, issues};
+	};
+}
+
+/**
+ * Format issues for error messages, e.g. `$.name: expected string, received number`
+ */
+export function formatValidationIssues(
+	issues: ValidationIssue[],
+	limit = 3,
+): string {
+	const shown = issues
+		.slice(0, limit)
+		.map(
+			(issue) =>
+				`${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+		)
+		.join('; ');
+	return issues.length > limit
+		? `${shown} (+${issues.length - limit} more)`
+		: shown;
+}
+
+type ValidationContext = {
+	node: SchemaNode;
+	value: unknown;
+	path: string;
+	schemas: Record<string, SchemaNode>;
+	issues: ValidationIssue[];
+	/** Name of the referenced schema being validated, for messages */
+	name?: string;
+};
+
+type Report = (expected: string, received?: string) => void;
+
+function validateNode(context: ValidationContext): void {
+	const {node, value, path, schemas, issues} = context;
+	const report: Report = (expected, received = describe(value)) => {
+		issues.push({path, expected, received});
+	};
+
+	if ('ref' in node) {
+		const target = schemas[node.ref];
+		if (!target) throw new Error(`Unknown schema: ${node.ref}`);
+		validateNode({...context, node: target, name: node.ref});
+		return;
+	}
+
+	switch (node.type) {
+		case 'string': {
+			validateString(node, value, report);
+			return;
+		}
+
+		case 'integer':
+		case 'number': {
+			validateNumber(node, value, report);
+			return;
+		}
+
+		case 'boolean': {
+			if (typeof value !== 'boolean') report('boolean');
+			return;
+		}
+
+		case 'array': {
+			if (!Array.isArray(value)) {
+				report('array');
+				return;
+			}
+
+			for (const [index, item] of value.entries()) {
+				validateNode({
+					...context,
+					node: node.items,
+					value: item,
+					path: `${path}[${index}]`,
+					name: undefined,
+				});
+			}
+
+			return;
+		}
+
+		case 'object': {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				report(context.name ?? 'object');
+				return;
+			}
+
+			validateProperties(
+				{...context, name: undefined},
+				node,
+				value as Record<string, unknown>,
+			);
+		}
+	}
+}
+
+function validateString(
+	node: Extract<SchemaNode, {type: 'string'}>,
+	value: unknown,
+	report: Report,
+): void {
+	if (typeof value !== 'string') {
+		report('string');
+	} else if (node.enum && !node.enum.includes(value)) {
+		report(
+			`one of ${node.enum.map((item) => JSON.stringify(item)).join(', ')}`,
+			JSON.stringify(value),
+		);
+	} else if (node.format === 'date' && !ISO_DATE_RE.test(value)) {
+		report('date (YYYY-MM-DD)', JSON.stringify(value));
+	} else if (
+		(node.minLength !== undefined && value.length < node.minLength) ||
+		(node.maxLength !== undefined && value.length > node.maxLength)
+	) {
+		report(
+			`string of length ${node.minLength ?? 0}..${node.maxLength ?? '∞'}`,
+			`length ${value.length}`,
+		);
+	}
+}
+
+function validateNumber(
+	node: Extract<SchemaNode, {type: 'integer' | 'number'}>,
+	value: unknown,
+	report: Report,
+): void {
+	if (
+		typeof value !== 'number' ||
+		!Number.isFinite(value) ||
+		(node.type === 'integer' && !Number.isInteger(value))
+	) {
+		report(node.type);
+	} else if (
+		(node.minimum !== undefined && value < node.minimum) ||
+		(node.maximum !== undefined && value > node.maximum)
+	) {
+		report(
+			`${node.type} in ${node.minimum ?? '-∞'}..${node.maximum ?? '∞'}`,
+			String(value),
+		);
+	}
+}
+
+function validateProperties(
+	context: ValidationContext,
+	node: Extract<SchemaNode, {type: 'object'}>,
+	record: Record<string, unknown>,
+): void {
+	for (const key of node.required ?? []) {
+		if (record[key] === undefined) {
+			context.issues.push({
+				path: joinPath(context.path, key),
+				expected: 'required property',
+				received: 'undefined',
+			});
+		}
+	}
+
+	for (const [key, property] of Object.entries(node.properties)) {
+		if (record[key] === undefined) continue;
+		validateNode({
+			...context,
+			node: property,
+			value: record[key],
+			path: joinPath(context.path, key),
+		});
+	}
+}
+
+function joinPath(path: string, key: string): string {
+	return IDENTIFIER_RE.test(key)
+		? `${path}.${key}`
+		: `${path}[${JSON.stringify(key)}]`;
+}
+
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+	return typeof value;
+}
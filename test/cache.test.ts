@@ -0,0 +1,270 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {
+	CACHE_STATUS_HEADER,
+	type CacheApiLike,
+	CacheApiStore,
+	type CacheEntry,
+	KvCacheStore,
+	LruCacheStore,
+	ZefixApiClient,
+} from '../src';
+
+const HOUR = 60 * 60 * 1000;
+
+function countingFetch() {
+	let calls = 0;
+	return vi.fn<typeof fetch>(async () => {
+		calls++;
+		return Response.json([{name: `Response ${calls}`}]);
+	});
+}
+
+function entry(overrides: Partial<CacheEntry> = {}): CacheEntry {
+	return {
+		status: 200,
+		headers: [['content-type', 'application/json']],
+		body: '[]',
+		expiresAt: Date.now() + HOUR,
+		staleUntil: Date.now() + HOUR,
+		...overrides,
+	};
+}
+
+describe('ZefixApiClient cache option', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('serves repeated GETs from the cache', async () => {
+		const fetchMock = countingFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, cache: {}});
+
+		const first = await zefix.getLegalForms();
+		const second = await zefix.getLegalForms();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(second.data).toEqual(first.data);
+		expect(first.response.headers.get(CACHE_STATUS_HEADER)).toBe('MISS');
+		expect(second.response.headers.get(CACHE_STATUS_HEADER)).toBe('HIT');
+	});
+
+	it('shares company entries across UID spellings', async () => {
+		const fetchMock = countingFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, cache: {}});
+
+		await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+		await zefix.getCompanyByUid({path: {id: 'CHE123456789'}});
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('expires entries after the endpoint TTL', async () => {
+		vi.useFakeTimers({now: 0});
+		const fetchMock = countingFetch();
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			cache: {ttlMs: {'company/uid': HOUR}},
+		});
+		const lookup = async () =>
+			zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+
+		await lookup();
+		vi.setSystemTime(HOUR - 1);
+		await lookup();
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		vi.setSystemTime(HOUR);
+		await lookup();
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not cache searches or errors by default', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async (input) => {
+			const request = input as Request;
+			return request.method === 'POST'
+				? Response.json([])
+				: Response.json({error: {type: 'NOT_FOUND'}}, {status: 404});
+		});
+		const zefix = new ZefixApiClient({customFetch: fetchMock, cache: {}});
+
+		await zefix.searchCompanies({body: {name: 'Muster*'}});
+		await zefix.searchCompanies({body: {name: 'Muster*'}});
+		await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+		await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+	});
+
+	it('caches searches by normalized body when given a TTL', async () => {
+		const fetchMock = countingFetch();
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			cache: {ttlMs: {'company/search': HOUR}},
+		});
+
+		await zefix.searchCompanies({body: {name: 'Muster*', canton: 'ZH'}});
+		await zefix.searchCompanies({body: {canton: 'ZH', name: 'Muster*'}});
+		await zefix.searchCompanies({body: {name: 'Muster*', canton: 'BE'}});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('serves stale entries while revalidating in the background', async () => {
+		vi.useFakeTimers({now: 0});
+		const fetchMock = countingFetch();
+		const waitUntil = vi.fn();
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			cache: {
+				ttlMs: {legalForm: HOUR},
+				staleWhileRevalidateMs: HOUR,
+				waitUntil,
+			},
+		});
+
+		await zefix.getLegalForms();
+		vi.setSystemTime(HOUR + 1);
+
+		const stale = await zefix.getLegalForms();
+		expect(stale.data).toEqual([{name: 'Response 1'}]);
+		expect(stale.response.headers.get(CACHE_STATUS_HEADER)).toBe('STALE');
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+
+		await waitUntil.mock.calls[0][0];
+		const fresh = await zefix.getLegalForms();
+		expect(fresh.data).toEqual([{name: 'Response 2'}]);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('invalidates company lookups by UID', async () => {
+		const fetchMock = countingFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, cache: {}});
+
+		await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+		await zefix.cache!.invalidateUid('che 123 456 789');
+		await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('keeps environments and accounts apart in a shared store', async () => {
+		const fetchMock = countingFetch();
+		const store = new LruCacheStore();
+		const createClient = (baseUrl: string, username = 'user') =>
+			new ZefixApiClient({
+				baseUrl,
+				auth: {username, password: 'secret'},
+				customFetch: fetchMock,
+				cache: {store},
+			});
+		const production = 'https://www.zefix.admin.ch/ZefixPublicREST';
+
+		await createClient(production).getLegalForms();
+		await createClient('https://www.zefix.ch/ZefixREST').getLegalForms();
+		await createClient(production, 'other').getLegalForms();
+		const hit = await createClient(production).getLegalForms();
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(hit.response.headers.get(CACHE_STATUS_HEADER)).toBe('HIT');
+	});
+
+	it('invalidates entries stored by another client of the same account', async () => {
+		const fetchMock = countingFetch();
+		const store = new LruCacheStore();
+		const createClient = () =>
+			new ZefixApiClient({
+				auth: {username: 'user', password: 'secret'},
+				customFetch: fetchMock,
+				cache: {store},
+			});
+
+		await createClient().getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+		await createClient().cache!.invalidateUid('CHE123456789');
+		await createClient().getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('LruCacheStore', () => {
+	it('evicts the least recently used entry', async () => {
+		const store = new LruCacheStore(2);
+
+		await store.set('a', entry());
+		await store.set('b', entry());
+		await store.get('a');
+		await store.set('c', entry());
+
+		expect(store.size).toBe(2);
+		expect(await store.get('a')).toBeDefined();
+		expect(await store.get('b')).toBeUndefined();
+		expect(await store.get('c')).toBeDefined();
+	});
+});
+
+describe('CacheApiStore', () => {
+	it('stores entries as responses under synthetic URLs', async () => {
+		const responses = new Map<string, Response>();
+		const cache: CacheApiLike = {
+			async match(url) {
+				return responses.get(url)?.clone();
+			},
+			async put(url, response) {
+				responses.set(url, response);
+			},
+			async delete(url) {
+				return responses.delete(url);
+			},
+		};
+		const store = new CacheApiStore(cache);
+		const value = entry();
+
+		await store.set('zefix:GET legalForm', value, 2 * HOUR);
+
+		const [[url, response]] = responses;
+		expect(url).toBe('https://zefix-client.cache/zefix%3AGET%20legalForm');
+		expect(response.headers.get('Cache-Control')).toBe('max-age=7200');
+		expect(await store.get('zefix:GET legalForm')).toEqual(value);
+
+		await store.delete('zefix:GET legalForm');
+		expect(await store.get('zefix:GET legalForm')).toBeUndefined();
+	});
+});
+
+describe('KvCacheStore', () => {
+	it('stores JSON with an expirationTtl of at least 60 seconds', async () => {
+		const values = new Map<string, string>();
+		const put = vi.fn(async (key: string, value: string) => {
+			values.set(key, value);
+		});
+		const store = new KvCacheStore({
+			async get(key) {
+				return values.get(key) ?? null;
+			},
+			put,
+			async delete(key) {
+				values.delete(key);
+			},
+		});
+		const value = entry();
+
+		await store.set('key', value, 1000);
+
+		expect(put).toHaveBeenCalledWith('key', JSON.stringify(value), {
+			expirationTtl: 60,
+		});
+		expect(await store.get('key')).toEqual(value);
+		expect(await store.get('missing')).toBeUndefined();
+	});
+
+	it('ignores entries past their stale deadline', async () => {
+		const expired = entry({staleUntil: Date.now() - 1});
+		const store = new KvCacheStore({
+			get: async () => JSON.stringify(expired),
+			put: async () => undefined,
+			delete: async () => undefined,
+		});
+
+		expect(await store.get('key')).toBeUndefined();
+	});
+});
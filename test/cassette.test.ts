@@ -0,0 +1,136 @@
+import {mkdtemp, readFile, rm} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {describe, expect, it, vi} from 'vitest';
+import {ensureOk, ZefixApiClient, ZefixNetworkError} from '../src';
+import {
+	Cassette,
+	CassetteMissError,
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+} from '../src/testing';
+
+async function recordSession() {
+	const server = new FakeZefixServer();
+	const cassette = new Cassette({mode: 'record', fetch: server.fetch});
+	const zefix = new ZefixApiClient({
+		auth: FAKE_ZEFIX_CREDENTIALS,
+		customFetch: cassette.fetch,
+	});
+
+	await ensureOk(
+		zefix.searchCompanies({body: {name: 'Muster*', canton: 'ZH'}}),
+	);
+	await zefix.getCompanyByEhraid({path: {id: 999}});
+	return {cassette, server};
+}
+
+describe('Cassette', () => {
+	it('records request/response pairs with redacted credentials', async () => {
+		const {cassette, server} = await recordSession();
+
+		expect(server.requests).toHaveLength(2);
+		expect(cassette.interactions).toHaveLength(2);
+
+		const [search, notFound] = cassette.interactions;
+		expect(search.request).toMatchObject({
+			method: 'POST',
+			url: 'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/company/search',
+			body: JSON.stringify({name: 'Muster*', canton: 'ZH'}),
+		});
+		expect(search.request.headers.authorization).toBe('[REDACTED]');
+		expect(JSON.stringify(cassette)).not.toContain(
+			'emVmaXgtdGVzdDp6ZWZpeC10ZXN0',
+		);
+		expect(search.response.status).toBe(200);
+		expect(notFound.response.status).toBe(404);
+	});
+
+	it('replays recordings without network access', async () => {
+		const {cassette} = await recordSession();
+		const upstream = vi.fn<typeof fetch>();
+		const replay = new Cassette({
+			mode: 'replay',
+			interactions: cassette.toJSON().interactions,
+			fetch: upstream,
+		});
+		const zefix = new ZefixApiClient({
+			auth: {username: 'someone', password: 'else'},
+			customFetch: replay.fetch,
+		});
+
+		// Body keys in a different order still match
+		const companies = await ensureOk(
+			zefix.searchCompanies({body: {canton: 'ZH', name: 'Muster*'}}),
+		);
+		const {response} = await zefix.getCompanyByEhraid({path: {id: 999}});
+
+		expect(companies.map((company) => company.name)).toEqual([
+			'Muster AG',
+			'Muster Stiftung',
+		]);
+		expect(response.status).toBe(404);
+		expect(upstream).not.toHaveBeenCalled();
+	});
+
+	it('fails loudly on unmatched requests', async () => {
+		const {cassette} = await recordSession();
+		const replay = new Cassette({
+			mode: 'replay',
+			interactions: cassette.interactions,
+		});
+		const zefix = new ZefixApiClient({customFetch: replay.fetch});
+
+		const error = (await zefix
+			.searchCompanies({body: {name: 'Other*'}})
+			.catch((error_: unknown) => error_)) as ZefixNetworkError;
+
+		expect(error).toBeInstanceOf(ZefixNetworkError);
+		expect(error.cause).toBeInstanceOf(CassetteMissError);
+		expect((error.cause as CassetteMissError).key).toBe(
+			'POST https://www.zefix.admin.ch/ZefixPublicREST/api/v1/company/search {"name":"Other*"}',
+		);
+		expect(error.message).toContain('2 recorded');
+	});
+
+	it('forwards requests in passthrough mode without recording', async () => {
+		const server = new FakeZefixServer({credentials: false});
+		const cassette = new Cassette({mode: 'passthrough', fetch: server.fetch});
+		const zefix = new ZefixApiClient({customFetch: cassette.fetch});
+
+		await ensureOk(zefix.getLegalForms());
+
+		expect(server.requests).toHaveLength(1);
+		expect(cassette.interactions).toHaveLength(0);
+	});
+
+	it('saves and opens cassette files', async () => {
+		const directory = await mkdtemp(join(tmpdir(), 'zefix-cassette-'));
+		const path = join(directory, 'nested', 'session.json');
+		try {
+			const server = new FakeZefixServer({credentials: false});
+			const recorder = await Cassette.open(path, {
+				mode: 'record',
+				fetch: server.fetch,
+			});
+			await recorder.fetch(
+				'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/legalForm',
+			);
+			await recorder.save();
+
+			const file = JSON.parse(await readFile(path, 'utf8')) as unknown;
+			expect(file).toMatchObject({version: 1, interactions: [{}]});
+
+			const player = await Cassette.open(path, {mode: 'replay'});
+			const response = await player.fetch(
+				'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/legalForm',
+			);
+			expect(await response.json()).toHaveLength(6);
+			await expect(
+				Cassette.open(join(directory, 'missing.json'), {mode: 'replay'}),
+			).rejects.toThrow();
+		} finally {
+			await rm(directory, {recursive: true, force: true});
+		}
+	});
+});
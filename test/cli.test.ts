@@ -0,0 +1,166 @@
+import {mkdtemp, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {describe, expect, it} from 'vitest';
+import {
+	ZefixNetworkError,
+	ZefixRateLimitError,
+	ZefixResultListTooLargeError,
+	ZefixTimeoutError,
+} from '../src';
+import {EXIT_CODES, getExitCode, zefixCommand} from '../src/cli/zefix';
+import {
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+	ZefixFixtures,
+} from '../src/testing';
+
+const data = new ZefixFixtures(5).makeFakeZefixDataset(5);
+const server = new FakeZefixServer({data});
+const credentials = {
+	ZEFIX_USERNAME: FAKE_ZEFIX_CREDENTIALS.username,
+	ZEFIX_PASSWORD: FAKE_ZEFIX_CREDENTIALS.password,
+	ZEFIX_CONFIG: undefined,
+	XDG_CONFIG_HOME: join(tmpdir(), 'zefix-cli-test-missing'),
+};
+
+async function run(
+	args: string[],
+	env: Record<string, string | undefined> = credentials,
+) {
+	const stdout: string[] = [];
+	const stderr: string[] = [];
+	const exitCode = await zefixCommand(args, {
+		env,
+		bundledSpecPath: 'spec/zefix.json',
+		stdout(text) {
+			stdout.push(text);
+		},
+		stderr(text) {
+			stderr.push(text);
+		},
+		fetch: server.fetch,
+	});
+	return {exitCode, stdout: stdout.join('\n'), stderr: stderr.join('\n')};
+}
+
+describe('zefix command', () => {
+	const [company] = data.companies;
+
+	it('searches companies and prints a table', async () => {
+		const {exitCode, stdout} = await run(['search', `${company.name!}*`]);
+
+		expect(exitCode).toBe(EXIT_CODES.ok);
+		const [header, separator, row] = stdout.split('\n');
+		expect(header).toMatch(/^UID\s+Name\s+Legal form\s+Seat\s+Status$/);
+		expect(separator).toMatch(/^-+ +-+/);
+		expect(row).toContain(company.name);
+	});
+
+	it('shows a company by UID, EHRA-ID or CH-ID', async () => {
+		const byUid = await run(['show', company.uid!, '--format', 'json']);
+		const byEhraid = await run(['show', String(company.ehraid), '-f', 'json']);
+		const byChid = await run(['show', company.chid!, '-f', 'json']);
+
+		expect(JSON.parse(byUid.stdout)).toEqual([company]);
+		expect(JSON.parse(byEhraid.stdout)).toEqual([company]);
+		expect(JSON.parse(byChid.stdout)).toEqual([company]);
+
+		const {stdout} = await run(['show', company.uid!]);
+		expect(stdout).toMatch(/^Name +.+$/m);
+		expect(stdout).toContain(company.purpose!.slice(0, 20));
+	});
+
+	it('prints reference data as NDJSON', async () => {
+		const {exitCode, stdout} = await run(['legal-forms', '-f', 'ndjson']);
+
+		expect(exitCode).toBe(EXIT_CODES.ok);
+		expect(stdout.split('\n').map((line) => JSON.parse(line))).toEqual(
+			data.legalForms,
+		);
+	});
+
+	it('lists the SOGC publications of a day', async () => {
+		const {sogcDate, sogcId} = company.sogcPub![0];
+		const {exitCode, stdout} = await run(['sogc-day', sogcDate!]);
+
+		expect(exitCode).toBe(EXIT_CODES.ok);
+		expect(stdout).toContain(String(sogcId));
+		expect(stdout).toContain('neueintragung');
+	});
+
+	it('reads credentials from the config file', async () => {
+		const directory = await mkdtemp(join(tmpdir(), 'zefix-cli-'));
+		const configPath = join(directory, 'config.json');
+		await writeFile(configPath, JSON.stringify(FAKE_ZEFIX_CREDENTIALS));
+
+		const {exitCode} = await run(['registries', '--config', configPath], {});
+		expect(exitCode).toBe(EXIT_CODES.ok);
+	});
+
+	it('maps failures to exit codes', async () => {
+		expect(await run(['show', 'CHE-999.999.996'])).toMatchObject({
+			exitCode: EXIT_CODES.notFound,
+		});
+		expect(
+			await run(['communities'], {...credentials, ZEFIX_PASSWORD: 'wrong'}),
+		).toMatchObject({exitCode: EXIT_CODES.authentication});
+		expect(
+			await run(['communities'], {
+				XDG_CONFIG_HOME: credentials.XDG_CONFIG_HOME,
+			}),
+		).toMatchObject({
+			exitCode: EXIT_CODES.authentication,
+			stderr: expect.stringContaining('Missing credentials'),
+		});
+		expect(await run(['sogc-day', '1.1.2024'])).toMatchObject({
+			exitCode: EXIT_CODES.usage,
+		});
+		expect(await run(['frobnicate'])).toMatchObject({
+			exitCode: EXIT_CODES.usage,
+			stderr: expect.stringContaining('Unknown command'),
+		});
+
+		expect(getExitCode(new ZefixRateLimitError('Too many requests', 429))).toBe(
+			EXIT_CODES.rateLimited,
+		);
+		expect(
+			getExitCode(new ZefixResultListTooLargeError('Too large', 400)),
+		).toBe(EXIT_CODES.invalidRequest);
+		expect(getExitCode(new ZefixNetworkError('Connection reset'))).toBe(
+			EXIT_CODES.network,
+		);
+		expect(getExitCode(new ZefixTimeoutError('Timed out'))).toBe(
+			EXIT_CODES.network,
+		);
+		expect(getExitCode(null)).toBe(EXIT_CODES.error);
+		expect(getExitCode(undefined)).toBe(EXIT_CODES.error);
+		expect(getExitCode({code: 42})).toBe(EXIT_CODES.error);
+	});
+
+	it('reports thrown values that are not errors', async () => {
+		const stderr: string[] = [];
+		const exitCode = await zefixCommand(['communities'], {
+			env: credentials,
+			bundledSpecPath: 'spec/zefix.json',
+			stdout() {
+				const reason: unknown = 'stdout closed';
+				throw reason;
+			},
+			stderr(text) {
+				stderr.push(text);
+			},
+			fetch: server.fetch,
+		});
+
+		expect(exitCode).toBe(EXIT_CODES.error);
+		expect(stderr).toEqual(['Error: stdout closed']);
+	});
+
+	it('prints the usage', async () => {
+		const {exitCode, stdout} = await run(['--help']);
+
+		expect(exitCode).toBe(EXIT_CODES.ok);
+		expect(stdout).toContain('Usage: zefix <command>');
+	});
+});
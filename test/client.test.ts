@@ -0,0 +1,115 @@
+import {describe, expect, it, vi} from 'vitest';
+import {client, configureClient, toBase64, ZefixApiClient} from '../src';
+
+function jsonFetch(body: unknown = []) {
+	return vi.fn<typeof fetch>(
+		async () =>
+			new Response(JSON.stringify(body), {
+				headers: {'Content-Type': 'application/json'},
+			}),
+	);
+}
+
+function requestAt(mock: ReturnType<typeof jsonFetch>, index = 0): Request {
+	return mock.mock.calls[index][0] as Request;
+}
+
+describe('ZefixApiClient instances', () => {
+	it('owns an HTTP client separate from the generated singleton', () => {
+		const zefix = new ZefixApiClient();
+		expect(zefix.client).not.toBe(client);
+	});
+
+	it('routes bound methods through its own base URL, fetch and credentials', async () => {
+		const fetchA = jsonFetch();
+		const fetchB = jsonFetch();
+
+		const tenantA = new ZefixApiClient({
+			baseUrl: 'https://a.example.test/zefix',
+			auth: {username: 'alice', password: 'secret-a'},
+			customFetch: fetchA,
+		});
+		const tenantB = new ZefixApiClient({
+			baseUrl: 'https://b.example.test/zefix',
+			auth: {username: 'bob', password: 'secret-b'},
+			customFetch: fetchB,
+		});
+
+		await tenantA.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+		await tenantB.searchCompanies({body: {name: 'Muster*'}});
+
+		expect(fetchA).toHaveBeenCalledTimes(1);
+		expect(fetchB).toHaveBeenCalledTimes(1);
+
+		const requestA = requestAt(fetchA);
+		expect(requestA.url).toBe(
+			'https://a.example.test/zefix/api/v1/company/uid/CHE-123.456.789',
+		);
+		expect(requestA.headers.get('Authorization')).toBe(
+			`Basic ${toBase64('alice:secret-a')}`,
+		);
+
+		const requestB = requestAt(fetchB);
+		expect(requestB.method).toBe('POST');
+		expect(requestB.url).toBe(
+			'https://b.example.test/zefix/api/v1/company/search',
+		);
+		expect(requestB.headers.get('Authorization')).toBe(
+			`Basic ${toBase64('bob:secret-b')}`,
+		);
+	});
+
+	it('applies setAuth to subsequent requests of that instance only', async () => {
+		const fetchMock = jsonFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+
+		await zefix.getLegalForms();
+		zefix.setAuth({username: 'user', password: 'pass'});
+		await zefix.getLegalForms();
+
+		expect(requestAt(fetchMock, 0).headers.get('Authorization')).toBeNull();
+		expect(requestAt(fetchMock, 1).headers.get('Authorization')).toBe(
+			`Basic ${toBase64('user:pass')}`,
+		);
+	});
+});
+
+describe('configureClient', () => {
+	it('does not stack interceptors on the generated singleton', async () => {
+		const fetchMock = jsonFetch();
+		const prepareSpies = [];
+
+		for (let i = 0; i < 5; i++) {
+			const configured = configureClient({
+				auth: {username: `user${i}`, password: 'pass'},
+				customFetch: fetchMock,
+			});
+			prepareSpies.push(vi.spyOn(configured, 'prepareRequest'));
+		}
+
+		await client.get({url: '/api/v1/legalForm'});
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(requestAt(fetchMock).headers.get('Authorization')).toBe(
+			`Basic ${toBase64('user4:pass')}`,
+		);
+		for (const spy of prepareSpies.slice(0, -1)) {
+			expect(spy).not.toHaveBeenCalled();
+		}
+	});
+
+	it('resets a custom fetch from a previous configuration', async () => {
+		const previous = jsonFetch();
+		const globalFetch = vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValue(Response.json([]));
+		configureClient({customFetch: previous});
+		configureClient({});
+
+		await client.get({url: '/api/v1/legalForm'});
+
+		expect(previous).not.toHaveBeenCalled();
+		expect(globalFetch).toHaveBeenCalledTimes(1);
+		globalFetch.mockRestore();
+	});
+});
@@ -0,0 +1,166 @@
+import {describe, expect, it, vi} from 'vitest';
+import {type CoalesceHit, ZefixApiClient} from '../src';
+
+function deferredFetch() {
+	const pending: Array<() => void> = [];
+	const fetchMock = vi.fn<typeof fetch>(
+		async (input) =>
+			new Promise((resolve) => {
+				const {url} = input as Request;
+				pending.push(() => {
+					resolve(Response.json([{url}]));
+				});
+			}),
+	);
+	const flush = () => {
+		for (const resolve of pending.splice(0)) resolve();
+	};
+
+	return {fetchMock, flush};
+}
+
+describe('ZefixApiClient coalesce option', () => {
+	it('shares one fetch between concurrent identical lookups', async () => {
+		const {fetchMock, flush} = deferredFetch();
+		const hits: CoalesceHit[] = [];
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			coalesce: {
+				onDedupe(hit) {
+					hits.push(hit);
+				},
+			},
+		});
+
+		const lookups = Promise.all([
+			zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}}),
+			zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}}),
+			zefix.getCompanyByUid({path: {id: 'CHE123456789'}}),
+		]);
+		await vi.waitFor(() => {
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+		flush();
+		const results = await lookups;
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(hits).toHaveLength(2);
+		expect(hits[0].key).toBe(
+			'https://www.zefix.admin.ch/ZefixPublicREST anonymous GET company/uid/123456789',
+		);
+		for (const result of results) {
+			expect(result.data).toEqual(results[0].data);
+		}
+	});
+
+	it('keeps different path params and bodies apart', async () => {
+		const {fetchMock, flush} = deferredFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, coalesce: {}});
+
+		const requests = Promise.all([
+			zefix.getCompanyByEhraid({path: {id: 1}}),
+			zefix.getCompanyByEhraid({path: {id: 2}}),
+			zefix.searchCompanies({body: {name: 'Muster*', canton: 'ZH'}}),
+			zefix.searchCompanies({body: {canton: 'ZH', name: 'Muster*'}}),
+			zefix.searchCompanies({body: {name: 'Muster*', canton: 'BE'}}),
+		]);
+		await vi.waitFor(() => {
+			expect(fetchMock).toHaveBeenCalledTimes(4);
+		});
+		flush();
+		await requests;
+
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+	});
+
+	it('can leave searches alone', async () => {
+		const {fetchMock, flush} = deferredFetch();
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			coalesce: {searches: false},
+		});
+
+		const searches = Promise.all([
+			zefix.searchCompanies({body: {name: 'Muster*'}}),
+			zefix.searchCompanies({body: {name: 'Muster*'}}),
+		]);
+		await vi.waitFor(() => {
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+		flush();
+		await searches;
+	});
+
+	it('does not reuse a request once it has completed', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () => Response.json([]));
+		const zefix = new ZefixApiClient({customFetch: fetchMock, coalesce: {}});
+
+		await zefix.getLegalForms();
+		await zefix.getLegalForms();
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('keeps serving other waiters when one of them aborts', async () => {
+		const {fetchMock, flush} = deferredFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, coalesce: {}});
+		const first = new AbortController();
+
+		const aborted = zefix.getLegalForms({signal: first.signal});
+		const served = zefix.getLegalForms({signal: new AbortController().signal});
+		await vi.waitFor(() => {
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+		first.abort();
+		flush();
+
+		await expect(aborted).rejects.toMatchObject({name: 'AbortError'});
+		const {data, response} = await served;
+		expect(response.ok).toBe(true);
+		expect(data).toEqual([{url: expect.stringContaining('legalForm')}]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('aborts the shared fetch once every waiter has aborted', async () => {
+		const {fetchMock} = deferredFetch();
+		const zefix = new ZefixApiClient({customFetch: fetchMock, coalesce: {}});
+		const controllers = [new AbortController(), new AbortController()];
+
+		const lookups = controllers.map(async (controller) =>
+			zefix.getLegalForms({signal: controller.signal}),
+		);
+		await vi.waitFor(() => {
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+		const shared = fetchMock.mock.calls[0][0] as Request;
+
+		controllers[0].abort();
+		expect(shared.signal.aborted).toBe(false);
+		controllers[1].abort();
+		expect(shared.signal.aborted).toBe(true);
+
+		const results = await Promise.allSettled(lookups);
+		expect(results.map((result) => result.status)).toEqual([
+			'rejected',
+			'rejected',
+		]);
+	});
+
+	it('shares failures with every waiter', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () => {
+			throw new TypeError('fetch failed');
+		});
+		const zefix = new ZefixApiClient({customFetch: fetchMock, coalesce: {}});
+
+		const results = await Promise.allSettled([
+			zefix.getLegalForms(),
+			zefix.getLegalForms(),
+		]);
+
+		expect(results.map((result) => result.status)).toEqual([
+			'rejected',
+			'rejected',
+		]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
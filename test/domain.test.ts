@@ -0,0 +1,125 @@
+import {describe, expect, expectTypeOf, it} from 'vitest';
+import {
+	type Company,
+	type CompanyFull,
+	formatIsoDate,
+	fromCompany,
+	parseCapital,
+	parseIsoDate,
+	toCompany,
+	type UidCore,
+} from '../src';
+import {
+	createSeedDataset,
+	makeCompanyFull,
+	resetFixtures,
+} from '../src/testing';
+
+describe('toCompany', () => {
+	it('parses dates, capital and the UID', () => {
+		const [raw] = createSeedDataset().companies;
+
+		const company = toCompany(raw);
+
+		expect(company.uid).toBe('101000026');
+		expectTypeOf(company.uid).toEqualTypeOf<UidCore | undefined>();
+		expect(company.sogcDate).toEqual(new Date('2019-03-04T00:00:00.000Z'));
+		expect(company.capital).toEqual({amount: 100_000, currency: 'CHF'});
+		expect(company.status).toEqual({code: 'ACTIVE'});
+		expect(company.sogcPub?.[0].sogcDate).toEqual(
+			new Date('2010-05-12T00:00:00.000Z'),
+		);
+		expect(company).not.toHaveProperty('capitalNominal');
+		expect(company.address).toEqual(raw.address);
+	});
+
+	it('carries the deletion date in the status', () => {
+		const company = toCompany({
+			uid: 'CHE-101.000.026',
+			status: 'CANCELLED',
+			deletionDate: '2021-06-30',
+		});
+
+		expect(company.status).toEqual({
+			code: 'CANCELLED',
+			deletionDate: new Date('2021-06-30T00:00:00.000Z'),
+		});
+		if (company.status.code === 'CANCELLED') {
+			expectTypeOf(company.status.deletionDate).toEqualTypeOf<
+				Date | undefined
+			>();
+		}
+
+		expect(toCompany({uid: 'CHE101000026'}).status).toEqual({code: 'UNKNOWN'});
+		expect(
+			toCompany({uid: 'CHE101000026', deletionDate: '2021-06-30'}).status.code,
+		).toBe('CANCELLED');
+	});
+
+	it('maps companies without UID or name', () => {
+		expect(toCompany({name: 'Muster AG'})).toEqual({
+			name: 'Muster AG',
+			status: {code: 'UNKNOWN'},
+		});
+		expect(toCompany({uid: 'CHE-123'})).toEqual({status: {code: 'UNKNOWN'}});
+		expect(fromCompany(toCompany({}))).toEqual({});
+	});
+});
+
+describe('fromCompany', () => {
+	it('round-trips Zefix responses', () => {
+		resetFixtures();
+		const companies: CompanyFull[] = [
+			...createSeedDataset().companies,
+			makeCompanyFull({status: 'CANCELLED'}),
+			makeCompanyFull({status: 'BEING_CANCELLED'}),
+		];
+
+		for (const raw of companies) {
+			expect(fromCompany(toCompany(raw))).toEqual(raw);
+		}
+	});
+
+	it('serializes as JSON that maps back to the same company', () => {
+		const company: Company = {
+			uid: '101000026' as UidCore,
+			name: 'Muster AG',
+			status: {code: 'CANCELLED', deletionDate: new Date('2024-02-29')},
+			capital: {amount: 20_000.5, currency: 'EUR'},
+		};
+
+		const serialized = JSON.stringify(fromCompany(company));
+		const json = JSON.parse(serialized) as CompanyFull;
+
+		expect(json).toEqual({
+			uid: 'CHE101000026',
+			name: 'Muster AG',
+			status: 'CANCELLED',
+			deletionDate: '2024-02-29',
+			capitalNominal: '20000.5',
+			capitalCurrency: 'EUR',
+		});
+		expect(toCompany(json)).toEqual(company);
+	});
+});
+
+describe('parsing helpers', () => {
+	it('parses calendar dates only', () => {
+		expect(parseIsoDate('2024-02-29')).toEqual(new Date('2024-02-29'));
+		expect(parseIsoDate('2023-02-29')).toBeUndefined();
+		expect(parseIsoDate('29.02.2024')).toBeUndefined();
+		expect(parseIsoDate(undefined)).toBeUndefined();
+		expect(formatIsoDate(new Date('2024-02-29'))).toBe('2024-02-29');
+	});
+
+	it('parses capital amounts', () => {
+		expect(parseCapital("1'000'000.00", 'chf')).toEqual({
+			amount: 1_000_000,
+			currency: 'CHF',
+		});
+		expect(parseCapital('', 'CHF')).toBeUndefined();
+		expect(parseCapital('abc', 'CHF')).toBeUndefined();
+		expect(parseCapital('100', 'Franken')).toBeUndefined();
+		expect(parseCapital('100', undefined)).toBeUndefined();
+	});
+});
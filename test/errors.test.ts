@@ -0,0 +1,167 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+	ensureOk,
+	ZefixApiClient,
+	ZefixAuthenticationError,
+	ZefixError,
+	ZefixInvalidQueryWordsError,
+	ZefixNetworkError,
+	ZefixNotFoundError,
+	ZefixRateLimitError,
+	ZefixResultListTooLargeError,
+	ZefixServerError,
+	ZefixTimeoutError,
+} from '../src';
+
+function errorFetch(status: number, type?: string) {
+	return vi.fn<typeof fetch>(async () =>
+		Response.json(
+			{error: {type, message: `${type ?? 'HTTP'} message`}},
+			{status},
+		),
+	);
+}
+
+describe('ZefixError.fromResponse', () => {
+	it.each([
+		['NOT_FOUND', 404, ZefixNotFoundError, false],
+		['RESULTLIST_TO_LARGE', 400, ZefixResultListTooLargeError, false],
+		['INVALID_QUERY_WORDS', 400, ZefixInvalidQueryWordsError, false],
+		['INTERNAL_SERVER_ERROR', 500, ZefixServerError, true],
+	] as const)(
+		'maps %s to its subclass',
+		(type, status, ErrorClass, retryable) => {
+			const error = ZefixError.fromResponse({
+				status,
+				statusText: 'Error',
+				error: {error: {type, message: 'Details'}},
+			});
+
+			expect(error).toBeInstanceOf(ErrorClass);
+			expect(error).toBeInstanceOf(ZefixError);
+			expect(error.name).toBe(ErrorClass.name);
+			expect(error.code).toBe(type);
+			expect(error.retryable).toBe(retryable);
+			expect(error.details).toEqual({error: {type, message: 'Details'}});
+			expect(error.message).toBe(`ZEFIX API Error: ${status} Error - Details`);
+		},
+	);
+
+	it('falls back to the status when the body has no type', () => {
+		const fromStatus = (status: number) =>
+			ZefixError.fromResponse({status, statusText: '', error: 'plain text'});
+
+		expect(fromStatus(401)).toBeInstanceOf(ZefixAuthenticationError);
+		expect(fromStatus(404)).toBeInstanceOf(ZefixNotFoundError);
+		expect(fromStatus(429)).toBeInstanceOf(ZefixRateLimitError);
+		expect(fromStatus(503)).toBeInstanceOf(ZefixServerError);
+
+		const other = fromStatus(418);
+		expect(other.constructor).toBe(ZefixError);
+		expect(other.code).toBeUndefined();
+		expect(other.details).toBe('plain text');
+		expect(other.retryable).toBe(false);
+	});
+});
+
+describe('ZefixError', () => {
+	it('takes details from the options or, as before, the fourth argument', () => {
+		const body = {error: {type: 'NOT_FOUND', message: 'Not found'}};
+		const request = {method: 'GET', url: 'https://example.com/api/v1/sogc/1'};
+
+		const withOptions = new ZefixError('Not found', 404, 'NOT_FOUND', {
+			details: body,
+			request,
+		});
+		expect(withOptions.details).toBe(body);
+		expect(withOptions.request).toBe(request);
+
+		expect(new ZefixError('Not found', 404, 'NOT_FOUND', body).details).toBe(
+			body,
+		);
+		expect(new ZefixError('Teapot', 418, undefined, 'plain text').details).toBe(
+			'plain text',
+		);
+		expect(new ZefixError('Teapot', 418).details).toBeUndefined();
+	});
+});
+
+describe('ensureOk', () => {
+	it('attaches the originating request with a redacted body', async () => {
+		const zefix = new ZefixApiClient({
+			auth: {username: 'user', password: 'secret'},
+			customFetch: errorFetch(400, 'RESULTLIST_TO_LARGE'),
+		});
+
+		const body = {name: 'A*', token: 'abc'};
+
+		const error = await ensureOk(zefix.searchCompanies({body})).catch(
+			(error: unknown) => error,
+		);
+
+		expect(error).toBeInstanceOf(ZefixResultListTooLargeError);
+		expect((error as ZefixError).request).toEqual({
+			method: 'POST',
+			url: 'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/company/search',
+			body: {name: 'A*', token: '[REDACTED]'},
+		});
+		expect(JSON.stringify(error)).not.toContain('secret');
+	});
+
+	it('keeps the request of GET lookups without a body', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: errorFetch(404, 'NOT_FOUND'),
+		});
+
+		const error = await ensureOk(
+			zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}}),
+		).catch((error: unknown) => error);
+
+		expect(error).toBeInstanceOf(ZefixNotFoundError);
+		expect((error as ZefixError).request).toEqual({
+			method: 'GET',
+			url: 'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/company/uid/CHE-123.456.789',
+		});
+	});
+});
+
+describe('transport errors', () => {
+	it('rejects with ZefixNetworkError when fetch fails', async () => {
+		const cause = new TypeError('fetch failed');
+		const zefix = new ZefixApiClient({
+			customFetch: vi.fn<typeof fetch>().mockRejectedValue(cause),
+		});
+
+		const error = (await zefix
+			.getLegalForms()
+			.catch((error: unknown) => error)) as ZefixError;
+
+		expect(error).toBeInstanceOf(ZefixNetworkError);
+		expect(error.retryable).toBe(true);
+		expect(error.cause).toBe(cause);
+		expect(error.request?.url).toMatch(/\/api\/v1\/legalForm$/);
+	});
+
+	it('rejects with ZefixTimeoutError on timeout signals', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: vi
+				.fn<typeof fetch>()
+				.mockRejectedValue(
+					new DOMException('The operation timed out.', 'TimeoutError'),
+				),
+		});
+
+		await expect(zefix.getLegalForms()).rejects.toBeInstanceOf(
+			ZefixTimeoutError,
+		);
+	});
+
+	it('passes caller aborts through unchanged', async () => {
+		const abort = new DOMException('Aborted', 'AbortError');
+		const zefix = new ZefixApiClient({
+			customFetch: vi.fn<typeof fetch>().mockRejectedValue(abort),
+		});
+
+		await expect(zefix.getLegalForms()).rejects.toBe(abort);
+	});
+});
@@ -0,0 +1,139 @@
+import {describe, expect, it} from 'vitest';
+import {
+	COMPANY_FULL_COLUMNS,
+	COMPANY_SHORT_COLUMNS,
+	type CompanyFull,
+	flattenRow,
+	pickColumns,
+	SOGC_PUBLICATION_COLUMNS,
+	toCsv,
+	toJsonArray,
+	toNdjson,
+	toReadableStream,
+} from '../src';
+import {
+	makeBranchOffice,
+	makeCompanyFull,
+	makeSogcPublicationAndCompanyShort,
+	resetFixtures,
+} from '../src/testing';
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+	let text = '';
+	for await (const chunk of chunks) text += chunk;
+	return text;
+}
+
+async function* generate<T>(...rows: T[]) {
+	yield* rows;
+}
+
+describe('toCsv', () => {
+	it('quotes fields as in RFC 4180', async () => {
+		const rows = [
+			{name: 'Muster, Meier & Co.', purpose: 'Handel mit "Waren"\nund mehr'},
+			{name: 'Plain AG', purpose: undefined},
+		];
+		const csv = await collect(
+			toCsv(rows, {columns: {name: 'name', purpose: 'purpose'}}),
+		);
+
+		expect(csv).toBe(
+			'name,purpose\r\n' +
+				'"Muster, Meier & Co.","Handel mit ""Waren""\nund mehr"\r\n' +
+				'Plain AG,\r\n',
+		);
+	});
+
+	it('supports custom delimiters, line breaks and byte order marks', async () => {
+		const csv = await collect(
+			toCsv([{name: 'Muster; Partner', city: 'Zürich'}], {
+				columns: {name: 'name', city: 'city'},
+				delimiter: ';',
+				newline: '\n',
+				header: false,
+				bom: true,
+			}),
+		);
+
+		expect(csv).toBe('\uFEFF"Muster; Partner";Zürich\n');
+		await expect(
+			collect(toCsv([], {columns: {}, delimiter: '"'})),
+		).rejects.toThrow(RangeError);
+	});
+
+	it('flattens companies through the column map', async () => {
+		resetFixtures();
+		const company = makeCompanyFull({canton: 'GE'});
+		makeBranchOffice(company, {canton: 'VD'});
+		makeBranchOffice(company, {canton: 'FR'});
+
+		const row = flattenRow(company, COMPANY_FULL_COLUMNS, 'fr');
+		expect(row).toMatchObject({
+			uid: company.uid,
+			legalForm: company.legalForm?.shortName?.fr,
+			addressCity: company.address?.city,
+			addressZipCode: company.address?.swissZipCode,
+			branchOffices: 2,
+			headOffices: 0,
+			zefixDetailWeb: company.zefixDetailWeb?.fr,
+		});
+		expect(row.zefixDetailWeb).toMatch(/^https:\/\/www\.zefix\.ch\/fr\//);
+
+		const csv = await collect(
+			toCsv([company], {
+				columns: pickColumns(COMPANY_FULL_COLUMNS, ['uid', 'branchOffices']),
+			}),
+		);
+		expect(csv).toBe(`uid,branchOffices\r\n${company.uid!},2\r\n`);
+	});
+
+	it('consumes async sources such as SOGC iterations', async () => {
+		resetFixtures();
+		const first = makeSogcPublicationAndCompanyShort();
+		const second = makeSogcPublicationAndCompanyShort();
+
+		const csv = await collect(
+			toCsv(generate(first, second), {columns: SOGC_PUBLICATION_COLUMNS}),
+		);
+		const lines = csv.split('\r\n');
+
+		expect(lines[0]).toMatch(/^sogcId,sogcDate,/);
+		expect(lines[1]).toMatch(new RegExp(`^${first.sogcPublication!.sogcId!},`));
+		expect(lines).toHaveLength(4);
+	});
+});
+
+describe('toNdjson and toJsonArray', () => {
+	it('writes one record per line, flattened on request', async () => {
+		resetFixtures();
+		const company = makeCompanyFull();
+
+		const full = await collect(toNdjson([company]));
+		expect(JSON.parse(full)).toEqual(company);
+
+		const flat = await collect(
+			toNdjson([company, company], {columns: COMPANY_SHORT_COLUMNS}),
+		);
+		const lines = flat.trimEnd().split('\n');
+		expect(lines).toHaveLength(2);
+		expect(JSON.parse(lines[0])).toEqual(
+			flattenRow<CompanyFull>(company, COMPANY_SHORT_COLUMNS),
+		);
+	});
+
+	it('writes valid JSON arrays', async () => {
+		expect(JSON.parse(await collect(toJsonArray([])))).toEqual([]);
+		expect(
+			JSON.parse(await collect(toJsonArray(generate({a: 1}, {a: 2})))),
+		).toEqual([{a: 1}, {a: 2}]);
+	});
+
+	it('streams as UTF-8 bytes', async () => {
+		const stream = toReadableStream(
+			toCsv([{city: 'Genève'}], {columns: {city: 'city'}}),
+		);
+
+		expect(await new Response(stream).text()).toBe('city\r\nGenève\r\n');
+	});
+});
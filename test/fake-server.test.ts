@@ -0,0 +1,188 @@
+import {describe, expect, it} from 'vitest';
+import {
+	ensureOk,
+	ZefixApiClient,
+	ZefixAuthenticationError,
+	ZefixInvalidQueryWordsError,
+	ZefixInvalidRequestDataError,
+	ZefixNotFoundError,
+	ZefixResultListTooLargeError,
+} from '../src';
+import {
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+	type FakeZefixServerOptions,
+} from '../src/testing';
+
+function setup(options?: FakeZefixServerOptions) {
+	const server = new FakeZefixServer(options);
+	const zefix = new ZefixApiClient({
+		auth: FAKE_ZEFIX_CREDENTIALS,
+		customFetch: server.fetch,
+	});
+	return {server, zefix};
+}
+
+describe('FakeZefixServer', () => {
+	it('requires Basic auth with the configured credentials', async () => {
+		const server = new FakeZefixServer();
+		const zefix = new ZefixApiClient({
+			auth: {username: 'zefix-test', password: 'wrong'},
+			customFetch: server.fetch,
+		});
+
+		await expect(ensureOk(zefix.getLegalForms())).rejects.toBeInstanceOf(
+			ZefixAuthenticationError,
+		);
+
+		const open = new FakeZefixServer({credentials: false});
+		const anonymous = new ZefixApiClient({customFetch: open.fetch});
+		expect(await ensureOk(anonymous.getLegalForms())).not.toHaveLength(0);
+	});
+
+	it('searches names from their beginning with wildcards', async () => {
+		const {zefix, server} = setup();
+
+		const muster = await ensureOk(
+			zefix.searchCompanies({body: {name: 'muster'}}),
+		);
+		expect(muster.map((company) => company.name)).toEqual([
+			'Muster AG',
+			'Muster AG, Zweigniederlassung Bern',
+			'Muster Stiftung',
+		]);
+
+		const wildcard = await ensureOk(
+			zefix.searchCompanies({body: {name: 'Muster*Bern'}}),
+		);
+		expect(wildcard.map((company) => company.ehraid)).toEqual([100_002]);
+		expect(server.requests).toContainEqual({
+			method: 'POST',
+			path: 'company/search',
+			body: {name: 'Muster*Bern'},
+		});
+	});
+
+	it('filters by canton, registry, legal seat, legal form and status', async () => {
+		const {zefix} = setup();
+		const names = async (
+			body: Parameters<typeof zefix.searchCompanies>[0]['body'],
+		) => {
+			const companies = await ensureOk(zefix.searchCompanies({body}));
+			return companies.map((company) => company.name);
+		};
+
+		expect(await names({name: 'Muster*', canton: 'be'})).toEqual([
+			'Muster AG, Zweigniederlassung Bern',
+		]);
+		expect(await names({name: 'Muster*', registryOfCommerceId: 20})).toEqual([
+			'Muster AG',
+			'Muster Stiftung',
+		]);
+		expect(await names({name: 'Muster*', legalSeatId: 230})).toEqual([
+			'Muster Stiftung',
+		]);
+		expect(await names({name: 'Muster*', legalFormUid: '0106'})).toEqual([
+			'Muster AG',
+		]);
+		await expect(
+			names({name: 'Boulangerie*', activeOnly: true}),
+		).rejects.toBeInstanceOf(ZefixNotFoundError);
+	});
+
+	it('rejects invalid searches like Zefix', async () => {
+		const {zefix} = setup({maxSearchResults: 2});
+		const search = async (
+			body: Parameters<typeof zefix.searchCompanies>[0]['body'],
+		) => ensureOk(zefix.searchCompanies({body}));
+
+		await expect(
+			search({name: 'Muster*', canton: 'ZH', legalSeatId: 261}),
+		).rejects.toBeInstanceOf(ZefixInvalidRequestDataError);
+		await expect(search({name: 'Mu'})).rejects.toBeInstanceOf(
+			ZefixInvalidRequestDataError,
+		);
+		await expect(search({name: '***'})).rejects.toBeInstanceOf(
+			ZefixInvalidQueryWordsError,
+		);
+		await expect(search({name: 'Muster*'})).rejects.toBeInstanceOf(
+			ZefixResultListTooLargeError,
+		);
+	});
+
+	it('serves company lookups by UID, EHRA-ID and CH-ID', async () => {
+		const {zefix} = setup();
+
+		const [byUid] = await ensureOk(
+			zefix.getCompanyByUid({path: {id: 'CHE-101.000.026'}}),
+		);
+		expect(byUid.name).toBe('Muster AG');
+		expect(byUid.branchOffices?.[0].ehraid).toBe(100_002);
+
+		const byEhraid = await ensureOk(
+			zefix.getCompanyByEhraid({path: {id: 100_003}}),
+		);
+		expect(byEhraid.uid).toBe('CHE101000049');
+
+		const [byChid] = await ensureOk(
+			zefix.getCompanyByChid({path: {id: 'CH-020.3.000.000-1'}}),
+		);
+		expect(byChid.ehraid).toBe(100_001);
+
+		await expect(
+			ensureOk(zefix.getCompanyByUid({path: {id: 'CHE-999.999.996'}})),
+		).rejects.toBeInstanceOf(ZefixNotFoundError);
+		await expect(
+			ensureOk(zefix.getCompanyByUid({path: {id: 'nope'}})),
+		).rejects.toBeInstanceOf(ZefixInvalidRequestDataError);
+	});
+
+	it('serves SOGC publications by id and date', async () => {
+		const {zefix} = setup();
+
+		const publication = await ensureOk(
+			zefix.getSogcPublications({path: {id: 1_000_007}}),
+		);
+		expect(publication.companyShort?.status).toBe('CANCELLED');
+
+		const day = await ensureOk(
+			zefix.getSogcByDate({path: {date: '2019-03-04'}}),
+		);
+		expect(day.map((entry) => entry.sogcPublication?.sogcId)).toEqual([
+			1_000_002, 1_000_009,
+		]);
+
+		await expect(
+			ensureOk(zefix.getSogcByDate({path: {date: '2019-03-03'}})),
+		).rejects.toBeInstanceOf(ZefixNotFoundError);
+	});
+
+	it('serves reference data', async () => {
+		const {zefix} = setup();
+
+		expect(await ensureOk(zefix.getLegalForms())).toHaveLength(6);
+		expect(await ensureOk(zefix.getCommunities())).toHaveLength(7);
+		expect(await ensureOk(zefix.getRegistriesOfCommerce())).toHaveLength(5);
+
+		const registry = await ensureOk(
+			zefix.getRegistryByBfsCommunityId({path: {id: '623'}}),
+		);
+		expect(registry.canton).toBe('BE');
+	});
+
+	it('serves custom datasets', async () => {
+		const {zefix} = setup({
+			data: {companies: [{name: 'Solo GmbH', ehraid: 1, uid: 'CHE101000026'}]},
+		});
+
+		const companies = await ensureOk(
+			zefix.searchCompanies({body: {name: 'Solo*'}}),
+		);
+
+		expect(companies).toEqual([
+			{name: 'Solo GmbH', ehraid: 1, uid: 'CHE101000026'},
+		]);
+		// Other collections still come from the seed dataset
+		expect(await ensureOk(zefix.getLegalForms())).toHaveLength(6);
+	});
+});
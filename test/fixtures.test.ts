@@ -0,0 +1,131 @@
+import {beforeEach, describe, expect, it} from 'vitest';
+import {
+	buildCantonalExcerptUrl,
+	ensureOk,
+	isValidUid,
+	ZefixApiClient,
+} from '../src';
+import {
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+	makeBranchOffice,
+	makeCompanyFull,
+	makeCompanyShort,
+	makeRegistryOfCommerce,
+	makeSogcPublicationAndCompanyShort,
+	resetFixtures,
+	ZefixFixtures,
+} from '../src/testing';
+
+describe('fixture factories', () => {
+	beforeEach(() => {
+		resetFixtures();
+	});
+
+	it('is deterministic for a given seed', () => {
+		const first = new ZefixFixtures(42);
+		const second = new ZefixFixtures(42);
+
+		expect(second.makeCompanyFull()).toEqual(first.makeCompanyFull());
+		expect(new ZefixFixtures(7).makeCompanyFull()).not.toEqual(
+			new ZefixFixtures(42).makeCompanyFull(),
+		);
+
+		const company = makeCompanyFull();
+		resetFixtures();
+		expect(makeCompanyFull()).toEqual(company);
+	});
+
+	it('creates internally consistent companies', () => {
+		const company = makeCompanyFull({canton: 'VD'});
+		const registry = makeRegistryOfCommerce({canton: 'VD'});
+
+		expect(isValidUid(company.uid!)).toBe(true);
+		expect(company.canton).toBe('VD');
+		expect(company.registryOfCommerceId).toBe(registry.registryOfCommerceId);
+		expect(company.address?.city).toBe(company.legalSeat);
+		expect(company.sogcPub?.[0].mutationTypes?.[0].key).toBe('neueintragung');
+		expect(company.sogcPub?.[0].message).toContain(company.name);
+		expect(
+			company.sogcPub?.every(
+				(publication) => publication.sogcDate! <= company.sogcDate!,
+			),
+		).toBe(true);
+		expect(
+			company.sogcPub?.every(
+				(publication) => publication.registryOfCommerceCanton === 'VD',
+			),
+		).toBe(true);
+	});
+
+	it('derives the history from the status', () => {
+		const company = makeCompanyFull({
+			legalSeatId: 351,
+			legalForm: {id: 3, uid: '0106', name: {de: 'Aktiengesellschaft'}},
+			status: 'CANCELLED',
+		});
+
+		expect(company.canton).toBe('BE');
+		expect(company.name).toMatch(/ in Liquidation$/);
+		expect(company.capitalNominal).toBeDefined();
+		expect(
+			company.sogcPub?.map((publication) => publication.mutationTypes?.[0].key),
+		).toEqual(expect.arrayContaining(['aufloesung', 'loeschung']));
+		expect(company.deletionDate! <= company.sogcDate!).toBe(true);
+		expect(company.cantonalExcerptWeb).toBe(
+			buildCantonalExcerptUrl(company, makeRegistryOfCommerce({canton: 'BE'})),
+		);
+	});
+
+	it('links branch offices to their head office', () => {
+		const headOffice = makeCompanyFull({canton: 'ZH'});
+		const branch = makeBranchOffice(headOffice, {canton: 'GE'});
+
+		expect(branch.legalForm?.id).toBe(9);
+		expect(branch.canton).toBe('GE');
+		expect(branch.name).toBe(`${headOffice.name!}, succursale de Genève`);
+		expect(branch.headOffices?.[0].uid).toBe(headOffice.uid);
+		expect(headOffice.branchOffices?.[0].uid).toBe(branch.uid);
+		expect(
+			branch.sogcPub![0].sogcDate! > headOffice.sogcPub![0].sogcDate!,
+		).toBe(true);
+	});
+
+	it('applies overrides to short records and publications', () => {
+		expect(makeCompanyShort({name: 'Override AG'}).name).toBe('Override AG');
+
+		const {sogcPublication, companyShort} = makeSogcPublicationAndCompanyShort({
+			company: {canton: 'TI'},
+			sogcPublication: {sogcId: 1},
+		});
+		expect(sogcPublication?.sogcId).toBe(1);
+		expect(sogcPublication?.registryOfCommerceCanton).toBe('TI');
+		expect(sogcPublication?.message).toContain(companyShort?.name);
+	});
+
+	it('rejects unknown locations', () => {
+		expect(() => makeCompanyFull({canton: 'XX'})).toThrow(RangeError);
+	});
+
+	it('feeds the fake server', async () => {
+		const fixtures = new ZefixFixtures(3);
+		const data = fixtures.makeFakeZefixDataset(5);
+		const server = new FakeZefixServer({data});
+		const zefix = new ZefixApiClient({
+			auth: FAKE_ZEFIX_CREDENTIALS,
+			customFetch: server.fetch,
+		});
+
+		const [company] = await ensureOk(
+			zefix.getCompanyByUid({path: {id: data.companies[0].uid!}}),
+		);
+		const registry = await ensureOk(
+			zefix.getRegistryByBfsCommunityId({
+				path: {id: String(company.legalSeatId)},
+			}),
+		);
+
+		expect(company).toEqual(data.companies[0]);
+		expect(registry.canton).toBe(company.canton);
+	});
+});
@@ -0,0 +1,445 @@
+/**
+ * SOGC messages in the wording of the commercial register, anonymized:
+ * companies, people, addresses and UIDs are fictitious, the UIDs carry valid
+ * check digits.
+ */
+
+import type {ParsedSogcMessage} from '../../src';
+
+export type SogcMessageSample = {
+	description: string;
+	lang: 'de' | 'fr' | 'it';
+	message: string;
+	expected: Partial<ParsedSogcMessage>;
+};
+
+export const SOGC_MESSAGE_SAMPLES: SogcMessageSample[] = [
+	{
+		description: 'founding of a corporation',
+		lang: 'de',
+		message:
+			"Muster AG, in Zürich, CHE-101.000.026, Musterstrasse 1, 8001 Zürich, Aktiengesellschaft (Neueintragung). Statutendatum: 03.05.2010. Zweck: Entwicklung und Vertrieb von Software sowie Beratung. Aktienkapital: CHF 100'000.00. Liberierung Aktienkapital: CHF 100'000.00. Aktien: 100 Namenaktien zu CHF 1'000.00. Eingetragene Personen: Muster, Hans, von Bern, in Zürich, Präsident des Verwaltungsrates, mit Einzelunterschrift; Beispiel, Anna Maria, deutsche Staatsangehörige, in Konstanz (DE), Mitglied des Verwaltungsrates, mit Kollektivunterschrift zu zweien.",
+		expected: {
+			companyName: 'Muster AG',
+			uid: '101000026' as ParsedSogcMessage['uid'],
+			seat: 'Zürich',
+			address: 'Musterstrasse 1, 8001 Zürich',
+			legalForm: 'Aktiengesellschaft',
+			reference: 'Neueintragung',
+			fields: [
+				{kind: 'bylaws', label: 'Statutendatum', value: '03.05.2010'},
+				{
+					kind: 'purpose',
+					label: 'Zweck',
+					value: 'Entwicklung und Vertrieb von Software sowie Beratung',
+				},
+				{kind: 'capital', label: 'Aktienkapital', value: "CHF 100'000.00"},
+				{
+					kind: 'capital',
+					label: 'Liberierung Aktienkapital',
+					value: "CHF 100'000.00",
+				},
+				{
+					kind: 'other',
+					label: 'Aktien',
+					value: "100 Namenaktien zu CHF 1'000.00",
+				},
+			],
+			persons: [
+				{
+					change: 'registered',
+					name: 'Muster, Hans',
+					familyName: 'Muster',
+					givenNames: 'Hans',
+					origin: 'Bern',
+					domicile: 'Zürich',
+					role: 'Präsident des Verwaltungsrates',
+					signingAuthority: 'individual',
+					signature: 'mit Einzelunterschrift',
+				},
+				{
+					change: 'registered',
+					name: 'Beispiel, Anna Maria',
+					familyName: 'Beispiel',
+					givenNames: 'Anna Maria',
+					nationality: 'deutsche Staatsangehörige',
+					domicile: 'Konstanz (DE)',
+					role: 'Mitglied des Verwaltungsrates',
+					signingAuthority: 'collective',
+					signature: 'mit Kollektivunterschrift zu zweien',
+				},
+			],
+			remarks: [],
+		},
+	},
+	{
+		description: 'board changes with a previous entry',
+		lang: 'de',
+		message:
+			'Muster AG, in Zürich, CHE-101.000.026, Aktiengesellschaft (SHAB Nr. 90 vom 12.05.2010, Publ. 1000001). Ausgeschiedene Personen und erloschene Unterschriften: Muster, Hans, von Bern, in Zürich, Präsident des Verwaltungsrates, mit Einzelunterschrift. Eingetragene Personen neu oder mutierend: Beispiel, Anna Maria, deutsche Staatsangehörige, in Zürich, Präsidentin des Verwaltungsrates, mit Einzelunterschrift [bisher: in Konstanz (DE), Mitglied des Verwaltungsrates, mit Kollektivunterschrift zu zweien]; Probst, Urs, von Luzern, in Zug, Direktor, mit Kollektivprokura zu zweien.',
+		expected: {
+			companyName: 'Muster AG',
+			legalForm: 'Aktiengesellschaft',
+			reference: 'SHAB Nr. 90 vom 12.05.2010, Publ. 1000001',
+			fields: [],
+			persons: [
+				{
+					change: 'removed',
+					name: 'Muster, Hans',
+					familyName: 'Muster',
+					givenNames: 'Hans',
+					origin: 'Bern',
+					domicile: 'Zürich',
+					role: 'Präsident des Verwaltungsrates',
+					signingAuthority: 'individual',
+					signature: 'mit Einzelunterschrift',
+				},
+				{
+					change: 'registered',
+					name: 'Beispiel, Anna Maria',
+					familyName: 'Beispiel',
+					givenNames: 'Anna Maria',
+					nationality: 'deutsche Staatsangehörige',
+					domicile: 'Zürich',
+					role: 'Präsidentin des Verwaltungsrates',
+					signingAuthority: 'individual',
+					signature: 'mit Einzelunterschrift',
+					previously:
+						'in Konstanz (DE), Mitglied des Verwaltungsrates, mit Kollektivunterschrift zu zweien',
+				},
+				{
+					change: 'registered',
+					name: 'Probst, Urs',
+					familyName: 'Probst',
+					givenNames: 'Urs',
+					origin: 'Luzern',
+					domicile: 'Zug',
+					role: 'Direktor',
+					signingAuthority: 'collective-procuration',
+					signature: 'mit Kollektivprokura zu zweien',
+				},
+			],
+		},
+	},
+	{
+		description: 'name, seat and auditor change',
+		lang: 'de',
+		message:
+			'Muster AG, in Zürich, CHE-101.000.026, Aktiengesellschaft (SHAB Nr. 42 vom 04.03.2019). Statutenänderung: 15.03.2021. Firma neu: Muster Software AG. Sitz neu: Winterthur. Domizil neu: Technikumstrasse 9, 8400 Winterthur. Ausgeschiedene Personen und erloschene Unterschriften: Revisia GmbH (CHE-101.000.049), in Rubigen, Revisionsstelle. Eingetragene Personen neu oder mutierend: Prüfwerk AG (CHE-101.000.032), in Bern, Revisionsstelle.',
+		expected: {
+			fields: [
+				{kind: 'bylaws', label: 'Statutenänderung', value: '15.03.2021'},
+				{kind: 'name', label: 'Firma neu', value: 'Muster Software AG'},
+				{kind: 'seat', label: 'Sitz neu', value: 'Winterthur'},
+				{
+					kind: 'address',
+					label: 'Domizil neu',
+					value: 'Technikumstrasse 9, 8400 Winterthur',
+				},
+			],
+			persons: [
+				{
+					change: 'removed',
+					name: 'Revisia GmbH',
+					uid: '101000049' as ParsedSogcMessage['uid'],
+					domicile: 'Rubigen',
+					role: 'Revisionsstelle',
+				},
+				{
+					change: 'registered',
+					name: 'Prüfwerk AG',
+					uid: '101000032' as ParsedSogcMessage['uid'],
+					domicile: 'Bern',
+					role: 'Revisionsstelle',
+				},
+			],
+		},
+	},
+	{
+		description: 'deletion after liquidation',
+		lang: 'de',
+		message:
+			'Muster Handel GmbH in Liquidation, in Bern, CHE-101.000.032, Gesellschaft mit beschränkter Haftung (SHAB Nr. 77 vom 20.01.2022). Die Liquidation ist beendet. Die Gesellschaft wird gelöscht.',
+		expected: {
+			companyName: 'Muster Handel GmbH in Liquidation',
+			legalForm: 'Gesellschaft mit beschränkter Haftung',
+			fields: [],
+			persons: [],
+			remarks: [
+				'Die Liquidation ist beendet.',
+				'Die Gesellschaft wird gelöscht.',
+			],
+		},
+	},
+	{
+		description: 'founding of a limited liability company',
+		lang: 'fr',
+		message:
+			"Boulangerie Exemple Sàrl, à Lausanne, CHE-101.000.055, Rue de Bourg 8, 1003 Lausanne, société à responsabilité limitée (Nouvelle inscription). Date des statuts: 02.06.2016. But: exploitation d’une boulangerie. Capital social: CHF 20'000.00. Inscription ou modification de personne(s): Exemple, Jean-Pierre, de Genève, à Lausanne, associé et gérant, avec signature individuelle; Martin, Claire, ressortissante française, à Annecy (FR), associée, sans droit de signature.",
+		expected: {
+			companyName: 'Boulangerie Exemple Sàrl',
+			seat: 'Lausanne',
+			address: 'Rue de Bourg 8, 1003 Lausanne',
+			legalForm: 'société à responsabilité limitée',
+			reference: 'Nouvelle inscription',
+			fields: [
+				{kind: 'bylaws', label: 'Date des statuts', value: '02.06.2016'},
+				{
+					kind: 'purpose',
+					label: 'But',
+					value: 'exploitation d’une boulangerie',
+				},
+				{kind: 'capital', label: 'Capital social', value: "CHF 20'000.00"},
+			],
+			persons: [
+				{
+					change: 'registered',
+					name: 'Exemple, Jean-Pierre',
+					familyName: 'Exemple',
+					givenNames: 'Jean-Pierre',
+					origin: 'Genève',
+					domicile: 'Lausanne',
+					role: 'associé et gérant',
+					signingAuthority: 'individual',
+					signature: 'avec signature individuelle',
+				},
+				{
+					change: 'registered',
+					name: 'Martin, Claire',
+					familyName: 'Martin',
+					givenNames: 'Claire',
+					nationality: 'ressortissante française',
+					domicile: 'Annecy (FR)',
+					role: 'associée',
+					signingAuthority: 'none',
+					signature: 'sans droit de signature',
+				},
+			],
+		},
+	},
+	{
+		description: 'management change',
+		lang: 'fr',
+		message:
+			'Exemple Genève SA, à Genève, CHE-101.000.078, société anonyme (FOSC no 12 du 14.02.2020). Personnes et signatures radiées: Dupont, Marc, d’Ormont-Dessus, à Genève, administrateur, avec signature collective à deux. Inscription ou modification de personne(s): Favre, Sophie, de Neuchâtel, à Carouge (GE), administratrice, avec signature collective à deux [précédemment: directrice, avec procuration collective à deux].',
+		expected: {
+			companyName: 'Exemple Genève SA',
+			seat: 'Genève',
+			legalForm: 'société anonyme',
+			reference: 'FOSC no 12 du 14.02.2020',
+			persons: [
+				{
+					change: 'removed',
+					name: 'Dupont, Marc',
+					familyName: 'Dupont',
+					givenNames: 'Marc',
+					origin: 'Ormont-Dessus',
+					domicile: 'Genève',
+					role: 'administrateur',
+					signingAuthority: 'collective',
+					signature: 'avec signature collective à deux',
+				},
+				{
+					change: 'registered',
+					name: 'Favre, Sophie',
+					familyName: 'Favre',
+					givenNames: 'Sophie',
+					origin: 'Neuchâtel',
+					domicile: 'Carouge (GE)',
+					role: 'administratrice',
+					signingAuthority: 'collective',
+					signature: 'avec signature collective à deux',
+					previously: 'directrice, avec procuration collective à deux',
+				},
+			],
+		},
+	},
+	{
+		description: 'dissolution',
+		lang: 'fr',
+		message:
+			'Boulangerie Exemple Sàrl en liquidation, à Lausanne, CHE-101.000.055. La société est dissoute par décision de l’assemblée des associés du 30.05.2022.',
+		expected: {
+			companyName: 'Boulangerie Exemple Sàrl en liquidation',
+			uid: '101000055' as ParsedSogcMessage['uid'],
+			seat: 'Lausanne',
+			fields: [],
+			persons: [],
+			remarks: [
+				'La société est dissoute par décision de l’assemblée des associés du 30.05.2022.',
+			],
+		},
+	},
+	{
+		description: 'founding with a foreign board member',
+		lang: 'it',
+		message:
+			"Esempio Servizi SA, in Lugano, CHE-101.000.061, Via Nassa 5, 6900 Lugano, società anonima (Nuova iscrizione). Data dello statuto: 10.09.2018. Scopo: consulenza aziendale e servizi amministrativi. Capitale azionario: CHF 100'000.00. Persone iscritte: Rossi, Mario, cittadino italiano, in Como (IT), presidente del consiglio d’amministrazione, con firma individuale; Bianchi, Laura, da Lugano, in Lugano, membro del consiglio d’amministrazione, con firma collettiva a due.",
+		expected: {
+			companyName: 'Esempio Servizi SA',
+			seat: 'Lugano',
+			address: 'Via Nassa 5, 6900 Lugano',
+			legalForm: 'società anonima',
+			reference: 'Nuova iscrizione',
+			fields: [
+				{kind: 'bylaws', label: 'Data dello statuto', value: '10.09.2018'},
+				{
+					kind: 'purpose',
+					label: 'Scopo',
+					value: 'consulenza aziendale e servizi amministrativi',
+				},
+				{
+					kind: 'capital',
+					label: 'Capitale azionario',
+					value: "CHF 100'000.00",
+				},
+			],
+			persons: [
+				{
+					change: 'registered',
+					name: 'Rossi, Mario',
+					familyName: 'Rossi',
+					givenNames: 'Mario',
+					nationality: 'cittadino italiano',
+					domicile: 'Como (IT)',
+					role: 'presidente del consiglio d’amministrazione',
+					signingAuthority: 'individual',
+					signature: 'con firma individuale',
+				},
+				{
+					change: 'registered',
+					name: 'Bianchi, Laura',
+					familyName: 'Bianchi',
+					givenNames: 'Laura',
+					origin: 'Lugano',
+					domicile: 'Lugano',
+					role: 'membro del consiglio d’amministrazione',
+					signingAuthority: 'collective',
+					signature: 'con firma collettiva a due',
+				},
+			],
+		},
+	},
+	{
+		description: 'purpose change and resignation',
+		lang: 'it',
+		message:
+			'Esempio Servizi SA, in Lugano, CHE-101.000.061, società anonima (FUSC n. 33 del 14.09.2018). Modifica dello statuto: 02.04.2023. Nuovo scopo: consulenza aziendale. Persone dimissionarie e firme cancellate: Rossi, Mario, cittadino italiano, in Como (IT), presidente del consiglio d’amministrazione, con firma individuale. Nuove persone iscritte o modifiche di persone iscritte: Verdi, Paolo, da Bellinzona, in Locarno, direttore, con procura individuale.',
+		expected: {
+			reference: 'FUSC n. 33 del 14.09.2018',
+			fields: [
+				{kind: 'bylaws', label: 'Modifica dello statuto', value: '02.04.2023'},
+				{kind: 'purpose', label: 'Nuovo scopo', value: 'consulenza aziendale'},
+			],
+			persons: [
+				{
+					change: 'removed',
+					name: 'Rossi, Mario',
+					familyName: 'Rossi',
+					givenNames: 'Mario',
+					nationality: 'cittadino italiano',
+					domicile: 'Como (IT)',
+					role: 'presidente del consiglio d’amministrazione',
+					signingAuthority: 'individual',
+					signature: 'con firma individuale',
+				},
+				{
+					change: 'registered',
+					name: 'Verdi, Paolo',
+					familyName: 'Verdi',
+					givenNames: 'Paolo',
+					origin: 'Bellinzona',
+					domicile: 'Locarno',
+					role: 'direttore',
+					signingAuthority: 'individual-procuration',
+					signature: 'con procura individuale',
+				},
+			],
+		},
+	},
+	{
+		description: 'board members with particles in their family names',
+		lang: 'de',
+		message:
+			'Beispiel Holding AG, in Olten, CHE-101.000.026, Aktiengesellschaft (SHAB Nr. 45 vom 06.03.2020). Ausgeschiedene Personen und erloschene Unterschriften: von Gunten, Beat, von Sigriswil, in Thun, Mitglied des Verwaltungsrates, mit Kollektivunterschrift zu zweien. Eingetragene Personen neu oder mutierend: von Arx, Peter, von Olten, in Zürich, Mitglied des Verwaltungsrates, mit Einzelunterschrift.',
+		expected: {
+			persons: [
+				{
+					change: 'removed',
+					name: 'von Gunten, Beat',
+					familyName: 'von Gunten',
+					givenNames: 'Beat',
+					origin: 'Sigriswil',
+					domicile: 'Thun',
+					role: 'Mitglied des Verwaltungsrates',
+					signingAuthority: 'collective',
+					signature: 'mit Kollektivunterschrift zu zweien',
+				},
+				{
+					change: 'registered',
+					name: 'von Arx, Peter',
+					familyName: 'von Arx',
+					givenNames: 'Peter',
+					origin: 'Olten',
+					domicile: 'Zürich',
+					role: 'Mitglied des Verwaltungsrates',
+					signingAuthority: 'individual',
+					signature: 'mit Einzelunterschrift',
+				},
+			],
+		},
+	},
+	{
+		description: 'board member with a particle in the family name',
+		lang: 'fr',
+		message:
+			"Exemple Conseil SA, à Fribourg, CHE-101.000.061, société anonyme (FOSC du 12.01.2021, p. 0/1005070000). Inscription ou modification de personne(s): de Weck, Anne, de Fribourg, à Marly, administratrice, avec signature collective à deux; d'Allèves, Marc, de Sion, à Fribourg, secrétaire hors conseil, sans droit de signature.",
+		expected: {
+			persons: [
+				{
+					change: 'registered',
+					name: 'de Weck, Anne',
+					familyName: 'de Weck',
+					givenNames: 'Anne',
+					origin: 'Fribourg',
+					domicile: 'Marly',
+					role: 'administratrice',
+					signingAuthority: 'collective',
+					signature: 'avec signature collective à deux',
+				},
+				{
+					change: 'registered',
+					name: "d'Allèves, Marc",
+					familyName: "d'Allèves",
+					givenNames: 'Marc',
+					origin: 'Sion',
+					domicile: 'Fribourg',
+					role: 'secrétaire hors conseil',
+					signingAuthority: 'none',
+					signature: 'sans droit de signature',
+				},
+			],
+		},
+	},
+	{
+		description: 'director with a particle in the family name',
+		lang: 'it',
+		message:
+			'Esempio Servizi SA, in Lugano, CHE-101.000.061, società anonima (FUSC n. 33 del 14.09.2018). Nuove persone iscritte o modifiche di persone iscritte: da Ponte, Luca, da Lugano, in Bellinzona, direttore, con firma collettiva a due.',
+		expected: {
+			persons: [
+				{
+					change: 'registered',
+					name: 'da Ponte, Luca',
+					familyName: 'da Ponte',
+					givenNames: 'Luca',
+					origin: 'Lugano',
+					domicile: 'Bellinzona',
+					role: 'direttore',
+					signingAuthority: 'collective',
+					signature: 'con firma collettiva a due',
+				},
+			],
+		},
+	},
+];
@@ -0,0 +1,94 @@
+import {describe, expect, expectTypeOf, it} from 'vitest';
+import {
+	type CompanyFull,
+	getLanguageFallbackChain,
+	isDfieString,
+	type LegalForm,
+	localize,
+	toLocalizedView,
+	ZefixApiClient,
+} from '../src';
+import {makeCompanyFull, resetFixtures} from '../src/testing';
+
+const name = {de: 'Aktiengesellschaft', fr: 'Société anonyme', it: ''};
+
+describe('localize', () => {
+	it('picks the requested language', () => {
+		expect(localize(name, 'fr')).toBe('Société anonyme');
+		expect(localize(undefined, 'fr')).toBeUndefined();
+	});
+
+	it('falls back to other languages when the text is missing or empty', () => {
+		expect(localize(name, 'it')).toBe('Aktiengesellschaft');
+		expect(localize(name, 'en', {canton: 'ge'})).toBe('Société anonyme');
+		expect(localize(name, 'en', {fallback: ['fr']})).toBe('Société anonyme');
+		expect(localize(name, 'en', {fallback: []})).toBeUndefined();
+	});
+
+	it('builds fallback chains without duplicates', () => {
+		expect(getLanguageFallbackChain('fr')).toEqual(['fr', 'de', 'it', 'en']);
+		expect(getLanguageFallbackChain('en', {canton: 'TI'})).toEqual([
+			'en',
+			'it',
+			'de',
+			'fr',
+		]);
+		expect(getLanguageFallbackChain('de', {canton: 'XX'})).toEqual([
+			'de',
+			'fr',
+			'it',
+			'en',
+		]);
+	});
+
+	it('recognizes multilingual values', () => {
+		expect(isDfieString(name)).toBe(true);
+		expect(isDfieString({})).toBe(false);
+		expect(isDfieString({de: 'Bern', city: 'Bern'})).toBe(false);
+		expect(isDfieString({de: 1})).toBe(false);
+		expect(isDfieString(['de'])).toBe(false);
+	});
+});
+
+describe('toLocalizedView', () => {
+	it('replaces every multilingual value in a response', () => {
+		resetFixtures();
+		const company = makeCompanyFull();
+
+		const view = toLocalizedView(company, 'fr');
+
+		expect(view.legalForm?.name).toBe(company.legalForm?.name?.fr);
+		expect(view.legalForm?.shortName).toBe(company.legalForm?.shortName?.fr);
+		expect(view.zefixDetailWeb).toBe(company.zefixDetailWeb?.fr);
+		expect(view.address).toEqual(company.address);
+		expect(view.sogcPub).toEqual(company.sogcPub);
+		expectTypeOf(view.legalForm).toEqualTypeOf<
+			| {
+					id?: number;
+					uid?: string;
+					name?: string | undefined;
+					shortName?: string | undefined;
+			  }
+			| undefined
+		>();
+		expectTypeOf(view.name).toEqualTypeOf<CompanyFull['name']>();
+	});
+
+	it('maps lists', () => {
+		const legalForms: LegalForm[] = [{id: 1, name}];
+
+		const view = toLocalizedView(legalForms, 'it', {fallback: ['fr']});
+
+		expect(view).toEqual([{id: 1, name: 'Société anonyme'}]);
+		expectTypeOf(view[0].name).toEqualTypeOf<string | undefined>();
+	});
+
+	it('uses the client language', () => {
+		const zefix = new ZefixApiClient({language: 'fr'});
+
+		expect(zefix.language).toBe('fr');
+		expect(zefix.localize(name)).toBe('Société anonyme');
+		expect(zefix.toLocalizedView({name}).name).toBe('Société anonyme');
+		expect(new ZefixApiClient().localize(name)).toBe('Aktiengesellschaft');
+	});
+});
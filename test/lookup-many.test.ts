@@ -0,0 +1,120 @@
+import {describe, expect, it, vi} from 'vitest';
+import {formatUid, ZefixApiClient, ZefixServerError} from '../src';
+import {
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+	ZefixFixtures,
+} from '../src/testing';
+
+const data = new ZefixFixtures(11).makeFakeZefixDataset(6);
+const [first, second, failing] = data.companies;
+
+function createClient(options: {failUid?: string; delayMs?: number} = {}) {
+	const server = new FakeZefixServer({data});
+	let inFlight = 0;
+	const stats = {maxInFlight: 0, requests: 0};
+	const customFetch = vi.fn<typeof fetch>(async (input, init) => {
+		const request = new Request(input, init);
+		stats.requests++;
+		inFlight++;
+		stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+		try {
+			await new Promise((resolve) => {
+				setTimeout(resolve, options.delayMs ?? 1);
+			});
+			if (options.failUid && request.url.endsWith(options.failUid)) {
+				return Response.json(
+					{error: {type: 'INTERNAL_SERVER_ERROR', message: 'Boom'}},
+					{status: 500},
+				);
+			}
+
+			return await server.fetch(request);
+		} finally {
+			inFlight--;
+		}
+	});
+	const zefix = new ZefixApiClient({
+		auth: FAKE_ZEFIX_CREDENTIALS,
+		customFetch,
+	});
+	return {zefix, stats};
+}
+
+describe('lookupMany', () => {
+	it('returns one result per input, in input order', async () => {
+		const {zefix} = createClient({failUid: failing.uid});
+		const inputs = [
+			formatUid(first.uid!),
+			'not a uid',
+			'CHE-105.815.381',
+			second.uid!,
+			'CHE-105.815.382',
+			failing.uid!,
+			first.uid!.toLowerCase(),
+		];
+
+		const results = await zefix.lookupMany(inputs);
+
+		expect(results.map((result) => result.status)).toEqual([
+			'found',
+			'invalid',
+			'not-found',
+			'found',
+			'invalid',
+			'error',
+			'found',
+		]);
+		expect(results.map((result) => result.input)).toEqual(inputs);
+		expect(results[0]).toMatchObject({
+			uid: first.uid!.slice(3),
+			companies: [first],
+		});
+		expect(results[4]).toMatchObject({reason: 'INVALID_CHECKSUM'});
+		expect(results[5]).toMatchObject({
+			error: expect.any(ZefixServerError) as unknown,
+		});
+	});
+
+	it('looks up every distinct UID once with bounded concurrency', async () => {
+		const {zefix, stats} = createClient({delayMs: 5});
+		const uids = data.companies.flatMap((company) => [
+			company.uid!,
+			formatUid(company.uid!),
+		]);
+		const onProgress = vi.fn();
+
+		const results = await zefix.lookupMany(uids, {concurrency: 2, onProgress});
+
+		expect(results.every((result) => result.status === 'found')).toBe(true);
+		expect(stats.requests).toBe(data.companies.length);
+		expect(stats.maxInFlight).toBe(2);
+		expect(onProgress).toHaveBeenCalledTimes(data.companies.length);
+		expect(onProgress).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				completed: data.companies.length,
+				total: data.companies.length,
+			}),
+		);
+	});
+
+	it('stops on abort', async () => {
+		const {zefix, stats} = createClient({delayMs: 5});
+		const controller = new AbortController();
+		const uids = data.companies.map((company) => company.uid!);
+
+		const promise = zefix.lookupMany(uids, {
+			concurrency: 1,
+			signal: controller.signal,
+			onProgress() {
+				controller.abort(new Error('Stopped'));
+			},
+		});
+
+		await expect(promise).rejects.toThrow('Stopped');
+		expect(stats.requests).toBe(1);
+		await expect(zefix.lookupMany(uids, {concurrency: 0})).rejects.toThrow(
+			RangeError,
+		);
+	});
+});
@@ -0,0 +1,159 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {
+	InMemoryRateLimitStore,
+	RateLimiter,
+	takeToken,
+	ZefixApiClient,
+} from '../src';
+
+const bucket = {capacity: 3, refillPerSecond: 2};
+
+describe('takeToken', () => {
+	it('starts full and allows a burst up to capacity', () => {
+		let state;
+		const waits: number[] = [];
+		for (let i = 0; i < 4; i++) {
+			const result = takeToken(state, bucket, 0);
+			state = result.state;
+			waits.push(result.waitMs);
+		}
+
+		expect(waits).toEqual([0, 0, 0, 500]);
+	});
+
+	it('refills proportionally to elapsed time, capped at capacity', () => {
+		const empty = {tokens: 0, updatedAt: 0};
+
+		expect(takeToken(empty, bucket, 250).waitMs).toBe(250);
+		expect(takeToken(empty, bucket, 500).waitMs).toBe(0);
+		expect(takeToken(empty, bucket, 60_000).state.tokens).toBe(2);
+	});
+});
+
+describe('InMemoryRateLimitStore', () => {
+	it('keeps buckets per key', async () => {
+		let now = 0;
+		const store = new InMemoryRateLimitStore(() => now);
+		const single = {capacity: 1, refillPerSecond: 1};
+
+		expect(await store.take('a', single)).toBe(0);
+		expect(await store.take('a', single)).toBe(1000);
+		expect(await store.take('b', single)).toBe(0);
+
+		now = 1000;
+		expect(await store.take('a', single)).toBe(0);
+	});
+});
+
+describe('RateLimiter', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('rejects invalid bucket parameters', () => {
+		expect(() => new RateLimiter({capacity: 0, refillPerSecond: 1})).toThrow(
+			RangeError,
+		);
+		expect(() => new RateLimiter({capacity: 1, refillPerSecond: 0})).toThrow(
+			RangeError,
+		);
+	});
+
+	it('serves concurrent waiters in FIFO order at the refill rate', async () => {
+		vi.useFakeTimers({now: 0});
+		const limiter = new RateLimiter({capacity: 1, refillPerSecond: 10});
+		const order: Array<[number, number]> = [];
+
+		const waiters = [0, 1, 2, 3].map(async (id) => {
+			await limiter.acquire();
+			order.push([id, Date.now()]);
+		});
+		await vi.runAllTimersAsync();
+		await Promise.all(waiters);
+
+		expect(order.map(([id]) => id)).toEqual([0, 1, 2, 3]);
+		expect(order.map(([, time]) => time)).toEqual([0, 100, 200, 300]);
+	});
+
+	it('lets an aborted waiter leave the queue', async () => {
+		vi.useFakeTimers({now: 0});
+		const limiter = new RateLimiter({capacity: 1, refillPerSecond: 1});
+		const controller = new AbortController();
+
+		await limiter.acquire();
+		const aborted = limiter.acquire(controller.signal);
+		const next = limiter.acquire();
+		controller.abort(new Error('cancelled'));
+
+		await expect(aborted).rejects.toThrow('cancelled');
+		await vi.runAllTimersAsync();
+		await expect(next).resolves.toBeUndefined();
+		expect(Date.now()).toBe(1000);
+	});
+
+	it('shares one quota through a shared store', async () => {
+		const store = new InMemoryRateLimitStore(() => 0);
+		const options = {capacity: 2, refillPerSecond: 1, store};
+		const first = new RateLimiter(options);
+		const second = new RateLimiter(options);
+
+		await first.acquire();
+		await second.acquire();
+
+		expect(await store.take('zefix', options)).toBeGreaterThan(0);
+	});
+});
+
+describe('ZefixApiClient rate limiting', () => {
+	function okFetch() {
+		return vi.fn<typeof fetch>(async () => Response.json([]));
+	}
+
+	it('takes a token for every request', async () => {
+		const store = new InMemoryRateLimitStore(() => 0);
+		const take = vi.spyOn(store, 'take');
+		const zefix = new ZefixApiClient({
+			customFetch: okFetch(),
+			rateLimit: {capacity: 5, refillPerSecond: 1, store},
+		});
+
+		await zefix.getLegalForms();
+		await zefix.getCommunities();
+
+		expect(take).toHaveBeenCalledTimes(2);
+	});
+
+	it('shares a RateLimiter instance between clients', async () => {
+		const limiter = new RateLimiter({capacity: 5, refillPerSecond: 1});
+		const acquire = vi.spyOn(limiter, 'acquire');
+		const a = new ZefixApiClient({customFetch: okFetch(), rateLimit: limiter});
+		const b = new ZefixApiClient({customFetch: okFetch(), rateLimit: limiter});
+
+		await a.getLegalForms();
+		await b.getLegalForms();
+
+		expect(a.rateLimiter).toBe(limiter);
+		expect(acquire).toHaveBeenCalledTimes(2);
+	});
+
+	it('maps the throttle shorthand to a single-token bucket', async () => {
+		vi.useFakeTimers({now: 0});
+		const fetchMock = okFetch();
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			throttle: {minIntervalMs: 1000},
+		});
+
+		const requests = Promise.all([
+			zefix.getLegalForms(),
+			zefix.getLegalForms(),
+		]);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await requests;
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		vi.useRealTimers();
+	});
+});
@@ -0,0 +1,142 @@
+import {readFile} from 'node:fs/promises';
+import {describe, expect, it} from 'vitest';
+import {
+	diffReferenceData,
+	ReferenceData,
+	type ReferenceDataSnapshot,
+	ZefixApiClient,
+	ZefixServerError,
+} from '../src';
+import {referenceDataSnapshot} from '../src/snapshot';
+import {
+	createSeedDataset,
+	FAKE_ZEFIX_CREDENTIALS,
+	FakeZefixServer,
+} from '../src/testing';
+
+const live = createSeedDataset();
+const snapshot: ReferenceDataSnapshot = {
+	generatedAt: '2025-01-01T00:00:00.000Z',
+	legalForms: live.legalForms.slice(1),
+	communities: live.communities.map((community) =>
+		community.bfsId === 261 ? {...community, name: 'Zurich'} : community,
+	),
+	registries: [
+		...live.registries,
+		{registryOfCommerceId: 999, canton: 'XX', address1: 'Closed registry'},
+	],
+};
+
+function createClient() {
+	const server = new FakeZefixServer({data: live});
+	return new ZefixApiClient({
+		auth: FAKE_ZEFIX_CREDENTIALS,
+		customFetch: server.fetch,
+	});
+}
+
+describe('ReferenceData', () => {
+	it('serves lookups from the snapshot', () => {
+		const referenceData = new ReferenceData({snapshot});
+
+		expect(referenceData.legalForms).toEqual(snapshot.legalForms);
+		expect(referenceData.community(261)?.name).toBe('Zurich');
+		expect(referenceData.legalForm(live.legalForms[0].id!)).toBeUndefined();
+		expect(referenceData.registryCatalog().byCanton('XX')).toHaveLength(1);
+		expect(referenceData.status('communities')).toEqual({
+			source: 'snapshot',
+			updatedAt: '2025-01-01T00:00:00.000Z',
+		});
+		expect(referenceData.diff().hasChanges).toBe(false);
+	});
+
+	it('refreshes from the live endpoints and diffs against the snapshot', async () => {
+		const referenceData = new ReferenceData({snapshot, client: createClient()});
+
+		const diff = await referenceData.refresh();
+
+		expect(diff.hasChanges).toBe(true);
+		expect(diff.legalForms).toEqual({
+			added: [live.legalForms[0]],
+			removed: [],
+			changed: [],
+		});
+		expect(diff.communities.changed).toEqual([
+			{before: snapshot.communities[0], after: live.communities[0]},
+		]);
+		expect(diff.registries.removed).toEqual(snapshot.registries.slice(-1));
+		expect(referenceData.community(261)?.name).toBe('Zürich');
+		expect(referenceData.registryCatalog().byCanton('XX')).toEqual([]);
+		expect(referenceData.status('legalForms').source).toBe('live');
+		expect(Date.parse(referenceData.status('legalForms').updatedAt!)).not.toBe(
+			Number.NaN,
+		);
+	});
+
+	it('refreshes only the requested lists', async () => {
+		const referenceData = new ReferenceData({snapshot, client: createClient()});
+
+		const diff = await referenceData.refresh({kinds: ['legalForms']});
+
+		expect(diff.legalForms.added).toHaveLength(1);
+		expect(diff.communities.changed).toEqual([]);
+		expect(referenceData.status('communities').source).toBe('snapshot');
+	});
+
+	it('keeps the snapshot when a request fails', async () => {
+		const referenceData = new ReferenceData({
+			snapshot,
+			client: new ZefixApiClient({
+				auth: FAKE_ZEFIX_CREDENTIALS,
+				customFetch: async () => new Response('Unavailable', {status: 503}),
+			}),
+		});
+
+		await expect(referenceData.refresh()).rejects.toBeInstanceOf(
+			ZefixServerError,
+		);
+		expect(referenceData.legalForms).toEqual(snapshot.legalForms);
+		await expect(new ReferenceData({snapshot}).refresh()).rejects.toThrow(
+			'needs a client',
+		);
+	});
+});
+
+describe('diffReferenceData', () => {
+	it('matches records without an ID by content', () => {
+		const before = {...referenceDataSnapshot, legalForms: [{uid: '0101'}]};
+		const after = {...referenceDataSnapshot, legalForms: [{uid: '0102'}]};
+
+		expect(diffReferenceData(before, after).legalForms).toEqual({
+			added: [{uid: '0102'}],
+			removed: [{uid: '0101'}],
+			changed: [],
+		});
+	});
+});
+
+describe('bundled snapshot', () => {
+	it('is published only once it has been generated', async () => {
+		const packageJson = JSON.parse(await readFile('package.json', 'utf8')) as {
+			exports: Record<string, unknown>;
+		};
+		const generated = referenceDataSnapshot.generatedAt !== undefined;
+
+		expect('./reference-data' in packageJson.exports).toBe(generated);
+		expect(
+			[
+				referenceDataSnapshot.legalForms,
+				referenceDataSnapshot.communities,
+				referenceDataSnapshot.registries,
+			].map((list) => list.length > 0),
+		).toEqual([generated, generated, generated]);
+	});
+
+	it('is rejected by ReferenceData while empty', () => {
+		const empty = {...referenceDataSnapshot, legalForms: []};
+
+		expect(() => new ReferenceData({snapshot: empty})).toThrow(
+			/has no legalForms/,
+		);
+	});
+});
@@ -0,0 +1,184 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+	buildCantonalExcerptUrl,
+	type CompanyFull,
+	fillExcerptUrlTemplate,
+	getRegistriesOfCommerce,
+	type RegistryOfCommerce,
+	RegistryOfCommerceCatalog,
+	ZefixApiClient,
+} from '../src';
+
+const registries: RegistryOfCommerce[] = [
+	{
+		registryOfCommerceId: 20,
+		canton: 'ZH',
+		address1: 'Handelsregisteramt des Kantons Zürich',
+		url2: 'https://zh.example.ch/auszug?uid=#',
+		url4: 'https://zh.example.ch/auszug?uid=#&shabdatum=',
+	},
+	{registryOfCommerceId: 36, canton: 'BE', url2: 'https://be.example.ch/#'},
+	{registryOfCommerceId: 37, canton: 'BE'},
+	{canton: 'XX'},
+];
+
+describe('getRegistriesOfCommerce', () => {
+	it('lists the registries through the instance client', async () => {
+		const fetchMock = vi.fn<typeof fetch>(async () =>
+			Response.json(registries),
+		);
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+
+		const {data} = await zefix.getRegistriesOfCommerce();
+
+		expect(data).toEqual(registries);
+		expect((fetchMock.mock.calls[0][0] as Request).url).toBe(
+			'https://www.zefix.admin.ch/ZefixPublicREST/api/v1/registryOfCommerce',
+		);
+		expect(getRegistriesOfCommerce).toBeTypeOf('function');
+	});
+});
+
+describe('RegistryOfCommerceCatalog', () => {
+	const catalog = new RegistryOfCommerceCatalog(registries);
+
+	it('resolves registries by id and canton', () => {
+		expect(catalog.all).toHaveLength(3);
+		expect(catalog.byId(20)?.canton).toBe('ZH');
+		expect(catalog.byId(99)).toBeUndefined();
+		expect(
+			catalog.byCanton('be').map((registry) => registry.registryOfCommerceId),
+		).toEqual([36, 37]);
+	});
+
+	it('loads the list through a client', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: async () => Response.json(registries),
+		});
+
+		const loaded = await RegistryOfCommerceCatalog.load(zefix);
+
+		expect(loaded.byId(36)?.url2).toBe('https://be.example.ch/#');
+	});
+
+	it('builds excerpt URLs for active and deleted companies', () => {
+		expect(catalog.buildExcerptUrl(20, 'che105815381')).toBe(
+			'https://zh.example.ch/auszug?uid=CHE-105.815.381',
+		);
+		expect(catalog.buildExcerptUrl(20, 'CHE-105.815.381', '2021-06-30')).toBe(
+			'https://zh.example.ch/auszug?uid=CHE-105.815.381&shabdatum=20210630',
+		);
+		// Registry without a url4 template
+		expect(
+			catalog.buildExcerptUrl(36, 'CHE-105.815.381', '2021-06-30'),
+		).toBeUndefined();
+		expect(catalog.buildExcerptUrl(37, 'CHE-105.815.381')).toBeUndefined();
+		expect(
+			catalog.buildExcerptUrl(undefined, 'CHE-105.815.381'),
+		).toBeUndefined();
+	});
+});
+
+describe('fillExcerptUrlTemplate', () => {
+	it('places the deletion date according to the template', () => {
+		const uid = 'CHE-105.815.381';
+
+		expect(fillExcerptUrlTemplate('https://x.ch/#/#', uid, '20210630')).toBe(
+			'https://x.ch/CHE-105.815.381/20210630',
+		);
+		expect(
+			fillExcerptUrlTemplate(
+				'https://x.ch/?uid=#',
+				uid,
+				new Date('2021-06-30T00:00:00Z'),
+			),
+		).toBe('https://x.ch/?uid=CHE-105.815.381&shabdatum=20210630');
+	});
+
+	it('rejects invalid UIDs and dates', () => {
+		expect(fillExcerptUrlTemplate('https://x.ch/#', 'invalid')).toBeUndefined();
+		expect(
+			fillExcerptUrlTemplate('https://x.ch/#', 'CHE-105.815.381', '30.06.2021'),
+		).toBeUndefined();
+	});
+});
+
+describe('buildCantonalExcerptUrl', () => {
+	const registry = registries[0];
+	const company: CompanyFull = {
+		uid: 'CHE105815381',
+		registryOfCommerceId: 20,
+		status: 'ACTIVE',
+		sogcDate: '2021-07-05',
+		sogcPub: [
+			{sogcDate: '2015-03-02', mutationTypes: [{id: 1, key: 'neueintragung'}]},
+			{sogcDate: '2021-07-05', mutationTypes: [{id: 2, key: 'aenderung'}]},
+			{sogcDate: '2021-06-30', mutationTypes: [{id: 3, key: 'loeschung'}]},
+		],
+	};
+
+	it('uses url2 for active companies and companies being cancelled', () => {
+		const expected = 'https://zh.example.ch/auszug?uid=CHE-105.815.381';
+
+		expect(buildCantonalExcerptUrl(company, registry)).toBe(expected);
+		expect(
+			buildCantonalExcerptUrl(
+				{...company, status: 'BEING_CANCELLED'},
+				registry,
+			),
+		).toBe(expected);
+	});
+
+	it('uses url4 with the date of the deletion publication', () => {
+		expect(
+			buildCantonalExcerptUrl(
+				{...company, status: 'CANCELLED', deletionDate: '2021-06-25'},
+				registry,
+			),
+		).toBe(
+			'https://zh.example.ch/auszug?uid=CHE-105.815.381&shabdatum=20210630',
+		);
+	});
+
+	it('falls back to the latest publication without a deletion mutation type', () => {
+		const deleted: CompanyFull = {
+			uid: 'CHE-105.815.381',
+			deletionDate: '2021-06-25',
+			sogcPub: [{sogcDate: '2019-01-10'}, {sogcDate: '2021-06-30'}],
+		};
+
+		expect(buildCantonalExcerptUrl(deleted, registry)).toMatch(
+			/shabdatum=20210630$/,
+		);
+		expect(
+			buildCantonalExcerptUrl(
+				{uid: deleted.uid, status: 'CANCELLED', sogcDate: '2021-07-01'},
+				registry,
+			),
+		).toMatch(/shabdatum=20210701$/);
+	});
+
+	it('returns undefined when the URL cannot be built', () => {
+		expect(
+			buildCantonalExcerptUrl({...company, uid: undefined}, registry),
+		).toBe(undefined);
+		expect(buildCantonalExcerptUrl(company, undefined)).toBeUndefined();
+		expect(
+			buildCantonalExcerptUrl(
+				{uid: company.uid, status: 'CANCELLED'},
+				registry,
+			),
+		).toBeUndefined();
+	});
+
+	it('resolves the registry through the catalog', () => {
+		const catalog = new RegistryOfCommerceCatalog(registries);
+
+		expect(catalog.excerptUrlFor(company)).toBe(
+			'https://zh.example.ch/auszug?uid=CHE-105.815.381',
+		);
+		expect(
+			catalog.excerptUrlFor({...company, registryOfCommerceId: 37}),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,221 @@
+import {describe, expect, it, vi} from 'vitest';
+import {ZefixApiClient} from '../src';
+import {
+	computeRetryDelay,
+	parseRetryAfter,
+	type RetryAttempt,
+} from '../src/utils/retry';
+
+function reply(status: number, body: unknown, headers?: HeadersInit) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {'Content-Type': 'application/json', ...headers},
+	});
+}
+
+function sequenceFetch(...responses: Array<Response | Error>) {
+	return vi.fn<typeof fetch>(async () => {
+		const next = responses.shift();
+		if (!next) throw new Error('No more responses');
+		if (next instanceof Error) throw next;
+		return next;
+	});
+}
+
+const serverError = {
+	error: {type: 'INTERNAL_SERVER_ERROR', message: 'Internal error'},
+};
+
+describe('computeRetryDelay', () => {
+	it('grows exponentially and respects maxDelayMs', () => {
+		const options = {
+			initialDelayMs: 100,
+			backoffFactor: 3,
+			maxDelayMs: 1000,
+			jitter: 'none' as const,
+		};
+
+		expect(computeRetryDelay(1, options)).toBe(100);
+		expect(computeRetryDelay(2, options)).toBe(300);
+		expect(computeRetryDelay(3, options)).toBe(900);
+		expect(computeRetryDelay(4, options)).toBe(1000);
+	});
+
+	it('applies full and equal jitter', () => {
+		const options = {initialDelayMs: 100};
+
+		expect(computeRetryDelay(1, {...options, jitter: 'full'}, () => 0)).toBe(0);
+		expect(computeRetryDelay(1, {...options, jitter: 'full'}, () => 0.5)).toBe(
+			50,
+		);
+		expect(computeRetryDelay(1, {...options, jitter: 'equal'}, () => 0)).toBe(
+			50,
+		);
+		expect(computeRetryDelay(1, {...options, jitter: 'equal'}, () => 1)).toBe(
+			100,
+		);
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('parses delta-seconds and HTTP dates', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z');
+
+		expect(parseRetryAfter('120', now)).toBe(120_000);
+		expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+		expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+	});
+
+	it('ignores missing or malformed values', () => {
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter('')).toBeUndefined();
+		expect(parseRetryAfter('soon')).toBeUndefined();
+	});
+});
+
+describe('ZefixApiClient retry option', () => {
+	const fastRetry = {initialDelayMs: 1, jitter: 'none' as const};
+
+	it('does not retry when the option is omitted', async () => {
+		const fetchMock = sequenceFetch(reply(500, serverError), reply(200, []));
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+
+		const result = await zefix.getLegalForms();
+
+		expect(result.response.status).toBe(500);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries transient GET failures until success', async () => {
+		const fetchMock = sequenceFetch(
+			reply(500, serverError),
+			reply(503, {}),
+			reply(200, [{id: 1}]),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: fastRetry,
+		});
+
+		const result = await zefix.getLegalForms();
+
+		expect(result.data).toEqual([{id: 1}]);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('returns the last failure once maxAttempts is reached', async () => {
+		const fetchMock = sequenceFetch(
+			reply(500, serverError),
+			reply(500, serverError),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: {...fastRetry, maxAttempts: 2},
+		});
+
+		const result = await zefix.getLegalForms();
+
+		expect(result.response.status).toBe(500);
+		expect(result.error).toEqual(serverError);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not retry non-retryable error types', async () => {
+		const fetchMock = sequenceFetch(
+			reply(404, {error: {type: 'NOT_FOUND', message: 'Not found'}}),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: fastRetry,
+		});
+
+		const result = await zefix.getCompanyByUid({path: {id: 'CHE-123.456.789'}});
+
+		expect(result.response.status).toBe(404);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries configured error types regardless of status', async () => {
+		const fetchMock = sequenceFetch(
+			reply(400, serverError),
+			reply(200, [{id: 1}]),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: {...fastRetry, retryOnStatus: []},
+		});
+
+		await zefix.getLegalForms();
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('retries network errors', async () => {
+		const fetchMock = sequenceFetch(
+			new TypeError('fetch failed'),
+			reply(200, []),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: fastRetry,
+		});
+
+		const result = await zefix.getCommunities();
+
+		expect(result.response.ok).toBe(true);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('honours Retry-After up to maxDelayMs', async () => {
+		const attempts: RetryAttempt[] = [];
+		const fetchMock = sequenceFetch(
+			reply(429, {}, {'Retry-After': '1'}),
+			reply(200, []),
+		);
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: {
+				...fastRetry,
+				maxDelayMs: 20,
+				onRetry(attempt) {
+					attempts.push(attempt);
+				},
+			},
+		});
+
+		await zefix.getLegalForms();
+
+		expect(attempts).toHaveLength(1);
+		expect(attempts[0].attempt).toBe(1);
+		expect(attempts[0].response?.status).toBe(429);
+		expect(attempts[0].delayMs).toBe(20);
+	});
+
+	it('does not retry the search POST unless opted in', async () => {
+		const fetchMock = sequenceFetch(reply(500, serverError));
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: fastRetry,
+		});
+
+		const result = await zefix.searchCompanies({body: {name: 'Muster*'}});
+
+		expect(result.response.status).toBe(500);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries the search POST with its body when POST is opted in', async () => {
+		const fetchMock = sequenceFetch(reply(500, serverError), reply(200, []));
+		const zefix = new ZefixApiClient({
+			customFetch: fetchMock,
+			retry: {...fastRetry, methods: ['GET', 'POST']},
+		});
+
+		const result = await zefix.searchCompanies({body: {name: 'Muster*'}});
+
+		expect(result.response.ok).toBe(true);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		const retried = fetchMock.mock.calls[1][0] as Request;
+		expect(await retried.json()).toEqual({name: 'Muster*'});
+	});
+});
@@ -0,0 +1,165 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+	type CompanySearchQuery,
+	type CompanyShort,
+	ZefixApiClient,
+	ZefixResultListTooLargeError,
+} from '../src';
+
+type Company = CompanyShort & {canton: string};
+
+const registries = [
+	{registryOfCommerceId: 20, canton: 'ZH'},
+	{registryOfCommerceId: 36, canton: 'BE'},
+	{registryOfCommerceId: 37, canton: 'BE'},
+];
+
+const legalForms = [{id: 3}, {id: 4}];
+
+/**
+ * Minimal Zefix stand-in that rejects searches matching more than `limit` companies
+ */
+function fakeZefix(companies: Company[], limit: number) {
+	return vi.fn<typeof fetch>(async (input) => {
+		const request = input as Request;
+		const path = new URL(request.url).pathname;
+
+		if (path.endsWith('/registryOfCommerce')) return Response.json(registries);
+		if (path.endsWith('/legalForm')) return Response.json(legalForms);
+
+		const query: CompanySearchQuery = await request.json();
+		const prefix = query.name.replace(/\*$/, '').toLowerCase();
+		const matches = companies.filter(
+			(company) =>
+				company.name!.toLowerCase().startsWith(prefix) &&
+				(query.canton === undefined || company.canton === query.canton) &&
+				(query.registryOfCommerceId === undefined ||
+					company.registryOfCommerceId === query.registryOfCommerceId) &&
+				(query.legalFormId === undefined ||
+					company.legalForm?.id === query.legalFormId),
+		);
+
+		if (matches.length > limit) {
+			return Response.json(
+				{error: {type: 'RESULTLIST_TO_LARGE'}},
+				{status: 400},
+			);
+		}
+
+		if (matches.length === 0) {
+			return Response.json({error: {type: 'NOT_FOUND'}}, {status: 404});
+		}
+
+		return Response.json(matches.map(({canton: _canton, ...rest}) => rest));
+	});
+}
+
+function company(
+	ehraid: number,
+	name: string,
+	registryOfCommerceId: number,
+	legalFormId = 3,
+): Company {
+	const {canton} = registries.find(
+		(registry) => registry.registryOfCommerceId === registryOfCommerceId,
+	)!;
+	return {
+		ehraid,
+		name,
+		canton,
+		registryOfCommerceId,
+		legalForm: {id: legalFormId},
+	};
+}
+
+function ehraids(companies: CompanyShort[]): number[] {
+	return companies.map((c) => c.ehraid!).sort((a, b) => a - b);
+}
+
+describe('ZefixApiClient.searchAll', () => {
+	it('returns a single partition when the search succeeds', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: fakeZefix([company(1, 'Alpha AG', 20)], 10),
+		});
+
+		const result = await zefix.searchAll({name: 'Alpha*'});
+
+		expect(result.companies.map((c) => c.ehraid)).toEqual([1]);
+		expect(result.partitions).toEqual([{query: {name: 'Alpha*'}, count: 1}]);
+		expect(result.splitBy).toEqual([]);
+		expect(result.requests).toBe(1);
+	});
+
+	it('splits by canton, registry and legal form until every slice succeeds', async () => {
+		const companies = [
+			company(1, 'Alpha AG', 20),
+			company(2, 'Alpha GmbH', 20, 4),
+			company(3, 'Alpha Bern AG', 36),
+			company(4, 'Alpha Thun AG', 37),
+			company(5, 'Alpha Biel AG', 37),
+			company(6, 'Alpha Biel GmbH', 37, 4),
+		];
+		const zefix = new ZefixApiClient({customFetch: fakeZefix(companies, 2)});
+
+		const result = await zefix.searchAll({name: 'Alpha*', activeOnly: true});
+
+		expect(ehraids(result.companies)).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(result.splitBy).toEqual([
+			'canton',
+			'registryOfCommerceId',
+			'legalFormId',
+		]);
+		expect(result.partitions).toContainEqual({
+			query: {name: 'Alpha*', activeOnly: true, canton: 'ZH'},
+			count: 2,
+		});
+		expect(result.partitions).toContainEqual({
+			query: {
+				name: 'Alpha*',
+				activeOnly: true,
+				registryOfCommerceId: 37,
+				legalFormId: 3,
+			},
+			count: 2,
+		});
+	});
+
+	it('extends the name prefix as a last resort and deduplicates by ehraid', async () => {
+		const companies = [
+			company(1, 'Beta Eins AG', 20),
+			company(2, 'Beta Zwei AG', 20),
+			company(3, 'Betax AG', 20),
+		];
+		const zefix = new ZefixApiClient({customFetch: fakeZefix(companies, 1)});
+
+		const result = await zefix.searchAll(
+			{name: 'Beta*', canton: 'ZH', legalFormId: 3},
+			{prefixAlphabet: ' abcdefghijklmnopqrstuvwxyz'},
+		);
+
+		expect(result.splitBy).toEqual(['namePrefix']);
+		expect(ehraids(result.companies)).toEqual([1, 2, 3]);
+		expect(result.partitions.map((p) => p.query.name)).toContain('Beta z*');
+	});
+
+	it('rethrows RESULTLIST_TO_LARGE when a slice cannot be split further', async () => {
+		const companies = [company(1, 'Gamma', 20), company(2, 'Gamma', 20)];
+		const zefix = new ZefixApiClient({customFetch: fakeZefix(companies, 1)});
+
+		await expect(
+			zefix.searchAll({name: 'Gamma', canton: 'ZH', legalFormId: 3}),
+		).rejects.toBeInstanceOf(ZefixResultListTooLargeError);
+	});
+
+	it('stops after maxRequests', async () => {
+		const companies = [
+			company(1, 'Delta AG', 20),
+			company(2, 'Delta GmbH', 20),
+		];
+		const zefix = new ZefixApiClient({customFetch: fakeZefix(companies, 1)});
+
+		await expect(
+			zefix.searchAll({name: 'Delta*'}, {maxRequests: 5}),
+		).rejects.toMatchObject({code: 'SEARCH_LIMIT_EXCEEDED'});
+	});
+});
@@ -0,0 +1,54 @@
+import {describe, expect, it} from 'vitest';
+import {parseSogcMessage} from '../src';
+import {createSeedDataset} from '../src/testing';
+import {SOGC_MESSAGE_SAMPLES} from './fixtures/sogc-messages';
+
+describe('parseSogcMessage', () => {
+	it.each(SOGC_MESSAGE_SAMPLES)(
+		'parses the $lang sample: $description',
+		({lang, message, expected}) => {
+			const parsed = parseSogcMessage(message, lang);
+
+			expect(parsed).toMatchObject(expected);
+			expect(parsed.persons).toHaveLength(expected.persons?.length ?? 0);
+			expect(parseSogcMessage(message)).toEqual(parsed);
+		},
+	);
+
+	it('ignores markup and entities', () => {
+		const parsed = parseSogcMessage(
+			'<p>Muster &amp; Partner AG, in Zürich, CHE-101.000.026, Aktiengesellschaft (Neueintragung).</p><p>Zweck:&nbsp;Beratung.</p>',
+			'de',
+		);
+
+		expect(parsed).toMatchObject({
+			companyName: 'Muster & Partner AG',
+			fields: [{kind: 'purpose', label: 'Zweck', value: 'Beratung'}],
+		});
+	});
+
+	it('keeps unrecognized text', () => {
+		const parsed = parseSogcMessage(
+			'Mitteilung ohne Kopfzeile. Bemerkung: Text.',
+			'de',
+		);
+
+		expect(parsed).toEqual({
+			fields: [{kind: 'other', label: 'Bemerkung', value: 'Text'}],
+			persons: [],
+			remarks: ['Mitteilung ohne Kopfzeile.'],
+		});
+	});
+
+	it('parses the seed dataset messages', () => {
+		const messages = createSeedDataset().companies.flatMap(
+			(company) => company.sogcPub?.map((publication) => publication) ?? [],
+		);
+
+		for (const {message} of messages) {
+			const parsed = parseSogcMessage(message!);
+			expect(parsed.companyName, message).toBeTruthy();
+			expect(parsed.uid, message).toMatch(/^\d{9}$/);
+		}
+	});
+});
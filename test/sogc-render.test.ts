@@ -0,0 +1,108 @@
+import {describe, expect, it} from 'vitest';
+import {toMarkdown, toPlainText, toSafeHtml} from '../src';
+import {SOGC_MESSAGE_SAMPLES} from './fixtures/sogc-messages';
+
+const formatted =
+	'<p>Muster &amp; Partner AG, in Zürich, <b>CHE-101.000.026</b>.</p>' +
+	'<p>Zweck:</p><ul><li>Handel mit <i>Waren</i></li><li>Beratung</li></ul>' +
+	'Eingetragene Personen:<br>Muster, Hans, in Zürich<br/>Beispiel, Anna, in Bern';
+
+describe('toPlainText', () => {
+	it('keeps paragraphs, line breaks and lists', () => {
+		expect(toPlainText(formatted)).toBe(
+			[
+				'Muster & Partner AG, in Zürich, CHE-101.000.026.',
+				'',
+				'Zweck:',
+				'',
+				'- Handel mit Waren',
+				'- Beratung',
+				'',
+				'Eingetragene Personen:',
+				'Muster, Hans, in Zürich',
+				'Beispiel, Anna, in Bern',
+			].join('\n'),
+		);
+	});
+
+	it('numbers and indents nested lists', () => {
+		expect(
+			toPlainText('<ol><li>Eins<ul><li>a</li></ul></li><li>Zwei</li></ol>'),
+		).toBe('1. Eins\n  - a\n2. Zwei');
+	});
+
+	it('keeps plain messages as they are', () => {
+		for (const {message} of SOGC_MESSAGE_SAMPLES) {
+			expect(toPlainText(message)).toBe(message);
+		}
+
+		expect(toPlainText('Zeile 1\nZeile  2')).toBe('Zeile 1\nZeile 2');
+	});
+
+	it('decodes entities and drops scripts and comments', () => {
+		expect(
+			toPlainText(
+				'A&nbsp;&#8211;&#x2019;&laquo;&unknown;<!-- x --><script>alert("<p>")</script>B',
+			),
+		).toBe('A –’«&unknown;B');
+	});
+});
+
+describe('toMarkdown', () => {
+	it('marks up emphasis and escapes Markdown syntax', () => {
+		expect(toMarkdown(formatted)).toBe(
+			[
+				'Muster & Partner AG, in Zürich, **CHE-101.000.026**.',
+				'',
+				'Zweck:',
+				'',
+				'- Handel mit _Waren_',
+				'- Beratung',
+				'',
+				'Eingetragene Personen:',
+				'Muster, Hans, in Zürich',
+				'Beispiel, Anna, in Bern',
+			].join('\n'),
+		);
+		expect(toMarkdown('<h2>Titel</h2>Preis: 5 * 3 [CHF]')).toBe(
+			String.raw`## Titel` + '\n\n' + String.raw`Preis: 5 \* 3 \[CHF\]`,
+		);
+	});
+});
+
+describe('toSafeHtml', () => {
+	it('keeps allowed tags without attributes', () => {
+		expect(
+			toSafeHtml(
+				'<p class="x" onclick="steal()">Muster &amp; Co.<script>alert(1)</script></p>' +
+					'<a href="javascript:alert(1)">Link</a><img src=x onerror=alert(1)>' +
+					'<ul><li><b>A</b></li></ul>',
+			),
+		).toBe('<p>Muster &amp; Co.</p>Link<ul><li><b>A</b></li></ul>');
+	});
+
+	it('escapes text and balances tags', () => {
+		expect(toSafeHtml('<b>1 &lt; 2 <i>"kursiv"</b> & mehr</p>')).toBe(
+			'<b>1 &lt; 2 <i>&quot;kursiv&quot;</i></b> &amp; mehr',
+		);
+		expect(toSafeHtml('<ul><li>offen')).toBe('<ul><li>offen</li></ul>');
+		expect(toSafeHtml('<p title="a>b">Text</p>')).toBe('<p>Text</p>');
+	});
+
+	it('turns newlines of plain messages into line breaks', () => {
+		expect(toSafeHtml('Zeile 1\nZeile <2>')).toBe(
+			'Zeile 1<br>\nZeile &lt;2&gt;',
+		);
+		expect(toSafeHtml('<p>Zeile 1\nZeile 2</p>')).toBe(
+			'<p>Zeile 1\nZeile 2</p>',
+		);
+	});
+
+	it('uses the given allow-list', () => {
+		expect(
+			toSafeHtml('<p><b>Fett</b> <a href="/x">Link</a></p>', {
+				allowedTags: ['b'],
+			}),
+		).toBe('<b>Fett</b> Link');
+	});
+});
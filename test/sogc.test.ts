@@ -0,0 +1,176 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+	RateLimiter,
+	type SogcPublicationAndCompanyShort,
+	ZefixApiClient,
+	ZefixServerError,
+} from '../src';
+import {FAKE_ZEFIX_CREDENTIALS, FakeZefixServer} from '../src/testing';
+
+function publication(sogcId: number): SogcPublicationAndCompanyShort {
+	return {sogcPublication: {sogcId}, companyShort: {name: `Company ${sogcId}`}};
+}
+
+/**
+ * Serves the given publications per day; other days answer 404
+ */
+function sogcFetch(days: Record<string, SogcPublicationAndCompanyShort[]>) {
+	return vi.fn<typeof fetch>(async (input) => {
+		const date = (input as Request).url.split('/').pop()!;
+		const publications = days[date];
+		return publications
+			? Response.json(publications)
+			: Response.json({error: {type: 'NOT_FOUND'}}, {status: 404});
+	});
+}
+
+function requestedDates(mock: ReturnType<typeof sogcFetch>): string[] {
+	return mock.mock.calls.map(
+		([input]) => (input as Request).url.split('/').pop()!,
+	);
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = [];
+	for await (const item of iterable) items.push(item);
+	return items;
+}
+
+describe('ZefixApiClient.iterateSogc', () => {
+	it('walks weekdays in order and skips empty days and 404s', async () => {
+		const fetchMock = sogcFetch({
+			'2024-03-01': [publication(1), publication(2)],
+			'2024-03-04': [],
+			'2024-03-05': [publication(3)],
+		});
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+		const onDay = vi.fn();
+
+		const items = await collect(
+			zefix.iterateSogc({from: '2024-03-01', to: '2024-03-06', onDay}),
+		);
+
+		expect(items.map((item) => item.sogcPublication?.sogcId)).toEqual([
+			1, 2, 3,
+		]);
+		// 2024-03-02/03 is a weekend
+		expect(requestedDates(fetchMock)).toEqual([
+			'2024-03-01',
+			'2024-03-04',
+			'2024-03-05',
+			'2024-03-06',
+		]);
+		expect(onDay.mock.calls.map(([progress]) => progress as unknown)).toEqual([
+			{date: '2024-03-01', count: 2},
+			{date: '2024-03-04', count: 0},
+			{date: '2024-03-05', count: 1},
+			{date: '2024-03-06', count: 0},
+		]);
+	});
+
+	it('includes weekends when asked to', async () => {
+		const fetchMock = sogcFetch({});
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+
+		await collect(
+			zefix.iterateSogc({
+				from: new Date('2024-03-02T12:00:00Z'),
+				to: '2024-03-03',
+				skipWeekends: false,
+			}),
+		);
+
+		expect(requestedDates(fetchMock)).toEqual(['2024-03-02', '2024-03-03']);
+	});
+
+	it('resumes after a checkpoint date', async () => {
+		const fetchMock = sogcFetch({'2024-03-05': [publication(3)]});
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+
+		const items = await collect(
+			zefix.iterateSogc({
+				from: '2024-03-01',
+				to: '2024-03-05',
+				checkpoint: '2024-03-04',
+			}),
+		);
+
+		expect(items).toHaveLength(1);
+		expect(requestedDates(fetchMock)).toEqual(['2024-03-05']);
+	});
+
+	it('takes a rate limiter token per day', async () => {
+		const rateLimit = new RateLimiter({capacity: 10, refillPerSecond: 1});
+		const acquire = vi.spyOn(rateLimit, 'acquire');
+		const zefix = new ZefixApiClient({customFetch: sogcFetch({}), rateLimit});
+
+		await collect(zefix.iterateSogc({from: '2024-03-04', to: '2024-03-08'}));
+
+		expect(acquire).toHaveBeenCalledTimes(5);
+	});
+
+	it('treats days answering 204 as empty', async () => {
+		const server = new FakeZefixServer();
+		const zefix = new ZefixApiClient({
+			auth: FAKE_ZEFIX_CREDENTIALS,
+			customFetch: async (input, init) =>
+				(input as Request).url.endsWith('/2019-03-01')
+					? new Response(null, {status: 204})
+					: server.fetch(input, init),
+		});
+		const onDay = vi.fn();
+
+		const items = await collect(
+			zefix.iterateSogc({from: '2019-03-01', to: '2019-03-04', onDay}),
+		);
+
+		expect(items.length).toBeGreaterThan(0);
+		for (const item of items) {
+			expect(item.sogcPublication?.sogcDate).toBe('2019-03-04');
+		}
+
+		expect(onDay).toHaveBeenCalledWith({date: '2019-03-01', count: 0});
+	});
+
+	it('propagates errors other than 404', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: async () =>
+				Response.json({error: {type: 'INTERNAL_SERVER_ERROR'}}, {status: 500}),
+		});
+
+		await expect(
+			collect(zefix.iterateSogc({from: '2024-03-04', to: '2024-03-04'})),
+		).rejects.toBeInstanceOf(ZefixServerError);
+	});
+
+	it('stops when the signal is aborted', async () => {
+		const controller = new AbortController();
+		const fetchMock = sogcFetch({
+			'2024-03-04': [publication(1)],
+			'2024-03-05': [publication(2)],
+		});
+		const zefix = new ZefixApiClient({customFetch: fetchMock});
+		const iterator = zefix.iterateSogc({
+			from: '2024-03-04',
+			to: '2024-03-05',
+			signal: controller.signal,
+		});
+
+		await iterator.next();
+		controller.abort();
+
+		await expect(iterator.next()).rejects.toThrow();
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('rejects invalid ranges', async () => {
+		const zefix = new ZefixApiClient({customFetch: sogcFetch({})});
+
+		await expect(
+			collect(zefix.iterateSogc({from: '2024-03-05', to: '2024-03-04'})),
+		).rejects.toThrow(RangeError);
+		await expect(
+			collect(zefix.iterateSogc({from: '2024-02-30', to: '2024-03-04'})),
+		).rejects.toThrow(RangeError);
+	});
+});
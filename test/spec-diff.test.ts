@@ -0,0 +1,124 @@
+import {readFileSync} from 'node:fs';
+import {describe, expect, it} from 'vitest';
+import {diffSpecs, formatSpecDiff, type OpenApiSpec} from '../src';
+import {specDiffCommand} from '../src/cli/spec-diff';
+
+const specPath = new URL('../spec/zefix.json', import.meta.url);
+const loadSpec = () =>
+	JSON.parse(readFileSync(specPath, 'utf8')) as Required<OpenApiSpec> & {
+		components: {schemas: Record<string, any>};
+		paths: Record<string, Record<string, any>>;
+	};
+
+describe('diffSpecs', () => {
+	it('reports no changes for identical specs', () => {
+		const diff = diffSpecs(loadSpec(), loadSpec());
+
+		expect(diff).toEqual({
+			oldVersion: '2.6.1.2',
+			newVersion: '2.6.1.2',
+			breaking: [],
+			nonBreaking: [],
+		});
+		expect(formatSpecDiff(diff)).toContain('No changes');
+	});
+
+	it('classifies response schema changes', () => {
+		const spec = loadSpec();
+		const {schemas} = spec.components;
+		spec.info.version = '2.7.0';
+		delete schemas.CompanyFull.properties.purpose;
+		schemas.CompanyFull.properties.status.enum.push('MERGED');
+		schemas.ErrorDetails.properties.type.enum.push('TOO_MANY_REQUESTS');
+		schemas.CompanyShort.properties.lei = {type: 'string'};
+		schemas.LegalForm.properties.id = {type: 'string'};
+
+		const diff = diffSpecs(loadSpec(), spec);
+
+		expect(
+			diff.breaking.map(({kind, location}) => `${kind} ${location}`),
+		).toEqual([
+			'enum-value-added ErrorDetails.type',
+			'type-changed LegalForm.id',
+			'enum-value-added CompanyFull.status',
+			'property-removed CompanyFull.purpose',
+		]);
+		expect(
+			diff.nonBreaking.map(({kind, location}) => `${kind} ${location}`),
+		).toEqual([
+			'version-changed info.version',
+			'property-added CompanyShort.lei',
+		]);
+		expect(diff.breaking[2].message).toBe('new enum value "MERGED"');
+	});
+
+	it('classifies endpoint and request changes', () => {
+		const spec = loadSpec();
+		const {paths} = spec;
+		const query = spec.components.schemas.CompanySearchQuery;
+		paths['/api/v1/company/lei/{id}'] = paths['/api/v1/company/chid/{id}'];
+		delete paths['/api/v1/community'];
+		paths['/api/v1/sogc/{id}'].get.parameters[0].schema = {type: 'string'};
+		paths['/api/v1/legalForm'].get.parameters = [
+			{name: 'lang', in: 'query', schema: {type: 'string'}},
+		];
+		query.properties.lei = {type: 'string'};
+		query.required = [...(query.required ?? []), 'lei'];
+
+		const diff = diffSpecs(loadSpec(), spec);
+		const describe = (change: {kind: string; location: string}) =>
+			`${change.kind} ${change.location}`;
+
+		expect(diff.breaking.map((change) => describe(change))).toEqual([
+			'type-changed GET /api/v1/sogc/{id} path parameter id',
+			'endpoint-removed GET /api/v1/community',
+			'required-added CompanySearchQuery.lei',
+		]);
+		expect(diff.nonBreaking.map((change) => describe(change))).toEqual([
+			'parameter-added GET /api/v1/legalForm query parameter lang',
+			'endpoint-added GET /api/v1/company/lei/{id}',
+		]);
+	});
+});
+
+describe('zefix-spec-diff', () => {
+	function run(args: string[], newSpec: OpenApiSpec) {
+		const output: string[] = [];
+		const exitCode = specDiffCommand(args, {
+			bundledSpecPath: specPath.pathname,
+			stdout(text) {
+				output.push(text);
+			},
+			stderr(text) {
+				output.push(text);
+			},
+			fetch: async () => Response.json(newSpec),
+		});
+		return {exitCode, output};
+	}
+
+	it('exits with 0 without breaking changes', async () => {
+		const {exitCode, output} = run([], loadSpec());
+
+		expect(await exitCode).toBe(0);
+		expect(output.join('\n')).toContain('ZEFIX API 2.6.1.2 -> 2.6.1.2');
+	});
+
+	it('exits with 1 on breaking changes against the live spec', async () => {
+		const spec = loadSpec();
+		delete spec.components.schemas.CompanyShort.properties.uid;
+		const {exitCode, output} = run(['--json'], spec);
+
+		expect(await exitCode).toBe(1);
+		expect(JSON.parse(output[0])).toMatchObject({
+			breaking: [{kind: 'property-removed', location: 'CompanyShort.uid'}],
+		});
+	});
+
+	it('exits with 2 when a spec cannot be read', async () => {
+		const {exitCode, output} = run(['missing.json', 'missing.json'], {});
+
+		expect(await exitCode).toBe(2);
+		expect(output[0]).toContain('Could not read missing.json');
+	});
+});
@@ -0,0 +1,95 @@
+import {describe, expect, it} from 'vitest';
+import {
+	buildCompanyTimeline,
+	classifyMutationType,
+	type CompanyEventKind,
+	type SogcPublication,
+} from '../src';
+import {
+	createSeedDataset,
+	makeCompanyFull,
+	resetFixtures,
+} from '../src/testing';
+
+function publication(
+	sogcId: number,
+	sogcDate: string | undefined,
+	...keys: string[]
+): SogcPublication {
+	return {
+		sogcId,
+		sogcDate,
+		mutationTypes: keys.map((key, index) => ({id: index, key})),
+	};
+}
+
+describe('classifyMutationType', () => {
+	it('maps mutation type keys to the event taxonomy', () => {
+		const expected: Record<string, CompanyEventKind> = {
+			neueintragung: 'founding',
+			aenderungfirma: 'name-change',
+			aenderungsitz: 'seat-change',
+			aenderungdomizil: 'address-change',
+			aenderungzweck: 'purpose-change',
+			aenderungkapital: 'capital-change',
+			aenderungrevisionsstelle: 'auditor-change',
+			aufloesung: 'liquidation',
+			loeschung: 'deletion',
+			fusion: 'merger',
+			aenderungorgane: 'other',
+		};
+
+		for (const [key, kind] of Object.entries(expected)) {
+			expect(classifyMutationType(key), key).toBe(kind);
+		}
+
+		expect(classifyMutationType(undefined)).toBe('other');
+	});
+});
+
+describe('buildCompanyTimeline', () => {
+	it('orders events by date and SOGC ID', () => {
+		const timeline = buildCompanyTimeline({
+			sogcPub: [
+				publication(30, '2021-06-30', 'loeschung'),
+				publication(12, undefined),
+				publication(20, '2020-01-15', 'aufloesung', 'aenderungfirma'),
+				publication(11, '2015-03-02', 'aenderungkapital'),
+				publication(10, '2015-03-02', 'neueintragung'),
+			],
+		});
+
+		expect(
+			timeline.map(({kind, sogcId, date}) => [kind, sogcId, date]),
+		).toEqual([
+			['founding', 10, '2015-03-02'],
+			['capital-change', 11, '2015-03-02'],
+			['liquidation', 20, '2020-01-15'],
+			['name-change', 20, '2020-01-15'],
+			['deletion', 30, '2021-06-30'],
+			['other', 12, undefined],
+		]);
+		expect(timeline[2].mutationType).toEqual({id: 0, key: 'aufloesung'});
+		expect(timeline[2].publication.sogcId).toBe(20);
+	});
+
+	it('reconstructs the history of generated companies', () => {
+		resetFixtures();
+		const company = makeCompanyFull({status: 'CANCELLED'});
+
+		const kinds = buildCompanyTimeline(company).map((event) => event.kind);
+
+		expect(kinds[0]).toBe('founding');
+		expect(kinds.indexOf('deletion')).toBe(kinds.length - 1);
+		expect(buildCompanyTimeline({})).toEqual([]);
+	});
+
+	it('recognizes the seed dataset auditor changes', () => {
+		const [company] = createSeedDataset().companies;
+
+		expect(buildCompanyTimeline(company).map((event) => event.kind)).toEqual([
+			'founding',
+			'auditor-change',
+		]);
+	});
+});
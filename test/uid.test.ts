@@ -1,8 +1,11 @@
 import {describe, expect, it} from 'vitest';
 import {
+	computeUidCheckDigit,
 	formatUid,
+	isValidUid,
 	isValidUidFormat,
 	normalizeUid,
+	parseUid,
 	uidEquals,
 	type UidCore,
 } from '../src/uid';
@@ -223,4 +226,65 @@ describe('UID helpers', () => {
 			}
 		});
 	});
+
+	describe('computeUidCheckDigit', () => {
+		it('computes the eCH-0097 modulo 11 check digit', () => {
+			expect(computeUidCheckDigit('10581538')).toBe(1);
+			expect(computeUidCheckDigit('10772178')).toBe(5);
+			expect(computeUidCheckDigit('12345678')).toBe(8);
+		});
+
+		it('returns undefined for unassignable or malformed input', () => {
+			// Weighted sum 12, so the check digit would be 10
+			expect(computeUidCheckDigit('00000003')).toBeUndefined();
+			expect(computeUidCheckDigit('1234567')).toBeUndefined();
+			expect(computeUidCheckDigit('1234567a')).toBeUndefined();
+		});
+	});
+
+	describe('isValidUid', () => {
+		it('accepts UIDs with a correct check digit in any spelling', () => {
+			for (const uid of [
+				'CHE-105.815.381',
+				'che 107 721 785',
+				'CHE107810911 MWST',
+				'123456788',
+			]) {
+				expect(isValidUid(uid)).toBe(true);
+			}
+		});
+
+		it('rejects UIDs with a wrong check digit', () => {
+			expect(isValidUid('CHE-105.815.382')).toBe(false);
+			expect(isValidUid('CHE-123.456.789')).toBe(false);
+			expect(isValidUidFormat('CHE-123.456.789')).toBe(true);
+		});
+	});
+
+	describe('parseUid', () => {
+		it('returns the normalized and formatted UID', () => {
+			expect(parseUid(' che-105.815.381 tva ')).toEqual({
+				ok: true,
+				uid: '105815381',
+				formatted: 'CHE-105.815.381',
+			});
+		});
+
+		it('reports why a UID was rejected', () => {
+			const cases: Array<[string, string]> = [
+				['CHF-105.815.381', 'INVALID_PREFIX'],
+				['ABC105815381', 'INVALID_PREFIX'],
+				['CHE-ABC.DEF.GHI', 'INVALID_CHARACTERS'],
+				['CHE-105_815_381', 'INVALID_CHARACTERS'],
+				['CHE-105.815.38', 'INVALID_LENGTH'],
+				['CHE-105.815.3810', 'INVALID_LENGTH'],
+				['', 'INVALID_LENGTH'],
+				['CHE-105.815.382', 'INVALID_CHECKSUM'],
+			];
+
+			for (const [input, error] of cases) {
+				expect(parseUid(input)).toEqual({ok: false, error, input});
+			}
+		});
+	});
 });
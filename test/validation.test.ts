@@ -0,0 +1,147 @@
+import {describe, expect, it, vi} from 'vitest';
+import {
+	CACHE_STATUS_HEADER,
+	isBfsCommunity,
+	isLegalForm,
+	validateCompanyFull,
+	validateLegalForm,
+	ZefixApiClient,
+	ZefixResponseValidationError,
+} from '../src';
+
+function reply(body: unknown, status = 200) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {'Content-Type': 'application/json'},
+	});
+}
+
+const legalForm = {
+	id: 3,
+	uid: '0106',
+	name: {de: 'Aktiengesellschaft', fr: 'Société anonyme'},
+	shortName: {de: 'AG', fr: 'SA'},
+};
+
+describe('generated validators', () => {
+	it('accepts values matching the schema', () => {
+		const result = validateLegalForm(legalForm);
+
+		expect(result.valid).toBe(true);
+		expect(result.valid && result.value.id).toBe(3);
+	});
+
+	it('reports the JSON path of every mismatch', () => {
+		const result = validateCompanyFull({
+			uid: 'CHE123456789',
+			status: 'GONE',
+			legalForm: {id: '3', name: 'AG'},
+			sogcPub: [{sogcId: 1, sogcDate: '1.1.2024'}],
+		});
+
+		expect(result.valid).toBe(false);
+		expect(result.valid ? [] : result.issues).toEqual([
+			{path: '$.legalForm.id', expected: 'integer', received: 'string'},
+			{path: '$.legalForm.name', expected: 'DfieString', received: 'string'},
+			{
+				path: '$.status',
+				expected: 'one of "ACTIVE", "CANCELLED", "BEING_CANCELLED"',
+				received: '"GONE"',
+			},
+			{
+				path: '$.sogcPub[0].sogcDate',
+				expected: 'date (YYYY-MM-DD)',
+				received: '"1.1.2024"',
+			},
+		]);
+	});
+
+	it('backs the legal form and BFS community guards', () => {
+		expect(isLegalForm(legalForm)).toBe(true);
+		expect(isLegalForm({id: 3, name: 'Aktiengesellschaft'})).toBe(false);
+		expect(isBfsCommunity({bfsId: 261, canton: 'ZH', name: 'Zürich'})).toBe(
+			true,
+		);
+		expect(isBfsCommunity({bfsId: 261, communityName: 'Zürich'})).toBe(false);
+	});
+});
+
+describe('validateResponses', () => {
+	const invalid = [{...legalForm, id: 'three'}];
+
+	it('does not check responses by default', async () => {
+		const zefix = new ZefixApiClient({
+			customFetch: vi.fn(async () => reply(invalid)),
+		});
+
+		const {data} = await zefix.getLegalForms();
+		expect(data).toEqual(invalid);
+	});
+
+	it('rejects mismatching responses in strict mode', async () => {
+		const zefix = new ZefixApiClient({
+			validateResponses: 'strict',
+			customFetch: vi.fn(async () => reply(invalid)),
+		});
+
+		const error = await zefix.getLegalForms().catch((error: unknown) => error);
+		expect(error).toBeInstanceOf(ZefixResponseValidationError);
+		expect(error).toMatchObject({
+			code: 'INVALID_RESPONSE',
+			status: 200,
+			retryable: false,
+			issues: [{path: '$[0].id', expected: 'integer', received: 'string'}],
+		});
+		expect((error as Error).message).toContain('$[0].id: expected integer');
+	});
+
+	it('reports mismatches and returns the data in warn mode', async () => {
+		const onInvalidResponse = vi.fn();
+		const zefix = new ZefixApiClient({
+			validateResponses: 'warn',
+			onInvalidResponse,
+			customFetch: vi.fn(async () => reply(invalid)),
+		});
+
+		const {data} = await zefix.getLegalForms();
+		expect(data).toEqual(invalid);
+		expect(onInvalidResponse).toHaveBeenCalledOnce();
+		expect(onInvalidResponse.mock.calls[0][0]).toBeInstanceOf(
+			ZefixResponseValidationError,
+		);
+	});
+
+	it('does not cache responses that failed validation', async () => {
+		const customFetch = vi.fn(async () => reply(invalid));
+		const zefix = new ZefixApiClient({
+			validateResponses: 'warn',
+			onInvalidResponse: vi.fn(),
+			customFetch,
+			cache: {},
+		});
+
+		await zefix.getLegalForms();
+		const {response} = await zefix.getLegalForms();
+
+		expect(customFetch).toHaveBeenCalledTimes(2);
+		expect(response.headers.get(CACHE_STATUS_HEADER)).toBeNull();
+	});
+
+	it('leaves valid and error responses alone', async () => {
+		const customFetch = vi
+			.fn<typeof fetch>()
+			.mockResolvedValueOnce(reply([legalForm]))
+			.mockResolvedValueOnce(
+				reply({error: {type: 'NOT_FOUND', message: 'Not found'}}, 404),
+			);
+		const zefix = new ZefixApiClient({
+			validateResponses: 'strict',
+			customFetch,
+		});
+
+		const {data} = await zefix.getLegalForms();
+		expect(data).toEqual([legalForm]);
+		const {error} = await zefix.getCompanyByUid({path: {id: 'CHE123456789'}});
+		expect(error).toBeDefined();
+	});
+});
@@ -2,7 +2,7 @@
 /// <reference types="@cloudflare/vitest-pool-workers" />
 import {fetchMock} from 'cloudflare:test';
 import {afterEach, beforeAll, describe, expect, it, vi} from 'vitest';
-import {client, configureClient, toBase64} from '../src/index';
+import {client, configureClient, toBase64, toSafeHtml} from '../src/index';
 
 beforeAll(() => {
 	fetchMock.activate();
@@ -185,4 +185,10 @@ describe('ZEFIX Client Configuration - Workers Runtime', () => {
 		expect(unicodeAuth).toBeDefined();
 		expect(unicodeAuth.length).toBeGreaterThan(0);
 	});
+
+	it('renders SOGC messages without DOM APIs', () => {
+		expect(toSafeHtml('<p onclick="x()">A &amp; B<script>x()</script>')).toBe(
+			'<p>A &amp; B</p>',
+		);
+	});
 });
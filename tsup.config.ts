@@ -37,4 +37,34 @@ export default defineConfig([
 		outDir: 'dist',
 		external: [], // No external runtime dependencies
 	},
+	// Testing helpers (fake server, fixtures)
+	{
+		entry: {testing: 'src/testing/index.ts'},
+		format: ['esm', 'cjs'],
+		platform: 'browser',
+		target: 'es2020',
+		dts: true,
+		sourcemap: true,
+		clean: false,
+		treeshake: true,
+		minify: true,
+		splitting: false,
+		outDir: 'dist',
+		external: [], // No external runtime dependencies
+	},
+	// Command-line tools (Node.js only)
+	{
+		entry: {
+			zefix: 'src/bin/zefix.ts',
+			'zefix-spec-diff': 'src/bin/zefix-spec-diff.ts',
+		},
+		format: ['esm'],
+		platform: 'node',
+		target: 'node20',
+		clean: false,
+		treeshake: true,
+		splitting: false,
+		outDir: 'dist',
+		banner: {js: '#!/usr/bin/env node'},
+	},
 ]);
@@ -1,6 +1,11 @@
 const xoConfig = [
 	{
-		ignores: ['dist/**', 'node_modules/**', 'src/generated/**'],
+		ignores: [
+			'dist/**',
+			'node_modules/**',
+			'src/generated/**',
+			'src/snapshot/*.gen.ts',
+		],
 	},
 
 	{